@@ -6,7 +6,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
 import Home from "@/pages/home";
 import AuthPage from "@/pages/auth-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import UserPage from "@/pages/user-page";
+import RecipePage from "@/pages/recipe-page";
 import SettingsPage from "@/pages/settings-page";
 import NotFound from "@/pages/not-found";
 
@@ -14,9 +16,11 @@ function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/auth/verify-email" component={VerifyEmailPage} />
       <Route path="/settings">
         <SettingsPage />
       </Route>
+      <Route path="/:username/recipes/:id" component={RecipePage} />
       <Route path="/:username" component={UserPage} />
       <Route path="/">
         <Home />
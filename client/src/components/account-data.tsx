@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PasswordInput } from "@/components/ui/password-input";
+import { ConfirmationDialog } from "@/components/confirmation-dialog";
+import { Download, Loader2 } from "lucide-react";
+
+// Settings cards for taking your data with you and for deleting the account
+export function AccountData() {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (password: string) => {
+      await apiRequest("DELETE", "/api/user", { password });
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      queryClient.clear();
+      toast({
+        title: "Account deleted",
+        description: "Your recipes, cooking log and photos have been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      setConfirming(false);
+      setError(apiErrorMessage(error, "Couldn't delete your account. Please try again."));
+    },
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Download Your Data</CardTitle>
+          <CardDescription>
+            A zip file with your profile, recipes and cooking log as JSON, plus your photos at full size.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline" className="w-full">
+            <a href="/api/user/export" download>
+              <Download className="mr-2 h-4 w-4" />
+              Download My Data
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-4 border-red-200">
+        <CardHeader>
+          <CardTitle className="text-red-700">Delete Account</CardTitle>
+          <CardDescription>
+            Permanently deletes your account, recipes, cooking log and photos. This can't be undone,
+            so download your data first if you want to keep it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setError(null);
+              setConfirming(true);
+            }}
+          >
+            <div>
+              <Label htmlFor="delete-account-password">Current Password</Label>
+              <PasswordInput
+                id="delete-account-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Needed to delete your account"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" variant="destructive" className="w-full" disabled={!password || deleteMutation.isPending}>
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete My Account
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        isOpen={confirming}
+        onClose={() => setConfirming(false)}
+        onConfirm={() => deleteMutation.mutate(password)}
+        title="Delete your account?"
+        message="Your recipes, cooking log and photos will be deleted for good."
+        confirmText="Delete Account"
+        isLoading={deleteMutation.isPending}
+      />
+    </>
+  );
+}
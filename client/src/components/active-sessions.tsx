@@ -0,0 +1,138 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Monitor, Smartphone } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+
+// A rough "Browser on OS" label; good enough to recognise your own devices
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.slice(0, 60);
+}
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : "Unknown";
+}
+
+export function ActiveSessions() {
+  const { toast } = useToast();
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't sign out",
+      description: apiErrorMessage(error, "Please try again."),
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/user/sessions/${session.id}`);
+    },
+    onSuccess: (_result, session) => {
+      if (session.current) {
+        // Signing out this session is the same as logging out
+        queryClient.setQueryData(["/api/user"], null);
+        queryClient.clear();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/sessions/revoke-others");
+      return (await res.json()).signedOutSessions as number;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({
+        title: "Signed out everywhere else",
+        description: `${count} other ${count === 1 ? "session was" : "sessions were"} signed out.`,
+      });
+    },
+    onError,
+  });
+
+  const otherSessions = sessions?.filter(session => !session.current) ?? [];
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle>Where You're Signed In</CardTitle>
+        <CardDescription>
+          Sign out any session you don't recognise, then change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        ) : (
+          <ul className="divide-y">
+            {sessions?.map(session => {
+              const DeviceIcon = /Mobile|Android|iPhone/.test(session.userAgent ?? "") ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <DeviceIcon className="h-5 w-5 mt-0.5 flex-none text-gray-500" />
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && <span className="ml-2 text-recipe-green">This device</span>}
+                      </p>
+                      <p className="text-gray-500">
+                        {session.ip ?? "Unknown IP"} · Last active {formatTime(session.lastSeenAt)}
+                      </p>
+                      <p className="text-gray-500">Signed in {formatTime(session.createdAt)}</p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(session)}
+                  >
+                    Sign Out
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {otherSessions.length > 0 && (
+          <Button
+            variant="destructive"
+            className="w-full"
+            disabled={revokeOthersMutation.isPending}
+            onClick={() => revokeOthersMutation.mutate()}
+          >
+            {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign Out Everywhere Else
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,23 +1,50 @@
 import { useState, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { csrfFetch } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { heroIngredientOptions } from "@shared/schema";
+import { heroIngredientOptions, type Recipe } from "@shared/schema";
 
 interface AddRecipeFormProps {
   onSuccess?: () => void;
+  recipe?: Recipe; // When set the form edits this recipe instead of creating one
+  onCancel?: () => void;
 }
 
-export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
-  const [formData, setFormData] = useState({
-    name: "",
-    heroIngredient: "",
-    cookTime: 0,
-    servings: 0,
-    ingredients: "",
-    instructions: "",
-  });
+type RecipeFormFields = {
+  name: string;
+  heroIngredient: string;
+  cookTime: number;
+  servings: number;
+  ingredients: string;
+  instructions: string;
+};
+
+const emptyFormData: RecipeFormFields = {
+  name: "",
+  heroIngredient: "",
+  cookTime: 0,
+  servings: 0,
+  ingredients: "",
+  instructions: "",
+};
+
+function formDataFromRecipe(recipe: Recipe): RecipeFormFields {
+  return {
+    name: recipe.name,
+    heroIngredient: recipe.heroIngredient,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+  };
+}
+
+export function AddRecipeForm({ onSuccess, recipe, onCancel }: AddRecipeFormProps) {
+  const isEditing = !!recipe;
+  const [formData, setFormData] = useState<RecipeFormFields>(recipe ? formDataFromRecipe(recipe) : emptyFormData);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
-  const [photoPreview, setPhotoPreview] = useState<string>("");
+  const [photoPreview, setPhotoPreview] = useState<string>(recipe?.photo || "");
+  const [removePhoto, setRemovePhoto] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -26,7 +53,7 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
 
   const createRecipeMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const response = await fetch("/api/recipes", {
+      const response = await csrfFetch("/api/recipes", {
         method: "POST",
         body: data,
       });
@@ -59,8 +86,64 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
     },
   });
 
+  const updateRecipeMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await csrfFetch(`/api/recipes/${recipe!.id}`, {
+        method: "PATCH",
+        body: data,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.details || errorData.error || "Failed to update recipe";
+        console.error('Recipe update failed:', response.status, errorData);
+        throw new Error(errorMessage);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      onSuccess?.();
+      toast({
+        title: "Recipe updated",
+        description: "Your changes have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update recipe. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only send the fields that changed so the cooking log and rating are untouched
+  const handleUpdate = () => {
+    const original = formDataFromRecipe(recipe!);
+    const changes = new FormData();
+    (Object.keys(formData) as Array<keyof RecipeFormFields>).forEach(field => {
+      if (formData[field] !== original[field]) {
+        changes.append(field, formData[field].toString());
+      }
+    });
+
+    if (photoFile) {
+      changes.append("photo", photoFile);
+    } else if (removePhoto) {
+      changes.append("removePhoto", "true");
+    }
+
+    updateRecipeMutation.mutate(changes);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (isEditing) {
+      handleUpdate();
+      return;
+    }
     
     const formDataToSend = new FormData();
     formDataToSend.append("name", formData.name);
@@ -81,6 +164,7 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
     const file = e.target.files?.[0];
     if (file) {
       setPhotoFile(file);
+      setRemovePhoto(false);
       const reader = new FileReader();
       reader.onload = (e) => {
         setPhotoPreview(e.target?.result as string);
@@ -90,21 +174,28 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
   };
 
   const resetForm = () => {
-    setFormData({
-      name: "",
-      heroIngredient: "",
-      cookTime: 0,
-      servings: 0,
-      ingredients: "",
-      instructions: "",
-    });
+    setFormData(emptyFormData);
+    setPhotoFile(null);
+    setPhotoPreview("");
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleRemovePhoto = (e: React.MouseEvent) => {
+    e.stopPropagation();
     setPhotoFile(null);
     setPhotoPreview("");
+    setRemovePhoto(true);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
+  const isPending = createRecipeMutation.isPending || updateRecipeMutation.isPending;
+
+  // Several recipes can be edited on one page, so field ids include the recipe id
+  const fieldId = (name: string) => (recipe ? `${name}-${recipe.id}` : name);
 
 
   return (
@@ -117,10 +208,10 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
 
       <form onSubmit={handleSubmit}>
         <div className="recipe-form-group">
-          <label htmlFor="recipe-name">Recipe Name *</label>
+          <label htmlFor={fieldId("recipe-name")}>Recipe Name *</label>
           <input
             type="text"
-            id="recipe-name"
+            id={fieldId("recipe-name")}
             className="recipe-input"
             required
             placeholder="Enter your recipe name"
@@ -130,9 +221,9 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
         </div>
 
         <div className="recipe-form-group">
-          <label htmlFor="hero-ingredient">Hero Ingredient *</label>
+          <label htmlFor={fieldId("hero-ingredient")}>Hero Ingredient *</label>
           <select
-            id="hero-ingredient"
+            id={fieldId("hero-ingredient")}
             className="recipe-select"
             required
             value={formData.heroIngredient}
@@ -146,10 +237,10 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
         </div>
 
         <div className="recipe-form-group">
-          <label htmlFor="cook-time">Cooking Time (minutes) *</label>
+          <label htmlFor={fieldId("cook-time")}>Cooking Time (minutes) *</label>
           <input
             type="number"
-            id="cook-time"
+            id={fieldId("cook-time")}
             className="recipe-input"
             required
             min="1"
@@ -160,10 +251,10 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
         </div>
 
         <div className="recipe-form-group">
-          <label htmlFor="servings">Servings *</label>
+          <label htmlFor={fieldId("servings")}>Servings *</label>
           <input
             type="number"
-            id="servings"
+            id={fieldId("servings")}
             className="recipe-input"
             required
             min="1"
@@ -174,9 +265,9 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
         </div>
 
         <div className="recipe-form-group">
-          <label htmlFor="ingredients">Ingredients *</label>
+          <label htmlFor={fieldId("ingredients")}>Ingredients *</label>
           <textarea
-            id="ingredients"
+            id={fieldId("ingredients")}
             className="recipe-textarea"
             required
             placeholder="List each ingredient on a new line...&#10;2 cups flour&#10;1 tsp salt&#10;3 eggs"
@@ -186,9 +277,9 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
         </div>
 
         <div className="recipe-form-group">
-          <label htmlFor="instructions">Instructions *</label>
+          <label htmlFor={fieldId("instructions")}>Instructions *</label>
           <textarea
-            id="instructions"
+            id={fieldId("instructions")}
             className="recipe-textarea"
             required
             placeholder="Add each step on a new line..."
@@ -207,7 +298,9 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
               onChange={handlePhotoChange}
               style={{ display: 'none' }}
             />
-            <p style={{ color: 'var(--recipe-green)', fontWeight: 500 }}>📷 Click to upload photo</p>
+            <p style={{ color: 'var(--recipe-green)', fontWeight: 500 }}>
+              📷 {isEditing && photoPreview ? "Click to replace photo" : "Click to upload photo"}
+            </p>
             <p style={{ fontSize: '12px', color: 'var(--recipe-accent)', marginTop: '4px' }}>
               JPG, PNG or WebP (max 5MB)
             </p>
@@ -219,6 +312,15 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
                 alt="Recipe preview"
                 className="max-w-[200px] max-h-[200px] rounded-xl shadow-lg mx-auto"
               />
+              {isEditing && (
+                <button
+                  type="button"
+                  className="mt-2 text-sm text-gray-500 hover:text-gray-700 underline"
+                  onClick={handleRemovePhoto}
+                >
+                  Remove photo
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -228,16 +330,18 @@ export function AddRecipeForm({ onSuccess }: AddRecipeFormProps) {
         <button 
           type="submit" 
           className="recipe-btn"
-          disabled={createRecipeMutation.isPending}
+          disabled={isPending}
         >
-          {createRecipeMutation.isPending ? "Adding Recipe..." : "Add Recipe"}
+          {isEditing
+            ? (updateRecipeMutation.isPending ? "Saving..." : "Save Changes")
+            : (createRecipeMutation.isPending ? "Adding Recipe..." : "Add Recipe")}
         </button>
         <button 
           type="button" 
           className="recipe-btn recipe-btn-secondary" 
-          onClick={resetForm}
+          onClick={isEditing ? onCancel : resetForm}
         >
-          Clear Form
+          {isEditing ? "Cancel" : "Clear Form"}
         </button>
       </form>
     </>
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound, Loader2 } from "lucide-react";
+import { apiTokenScopes, type ApiTokenInfo, type ApiTokenScope, type CreateApiToken } from "@shared/schema";
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 md:text-sm";
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  read: "Read only",
+  write: "Read and write",
+};
+
+const expiryOptions = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null },
+];
+
+function formatDate(value: Date | string | null, fallback: string): string {
+  return value ? new Date(value).toLocaleDateString() : fallback;
+}
+
+// Settings card for personal API tokens, used by scripts as `Authorization: Bearer <token>`
+export function ApiTokens() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/user/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (details: CreateApiToken) => {
+      const res = await apiRequest("POST", "/api/user/tokens", details);
+      return (await res.json()).token as string;
+    },
+    onSuccess: (token) => {
+      setError(null);
+      setName("");
+      setNewToken(token);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+    },
+    onError: (error: Error) => setError(apiErrorMessage(error, "Couldn't create the token. Please try again.")),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (token: ApiTokenInfo) => {
+      await apiRequest("DELETE", `/api/user/tokens/${token.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't revoke token",
+        description: apiErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          Let your own scripts use the API as you. Send a token as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newToken ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Copy this token now. It won't be shown again.
+            </p>
+            <p className="rounded-md bg-gray-50 p-4 font-mono text-sm break-all">{newToken}</p>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => navigator.clipboard?.writeText(newToken)}
+            >
+              Copy token
+            </Button>
+            <Button type="button" className="w-full" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) createMutation.mutate({ name: name.trim(), scope, expiresInDays });
+            }}
+          >
+            <div>
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Meal planner script"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="api-token-scope">Access</Label>
+                <select
+                  id="api-token-scope"
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as ApiTokenScope)}
+                  className={selectClassName}
+                >
+                  {apiTokenScopes.map(option => (
+                    <option key={option} value={option}>{scopeLabels[option]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="api-token-expiry">Expires</Label>
+                <select
+                  id="api-token-expiry"
+                  value={expiresInDays ?? "never"}
+                  onChange={(e) => setExpiresInDays(e.target.value === "never" ? null : Number(e.target.value))}
+                  className={selectClassName}
+                >
+                  {expiryOptions.map(option => (
+                    <option key={option.label} value={option.days ?? "never"}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={!name.trim() || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Token
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        ) : tokens && tokens.length > 0 && (
+          <ul className="divide-y">
+            {tokens.map(token => (
+              <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {token.name}
+                    <span className="ml-2 text-gray-500">{scopeLabels[token.scope as ApiTokenScope] ?? token.scope}</span>
+                  </p>
+                  <p className="font-mono text-gray-500">{token.tokenPrefix}…</p>
+                  <p className="text-gray-500">
+                    Expires {formatDate(token.expiresAt, "never")} · Last used {formatDate(token.lastUsedAt, "never")}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(token)}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
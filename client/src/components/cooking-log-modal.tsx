@@ -1,42 +1,62 @@
 import { useState, useRef } from "react";
 import { createPortal } from "react-dom";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, csrfFetch } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { CookingLogEntry } from "@shared/schema";
 
 interface CookingLogModalProps {
   isOpen: boolean;
   onClose: () => void;
   recipeId: string;
   recipeName: string;
+  entry?: CookingLogEntry; // When set the modal corrects this entry instead of logging a new session
 }
 
-export function CookingLogModal({ isOpen, onClose, recipeId, recipeName }: CookingLogModalProps) {
-  const [rating, setRating] = useState(0);
-  const [notes, setNotes] = useState("");
-  const [photoFile, setPhotoFile] = useState<File | null>(null);
-  const [photoPreview, setPhotoPreview] = useState<string>("");
+// Matches the server's per-session upload limit
+const MAX_SESSION_PHOTOS = 5;
+
+// <input type="date"> works in local calendar days
+function toDateInputValue(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Move a timestamp to another day, keeping its time of day
+function withDate(timestamp: string, dateValue: string): string {
+  const [year, month, day] = dateValue.split("-").map(Number);
+  const date = new Date(timestamp);
+  date.setFullYear(year, month - 1, day);
+  return date.toISOString();
+}
+
+export function CookingLogModal({ isOpen, onClose, recipeId, recipeName, entry }: CookingLogModalProps) {
+  const isEditing = !!entry;
+  const [rating, setRating] = useState(entry?.rating ?? 0);
+  const [notes, setNotes] = useState(entry?.notes ?? "");
+  const [cookedOn, setCookedOn] = useState(entry ? toDateInputValue(entry.timestamp) : "");
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   const logCookingMutation = useMutation({
     mutationFn: async () => {
-      // First log the cooking session
-      const logResponse = await apiRequest("POST", `/api/recipes/${recipeId}/cooking-log`, {
-        timestamp: new Date().toISOString(),
-        notes: notes || "Cooked this recipe",
-        rating,
-      });
+      // Photos are stored with the session; the recipe's cover is left alone
+      const formData = new FormData();
+      formData.append("timestamp", new Date().toISOString());
+      formData.append("notes", notes || "Cooked this recipe");
+      formData.append("rating", rating.toString());
+      photoFiles.forEach(file => formData.append("photos", file));
 
-      // If there's a photo, update the recipe with the new photo
-      if (photoFile) {
-        const formData = new FormData();
-        formData.append("photo", photoFile);
-        await fetch(`/api/recipes/${recipeId}`, {
-          method: "PATCH",
-          body: formData,
-        });
+      const logResponse = await csrfFetch(`/api/recipes/${recipeId}/cooking-log`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!logResponse.ok) {
+        throw new Error(`${logResponse.status}: ${await logResponse.text()}`);
       }
 
       return logResponse.json();
@@ -60,23 +80,71 @@ export function CookingLogModal({ isOpen, onClose, recipeId, recipeName }: Cooki
     },
   });
 
+  // Only the fields that were corrected are sent
+  const entryChanges = (): Partial<CookingLogEntry> => {
+    const changes: Partial<CookingLogEntry> = {};
+    if (rating !== entry!.rating) changes.rating = rating;
+    if (notes !== entry!.notes) changes.notes = notes;
+    if (cookedOn !== toDateInputValue(entry!.timestamp)) changes.timestamp = withDate(entry!.timestamp, cookedOn);
+    return changes;
+  };
+
+  const updateLogMutation = useMutation({
+    mutationFn: async (changes: Partial<CookingLogEntry>) => {
+      const response = await apiRequest("PATCH", `/api/recipes/${recipeId}/cooking-log/${entry!.id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Cooking session updated",
+        description: "Your changes to this entry have been saved.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      // 409: the entry was removed elsewhere, so refresh to show the current log
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+        onClose();
+      }
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "This cooking log entry no longer exists."
+          : "Failed to update cooking session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setPhotoFile(file);
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_SESSION_PHOTOS);
+    if (files.length === 0) return;
+
+    setPhotoFiles(files);
+    setPhotoPreviews([]);
+    files.forEach((file, index) => {
       const reader = new FileReader();
       reader.onload = (e) => {
-        setPhotoPreview(e.target?.result as string);
+        const preview = e.target?.result as string;
+        setPhotoPreviews(current => {
+          const next = [...current];
+          next[index] = preview;
+          return next;
+        });
       };
       reader.readAsDataURL(file);
-    }
+    });
   };
 
   const resetForm = () => {
     setRating(0);
     setNotes("");
-    setPhotoFile(null);
-    setPhotoPreview("");
+    setPhotoFiles([]);
+    setPhotoPreviews([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -92,16 +160,27 @@ export function CookingLogModal({ isOpen, onClose, recipeId, recipeName }: Cooki
       });
       return;
     }
+    if (isEditing) {
+      const changes = entryChanges();
+      if (Object.keys(changes).length === 0) {
+        onClose();
+        return;
+      }
+      updateLogMutation.mutate(changes);
+      return;
+    }
     logCookingMutation.mutate();
   };
 
+  const isPending = logCookingMutation.isPending || updateLogMutation.isPending;
+
   if (!isOpen) return null;
 
   const modalContent = (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4" style={{ zIndex: 9999 }}>
       <div className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto" style={{ zIndex: 10000 }}>
         <div className="mb-6">
-          <h3 className="text-xl font-semibold text-gray-900 mb-2">Log Cooking Session</h3>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">{isEditing ? "Edit Cooking Session" : "Log Cooking Session"}</h3>
           <p className="text-gray-600">{recipeName}</p>
         </div>
 
@@ -126,6 +205,23 @@ export function CookingLogModal({ isOpen, onClose, recipeId, recipeName }: Cooki
             </div>
           </div>
 
+          {isEditing && (
+            <div className="mb-6">
+              <label htmlFor="cooked-on" className="block text-sm font-medium text-gray-700 mb-2">
+                Cooked on *
+              </label>
+              <input
+                id="cooked-on"
+                type="date"
+                required
+                value={cookedOn}
+                max={toDateInputValue(new Date().toISOString())}
+                onChange={(e) => setCookedOn(e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
           <div className="mb-6">
             <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
               Notes (optional)
@@ -140,39 +236,47 @@ export function CookingLogModal({ isOpen, onClose, recipeId, recipeName }: Cooki
             />
           </div>
 
-          <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Update Recipe Photo (optional)
-            </label>
-            <div 
-              className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center cursor-pointer hover:border-green-500 transition-colors"
-              onClick={() => fileInputRef.current?.click()}
-            >
-              <input
-                type="file"
-                ref={fileInputRef}
-                accept="image/*"
-                onChange={handlePhotoChange}
-                className="hidden"
-              />
-              {photoPreview ? (
-                <div>
-                  <img
-                    src={photoPreview}
-                    alt="Preview"
-                    className="max-w-full max-h-32 mx-auto rounded-lg mb-2"
-                  />
-                  <p className="text-sm text-gray-600">Click to change photo</p>
-                </div>
-              ) : (
-                <div>
-                  <div className="text-3xl mb-2">📷</div>
-                  <p className="text-sm text-gray-600">Click to upload new photo</p>
-                  <p className="text-xs text-gray-500 mt-1">This will replace the current recipe photo</p>
-                </div>
-              )}
+          {!isEditing && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Photos of this attempt (optional)
+              </label>
+              <div 
+                className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center cursor-pointer hover:border-green-500 transition-colors"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  accept="image/*"
+                  multiple
+                  onChange={handlePhotoChange}
+                  className="hidden"
+                />
+                {photoPreviews.length > 0 ? (
+                  <div>
+                    <div className="flex flex-wrap justify-center gap-2 mb-2">
+                      {photoPreviews.map((preview, index) => (
+                        <img
+                          key={index}
+                          src={preview}
+                          alt={`Preview ${index + 1}`}
+                          className="h-20 w-20 object-cover rounded-lg"
+                        />
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-600">Click to choose different photos</p>
+                  </div>
+                ) : (
+                  <div>
+                    <div className="text-3xl mb-2">📷</div>
+                    <p className="text-sm text-gray-600">Click to add up to {MAX_SESSION_PHOTOS} photos</p>
+                    <p className="text-xs text-gray-500 mt-1">They're kept with this entry; the recipe photo stays as it is</p>
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="flex gap-3">
             <button
@@ -187,10 +291,12 @@ export function CookingLogModal({ isOpen, onClose, recipeId, recipeName }: Cooki
             </button>
             <button
               type="submit"
-              disabled={logCookingMutation.isPending}
+              disabled={isPending}
               className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
             >
-              {logCookingMutation.isPending ? "Logging..." : "Log Session"}
+              {isEditing
+                ? (updateLogMutation.isPending ? "Saving..." : "Save Changes")
+                : (logCookingMutation.isPending ? "Logging..." : "Log Session")}
             </button>
           </div>
         </form>
@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Recipe } from "@shared/schema";
+import { RecipePhoto } from "./recipe-photo";
+
+interface CookingPhotoGalleryProps {
+  recipe: Recipe;
+  isOwner?: boolean;
+}
+
+export function CookingPhotoGallery({ recipe, isOwner = false }: CookingPhotoGalleryProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const makeCoverMutation = useMutation({
+    mutationFn: async (photo: string) => {
+      const response = await apiRequest("PUT", `/api/recipes/${recipe.id}/cover`, { photo });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Cover photo updated",
+        description: "This attempt is now the recipe's photo.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the cover photo. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The cooking log is newest first, so the gallery is too
+  const photos = (recipe.cookingLog ?? []).flatMap(entry =>
+    (entry.photos ?? []).map(photo => ({ photo, cookedOn: new Date(entry.timestamp).toLocaleDateString() }))
+  );
+
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <strong>Past Attempts:</strong>
+      <div className="cooking-gallery mt-2">
+        {photos.map(({ photo, cookedOn }) => (
+          <figure key={photo} className="cooking-gallery-item">
+            <RecipePhoto
+              src={photo}
+              variants={recipe.photoVariants?.[photo]}
+              sizes="(max-width: 640px) 50vw, 200px"
+              alt={`${recipe.name}, cooked ${cookedOn}`}
+            />
+            <figcaption>
+              <span>{cookedOn}</span>
+              {isOwner && (recipe.photo === photo ? (
+                <span className="cooking-gallery-cover">Cover</span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-xs underline"
+                  onClick={() => makeCoverMutation.mutate(photo)}
+                  disabled={makeCoverMutation.isPending}
+                >
+                  Make cover
+                </button>
+              ))}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+
+// Shown to signed-in users until they follow the link sent when they registered
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/resend-verification");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for a link to confirm your address.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send verification email",
+        description: apiErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.emailVerifiedAt) return null;
+
+  return (
+    <div className="recipe-container mt-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-amber-900">
+        <div className="flex items-center gap-2">
+          <MailWarning className="h-5 w-5 flex-none" />
+          <p className="text-sm">
+            Please confirm your email address ({user.email}) using the link we sent you.
+            It's how you'll recover your account if you forget your password.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending || resendMutation.isSuccess}
+        >
+          {resendMutation.isSuccess ? "Email sent" : "Resend email"}
+        </Button>
+      </div>
+    </div>
+  );
+}
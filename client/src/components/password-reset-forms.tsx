@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PasswordInput } from "@/components/ui/password-input";
+import { Loader2 } from "lucide-react";
+
+interface ForgotPasswordFormProps {
+  idPrefix: string; // The auth page renders separate mobile and desktop layouts
+  onBack: () => void;
+}
+
+export function ForgotPasswordForm({ idPrefix, onBack }: ForgotPasswordFormProps) {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const { toast } = useToast();
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (email: string) => {
+      await apiRequest("POST", "/api/forgot-password", { email });
+    },
+    onSuccess: () => setSent(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send reset link",
+        description: apiErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email.trim()) requestResetMutation.mutate(email.trim());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset your password</CardTitle>
+        <CardDescription>
+          {sent
+            ? "If an account uses that email, we've sent a link to choose a new password. It works for one hour."
+            : "Enter the email you registered with and we'll send you a reset link."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!sent && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-forgot-email`}>Email</Label>
+              <Input
+                id={`${idPrefix}-forgot-email`}
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="your@email.com"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+              {requestResetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Reset Link
+            </Button>
+          </form>
+        )}
+        <Button type="button" variant="link" className="w-full mt-2" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ResetPasswordFormProps {
+  idPrefix: string;
+  token: string;
+  onDone: () => void;
+}
+
+export function ResetPasswordForm({ idPrefix, token, onDone }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/reset-password", { token, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password updated",
+        description: "Sign in with your new password.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      setError(apiErrorMessage(error, "Failed to reset password. Please try again."));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password.length < 8) {
+      setError("Password must be at least 8 characters");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+    resetPasswordMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>Your reset link can only be used once.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor={`${idPrefix}-reset-password`}>New Password</Label>
+            <PasswordInput
+              id={`${idPrefix}-reset-password`}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="At least 8 characters"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`${idPrefix}-reset-confirm`}>Confirm New Password</Label>
+            <PasswordInput
+              id={`${idPrefix}-reset-confirm`}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Repeat the new password"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+            {resetPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set New Password
+          </Button>
+        </form>
+        <Button type="button" variant="link" className="w-full mt-2" onClick={onDone}>
+          Back to sign in
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
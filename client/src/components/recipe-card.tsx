@@ -1,24 +1,40 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { CookingLogModal } from "./cooking-log-modal";
 import { ConfirmationDialog } from "./confirmation-dialog";
-import type { Recipe } from "@shared/schema";
+import { AddRecipeForm } from "./add-recipe-form";
+import { CookingPhotoGallery } from "./cooking-photo-gallery";
+import { RecipePhoto } from "./recipe-photo";
+import type { Recipe, CookingLogEntry, SearchSnippetSegment } from "@shared/schema";
+import { formatIngredient, groupIngredients } from "@shared/ingredients";
+import { scaleRecipe } from "@shared/scaling";
+import { convertRecipe } from "@shared/units";
 
 interface RecipeCardProps {
   recipe: Recipe;
   isOwner?: boolean;
+  username?: string; // Owner's username; when set the title links to the recipe's own page
+  expanded?: boolean; // Detail page view: cooking log starts open
+  onDeleted?: () => void;
+  searchSnippet?: SearchSnippetSegment[]; // Passages matching the current search, shown under the title
 }
 
-export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
-  const [showCookingLog, setShowCookingLog] = useState(false);
+export function RecipeCard({ recipe, isOwner = false, username, expanded = false, onDeleted, searchSnippet }: RecipeCardProps) {
+  const [showCookingLog, setShowCookingLog] = useState(expanded);
   const [showLogModal, setShowLogModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showLogDeleteConfirm, setShowLogDeleteConfirm] = useState(false);
-  const [logToDelete, setLogToDelete] = useState<number | null>(null);
+  const [logToDelete, setLogToDelete] = useState<string | null>(null);
+  const [logToEdit, setLogToEdit] = useState<CookingLogEntry | null>(null);
+  const [servings, setServings] = useState(recipe.servings);
+  const [isEditing, setIsEditing] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -27,6 +43,7 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      onDeleted?.();
       toast({
         title: "Recipe deleted",
         description: "Your recipe has been removed from your collection.",
@@ -42,8 +59,8 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
   });
 
   const removeLogMutation = useMutation({
-    mutationFn: async ({ recipeId, logIndex }: { recipeId: string; logIndex: number }) => {
-      await apiRequest("DELETE", `/api/recipes/${recipeId}/cooking-log/${logIndex}`);
+    mutationFn: async ({ recipeId, entryId }: { recipeId: string; entryId: string }) => {
+      await apiRequest("DELETE", `/api/recipes/${recipeId}/cooking-log/${entryId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
@@ -53,7 +70,17 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
         description: "The entry has been deleted from your cooking log.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // 409: the entry was already removed elsewhere, so refresh to show the current log
+      if (error.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+        toast({
+          title: "Entry already removed",
+          description: "This cooking log entry was already deleted. The log has been refreshed.",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to remove cooking log entry. Please try again.",
@@ -62,6 +89,18 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
     },
   });
 
+  // Start from the stored servings again once an edit changes them
+  useEffect(() => {
+    setServings(recipe.servings);
+  }, [recipe.servings]);
+
+  // Scaling and unit conversion use the same helpers as GET /api/recipes/:id?servings=N&units=
+  const measurementSystem = user?.measurementSystem;
+  const displayRecipe = measurementSystem === "metric" || measurementSystem === "imperial"
+    ? convertRecipe(scaleRecipe(recipe, servings), measurementSystem)
+    : scaleRecipe(recipe, servings);
+  const isScaled = servings !== recipe.servings;
+
   const handleDelete = () => {
     setShowDeleteConfirm(true);
   };
@@ -71,28 +110,79 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
     setShowDeleteConfirm(false);
   };
 
-  const handleRemoveLog = (logIndex: number) => {
-    setLogToDelete(logIndex);
+  const handleRemoveLog = (entryId: string) => {
+    setLogToDelete(entryId);
     setShowLogDeleteConfirm(true);
   };
 
   const confirmRemoveLog = () => {
     if (logToDelete !== null) {
-      removeLogMutation.mutate({ recipeId: recipe.id, logIndex: logToDelete });
+      removeLogMutation.mutate({ recipeId: recipe.id, entryId: logToDelete });
     }
     setShowLogDeleteConfirm(false);
     setLogToDelete(null);
   };
 
+  if (isEditing) {
+    return (
+      <div className="recipe-card">
+        <h3 className="recipe-title mb-5">Edit Recipe</h3>
+        <AddRecipeForm
+          recipe={recipe}
+          onSuccess={() => setIsEditing(false)}
+          onCancel={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="recipe-card">
       <div className="flex justify-between items-start mb-5">
         <div className="flex-1">
-          <h3 className="recipe-title">{recipe.name}</h3>
+          <h3 className="recipe-title">
+            {username && !expanded ? (
+              <Link href={`/${username}/recipes/${recipe.id}`} className="hover:underline">
+                {recipe.name}
+              </Link>
+            ) : (
+              recipe.name
+            )}
+          </h3>
           <div className="recipe-meta">
             <span className="hero-ingredient">{recipe.heroIngredient}</span>
             <span className="time-badge">{recipe.cookTime} min</span>
-            <span style={{ color: 'var(--recipe-accent)' }}>Serves {recipe.servings}</span>
+            <span className="servings-stepper" style={{ color: 'var(--recipe-accent)' }}>
+              <button
+                type="button"
+                className="servings-stepper-btn"
+                onClick={() => setServings(current => Math.max(1, current - 1))}
+                disabled={servings <= 1}
+                aria-label="Decrease servings"
+              >
+                −
+              </button>
+              Serves {servings}
+              <button
+                type="button"
+                className="servings-stepper-btn"
+                onClick={() => setServings(current => Math.min(50, current + 1))}
+                disabled={servings >= 50}
+                aria-label="Increase servings"
+              >
+                +
+              </button>
+              {isScaled && (
+                <button
+                  type="button"
+                  className="text-xs underline"
+                  onClick={() => setServings(recipe.servings)}
+                  title={`Reset to the original ${recipe.servings} servings`}
+                >
+                  reset
+                </button>
+              )}
+            </span>
           </div>
           <div className="recipe-rating">
             {Array.from({ length: 5 }, (_, i) => (
@@ -104,11 +194,20 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
               </span>
             ))}
           </div>
+          {searchSnippet && searchSnippet.some(segment => segment.highlighted) && (
+            <p className="search-snippet">
+              {searchSnippet.map((segment, index) =>
+                segment.highlighted ? <mark key={index}>{segment.text}</mark> : <span key={index}>{segment.text}</span>
+              )}
+            </p>
+          )}
         </div>
         {recipe.photo && (
-          <img 
-            src={recipe.photo} 
-            alt={recipe.name} 
+          <RecipePhoto
+            src={recipe.photo}
+            variants={recipe.photoVariants?.[recipe.photo]}
+            sizes="120px"
+            alt={recipe.name}
             className="recipe-photo"
           />
         )}
@@ -116,15 +215,30 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
       
       <div className="mb-4">
         <strong>Ingredients:</strong>
-        <div className="mt-2 text-gray-600 whitespace-pre-line">
-          {recipe.ingredients}
-        </div>
+        {displayRecipe.ingredientList && displayRecipe.ingredientList.length > 0 ? (
+          <div className="mt-2 text-gray-600">
+            {groupIngredients(displayRecipe.ingredientList).map((group, groupIndex) => (
+              <div key={groupIndex} className={groupIndex > 0 ? "mt-3" : undefined}>
+                {group.group && (
+                  <div className="font-medium" style={{ color: 'var(--recipe-green)' }}>{group.group}</div>
+                )}
+                {group.ingredients.map((ingredient, index) => (
+                  <div key={index}>{formatIngredient(ingredient)}</div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-2 text-gray-600 whitespace-pre-line">
+            {recipe.ingredients}
+          </div>
+        )}
       </div>
       
       <div className="mb-4">
         <strong>Instructions:</strong>
         <div className="mt-2 text-gray-600">
-          {recipe.instructions.split('\n').filter(step => step.trim()).map((step, index) => (
+          {displayRecipe.instructions.split('\n').filter(step => step.trim()).map((step, index) => (
             <div key={index} className="mb-2">
               {step.trim()}
             </div>
@@ -132,6 +246,8 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
         </div>
       </div>
       
+      {expanded && <CookingPhotoGallery recipe={recipe} isOwner={isOwner} />}
+
       {isOwner && (
         <div className="recipe-actions mt-5">
           <button 
@@ -140,6 +256,12 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
           >
             Log Cooking Session
           </button>
+          <button 
+            className="recipe-btn recipe-btn-secondary"
+            onClick={() => setIsEditing(true)}
+          >
+            Edit
+          </button>
           <button 
             className="delete-btn desktop-delete"
             onClick={handleDelete}
@@ -161,8 +283,8 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
               {showCookingLog ? "Hide" : "Show"} ({recipe.cookingLog?.length || 0})
             </button>
           </div>
-          {showCookingLog && recipe.cookingLog?.map((log, index) => (
-            <div key={index} className="cooking-log-entry">
+          {showCookingLog && recipe.cookingLog?.map((log) => (
+            <div key={log.id} className="cooking-log-entry">
               <div className="cooking-log-content">
                 <div>
                   <span>{new Date((log as any).timestamp || (log as any).date).toLocaleDateString()}</span>
@@ -178,17 +300,42 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
                     ))}
                   </div>
                 </div>
-                <span className="text-gray-600 cooking-log-notes">{log.notes}</span>
+                <div className="cooking-log-notes">
+                  <span className="text-gray-600">{log.notes}</span>
+                  {log.photos && log.photos.length > 0 && (
+                    <div className="cooking-log-photos">
+                      {log.photos.map(photo => (
+                        <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                          <RecipePhoto
+                            src={photo}
+                            variants={recipe.photoVariants?.[photo]}
+                            sizes="48px"
+                            alt={`${recipe.name} cooking session`}
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
               {isOwner && (
-                <button
-                  onClick={() => handleRemoveLog(index)}
-                  className="cooking-log-delete"
-                  disabled={removeLogMutation.isPending}
-                  title="Remove this cooking log entry"
-                >
-                  ✕
-                </button>
+                <div className="cooking-log-actions">
+                  <button
+                    onClick={() => setLogToEdit(log)}
+                    className="cooking-log-edit"
+                    title="Edit this cooking log entry"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => handleRemoveLog(log.id)}
+                    className="cooking-log-delete"
+                    disabled={removeLogMutation.isPending}
+                    title="Remove this cooking log entry"
+                  >
+                    ✕
+                  </button>
+                </div>
               )}
             </div>
           ))}
@@ -214,6 +361,17 @@ export function RecipeCard({ recipe, isOwner = false }: RecipeCardProps) {
         />
       )}
 
+      {isOwner && logToEdit && (
+        <CookingLogModal
+          key={logToEdit.id}
+          isOpen
+          onClose={() => setLogToEdit(null)}
+          recipeId={recipe.id}
+          recipeName={recipe.name}
+          entry={logToEdit}
+        />
+      )}
+
       {isOwner && (
         <>
           <ConfirmationDialog
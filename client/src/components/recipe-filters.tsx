@@ -1,20 +1,37 @@
+import { useState, useEffect } from "react";
+import { heroIngredientOptions, type RecipeSort } from "@shared/schema";
+import type { RecipeFilterValues } from "@/hooks/use-recipe-filters";
+
 interface RecipeFiltersProps {
-  searchTerm: string;
-  setSearchTerm: (term: string) => void;
-  filterRating: string;
-  setFilterRating: (rating: string) => void;
-  filterTime: string;
-  setFilterTime: (time: string) => void;
+  filters: RecipeFilterValues;
+  onChange: (changes: Partial<RecipeFilterValues>) => void;
 }
 
-export function RecipeFilters({
-  searchTerm,
-  setSearchTerm,
-  filterRating,
-  setFilterRating,
-  filterTime,
-  setFilterTime,
-}: RecipeFiltersProps) {
+const sortLabels: Record<RecipeSort, string> = {
+  recent: "Recently cooked",
+  newest: "Newest",
+  rating: "Highest rated",
+  quickest: "Quickest",
+  name: "Name (A-Z)",
+};
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function RecipeFilters({ filters, onChange }: RecipeFiltersProps) {
+  const [searchTerm, setSearchTerm] = useState(filters.q);
+
+  // Follow the URL when it changes underneath us (back/forward, shared links)
+  useEffect(() => {
+    setSearchTerm(filters.q);
+  }, [filters.q]);
+
+  useEffect(() => {
+    if (searchTerm.trim() === filters.q) return;
+    const timeout = setTimeout(() => onChange({ q: searchTerm.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, filters.q, onChange]);
+
   return (
     <div className="filter-section">
       <h3>Find Your Perfect Recipe</h3>
@@ -25,18 +42,32 @@ export function RecipeFilters({
             type="text"
             id="search"
             className="recipe-input"
-            placeholder="Search by name or ingredient..."
+            placeholder="Search names, ingredients, steps and notes..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
+        <div className="recipe-form-group flex-none w-[180px] mb-0">
+          <label htmlFor="filter-hero">Hero Ingredient</label>
+          <select
+            id="filter-hero"
+            className="recipe-select"
+            value={filters.heroIngredient}
+            onChange={(e) => onChange({ heroIngredient: e.target.value })}
+          >
+            <option value="">Any Ingredient</option>
+            {heroIngredientOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
         <div className="recipe-form-group flex-none w-[180px] mb-0">
           <label htmlFor="filter-rating">Minimum Rating</label>
           <select
             id="filter-rating"
             className="recipe-select"
-            value={filterRating}
-            onChange={(e) => setFilterRating(e.target.value)}
+            value={filters.minRating}
+            onChange={(e) => onChange({ minRating: e.target.value })}
           >
             <option value="">Any Rating</option>
             <option value="5">5 Stars</option>
@@ -49,8 +80,8 @@ export function RecipeFilters({
           <select
             id="filter-time"
             className="recipe-select"
-            value={filterTime}
-            onChange={(e) => setFilterTime(e.target.value)}
+            value={filters.maxCookTime}
+            onChange={(e) => onChange({ maxCookTime: e.target.value })}
           >
             <option value="">Any Time</option>
             <option value="15">Under 15 min</option>
@@ -58,6 +89,26 @@ export function RecipeFilters({
             <option value="60">Under 1 hour</option>
           </select>
         </div>
+        <div className="recipe-form-group flex-none w-[180px] mb-0">
+          <label htmlFor="sort">Sort By</label>
+          {filters.q ? (
+            // Search results are ordered by relevance
+            <select id="sort" className="recipe-select" value="relevance" disabled>
+              <option value="relevance">Best match</option>
+            </select>
+          ) : (
+            <select
+              id="sort"
+              className="recipe-select"
+              value={filters.sort || "recent"}
+              onChange={(e) => onChange({ sort: e.target.value === "recent" ? "" : e.target.value as RecipeSort })}
+            >
+              {Object.entries(sortLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,37 @@
+import type { ImgHTMLAttributes } from "react";
+import { photoFormats, type PhotoFormat, type PhotoVariant } from "@shared/schema";
+
+interface RecipePhotoProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet"> {
+  src: string;
+  variants?: PhotoVariant[];
+  sizes: string; // How wide the photo is drawn, e.g. "120px"
+}
+
+const mimeTypes: Record<PhotoFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+};
+
+function srcSet(variants: PhotoVariant[], format: PhotoFormat): string {
+  // Small originals give several sizes of the same width; a srcset lists each width once
+  const byWidth = new Map(variants.filter(variant => variant.format === format).map(variant => [variant.width, variant.url]));
+  return [...byWidth].sort(([a], [b]) => a - b).map(([width, url]) => `${url} ${width}w`).join(", ");
+}
+
+// A photo that lets the browser pick the smallest size and best format it supports.
+// Photos without variants (external URLs and older uploads) are shown as they are.
+export function RecipePhoto({ src, variants, sizes, ...imgProps }: RecipePhotoProps) {
+  if (!variants || variants.length === 0) {
+    return <img src={src} {...imgProps} />;
+  }
+
+  return (
+    <picture>
+      {photoFormats.filter(format => format !== "jpeg").map(format => (
+        <source key={format} type={mimeTypes[format]} srcSet={srcSet(variants, format)} sizes={sizes} />
+      ))}
+      <img src={src} srcSet={srcSet(variants, "jpeg")} sizes={sizes} loading="lazy" decoding="async" {...imgProps} />
+    </picture>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PasswordInput } from "@/components/ui/password-input";
+import { Loader2, ShieldCheck } from "lucide-react";
+import type { TwoFactorSetup } from "@shared/schema";
+
+interface TwoFactorLoginFormProps {
+  idPrefix: string; // The auth page renders separate mobile and desktop layouts
+  onSignedIn: (username: string) => void;
+  onCancel: () => void;
+}
+
+// Second sign-in step, shown after the password for accounts with two-factor sign-in
+export function TwoFactorLoginForm({ idPrefix, onSignedIn, onCancel }: TwoFactorLoginFormProps) {
+  const { twoFactorMutation } = useAuth();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!code.trim()) {
+      setError("Enter the code from your authenticator app");
+      return;
+    }
+    twoFactorMutation.mutate(code.trim(), {
+      onSuccess: (user) => onSignedIn(user.username),
+      onError: (error) => {
+        setCode("");
+        setError(apiErrorMessage(error, "That code didn't work. Please try again."));
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor={`${idPrefix}-two-factor-code`}>Code</Label>
+            <Input
+              id={`${idPrefix}-two-factor-code`}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+              placeholder="123456"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" className="w-full" disabled={twoFactorMutation.isPending}>
+            {twoFactorMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify
+          </Button>
+        </form>
+        <Button type="button" variant="link" className="w-full mt-2" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app, and they won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() => navigator.clipboard?.writeText(codes.join("\n"))}
+      >
+        Copy codes
+      </Button>
+      <Button type="button" className="w-full" onClick={onDone}>
+        I've saved my codes
+      </Button>
+    </div>
+  );
+}
+
+// Settings card: enroll with a QR code, then replace recovery codes or turn it off
+export function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const showError = (fallback: string) => (error: Error) => setError(apiErrorMessage(error, fallback));
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return await res.json() as TwoFactorSetup;
+    },
+    onSuccess: (details) => {
+      setError(null);
+      setSetup(details);
+    },
+    onError: showError("Couldn't start setup. Please try again."),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return (await res.json()).recoveryCodes as string[];
+    },
+    onSuccess: (codes) => {
+      setError(null);
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(codes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: showError("That code didn't match. Please try again."),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (password: string) => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { password });
+      return (await res.json()).recoveryCodes as string[];
+    },
+    onSuccess: (codes) => {
+      setError(null);
+      setPassword("");
+      setRecoveryCodes(codes);
+    },
+    onError: showError("Couldn't create new recovery codes."),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (password: string) => {
+      await apiRequest("POST", "/api/2fa/disable", { password });
+    },
+    onSuccess: () => {
+      setError(null);
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor authentication turned off",
+        description: "You'll sign in with just your password.",
+      });
+    },
+    onError: showError("Couldn't turn off two-factor authentication."),
+  });
+
+  if (!user) return null;
+  const enabled = !!user.totpEnabledAt;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {enabled
+            ? "On. Signing in needs your password and a code from your authenticator app."
+            : "Protect your account with a code from an authenticator app as well as your password."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <RecoveryCodeList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : enabled ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="two-factor-password">Current Password</Label>
+              <PasswordInput
+                id="two-factor-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Needed to change two-factor settings"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                disabled={!password || regenerateMutation.isPending}
+                onClick={() => regenerateMutation.mutate(password)}
+              >
+                New Recovery Codes
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                className="flex-1"
+                disabled={!password || disableMutation.isPending}
+                onClick={() => disableMutation.mutate(password)}
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (code.trim()) enableMutation.mutate(code.trim());
+            }}
+          >
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, or enter the key by hand.
+            </p>
+            <img src={setup.qrCode} alt="QR code for your authenticator app" className="mx-auto h-48 w-48" />
+            <p className="text-center font-mono text-sm break-all">{setup.secret}</p>
+            <div>
+              <Label htmlFor="two-factor-enable-code">Code from the app</Label>
+              <Input
+                id="two-factor-enable-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                inputMode="numeric"
+                placeholder="123456"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={enableMutation.isPending}>
+              {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn On
+            </Button>
+            <Button type="button" variant="link" className="w-full" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </form>
+        ) : (
+          <>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button
+              type="button"
+              className="w-full"
+              disabled={setupMutation.isPending}
+              onClick={() => setupMutation.mutate()}
+            >
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set Up Two-Factor Authentication
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
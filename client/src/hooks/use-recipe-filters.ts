@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { useLocation, useSearch } from "wouter";
+import type { RecipeSort } from "@shared/schema";
+
+// Filter values as they appear in the query string; "" means the filter is off
+export interface RecipeFilterValues {
+  q: string;
+  heroIngredient: string;
+  minRating: string;
+  maxCookTime: string;
+  sort: RecipeSort | "";
+}
+
+const filterKeys = ["q", "heroIngredient", "minRating", "maxCookTime", "sort"] as const;
+
+// Filters live in the URL so they survive a reload and can be shared
+export function useRecipeFilters() {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+
+  const filters = Object.fromEntries(
+    filterKeys.map(key => [key, params.get(key) ?? ""]),
+  ) as unknown as RecipeFilterValues;
+
+  const setFilters = useCallback((changes: Partial<RecipeFilterValues>) => {
+    const next = new URLSearchParams(search);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    const query = next.toString();
+    // Replace rather than push so filter tweaks don't pile up in history
+    navigate(query ? `${location}?${query}` : location, { replace: true });
+  }, [search, location, navigate]);
+
+  const hasActiveFilters = !!(filters.q || filters.heroIngredient || filters.minRating || filters.maxCookTime);
+
+  return { filters, setFilters, hasActiveFilters };
+}
@@ -1,9 +1,60 @@
-import { useQuery } from "@tanstack/react-query";
-import type { Recipe } from "@shared/schema";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import type { Recipe, RecipeSearchResult } from "@shared/schema";
+import type { RecipeFilterValues } from "./use-recipe-filters";
 
-export function useRecipes(fetchAll = false) {
-  return useQuery<Recipe[]>({
-    queryKey: fetchAll ? ["/api/recipes"] : ["no-recipes"],
-    enabled: fetchAll,
+interface RecipePage {
+  recipes: Recipe[];
+  nextCursor: string | null;
+}
+
+// Pages through a listing; the server sends the next page's cursor in X-Next-Cursor.
+// Without a username this is the public collection on the home page.
+export function useRecipes(filters: RecipeFilterValues, username?: string, enabled = true) {
+  const endpoint = username ? `/api/users/${encodeURIComponent(username)}/recipes` : "/api/recipes";
+
+  return useInfiniteQuery({
+    // Prefixed like the other recipe queries so mutations can invalidate them together
+    queryKey: username ? ["/api/users", username, "recipes", filters] : ["/api/recipes", filters],
+    queryFn: async ({ pageParam }): Promise<RecipePage> => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      if (pageParam) params.set("cursor", pageParam);
+
+      const response = await fetch(`${endpoint}?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return {
+        recipes: await response.json(),
+        nextCursor: response.headers.get("X-Next-Cursor"),
+      };
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+}
+
+// Ranked full-text search; the listing filters still apply but sort order is by relevance
+export function useRecipeSearch(filters: RecipeFilterValues, username?: string) {
+  const { q, heroIngredient, minRating, maxCookTime } = filters;
+
+  return useQuery<RecipeSearchResult[]>({
+    queryKey: ["/api/recipes", "search", { q, heroIngredient, minRating, maxCookTime, username }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q, limit: "50" });
+      for (const [key, value] of Object.entries({ heroIngredient, minRating, maxCookTime, username })) {
+        if (value) params.set(key, value);
+      }
+
+      const response = await fetch(`/api/search?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!q,
   });
 }
@@ -7,16 +7,64 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "<status>: <json body>"; show the server's message when there is one
+export function apiErrorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// The server sets a csrf_token cookie and expects it back in the X-CSRF-Token header on
+// every request that changes something. It changes on sign-in and sign-out.
+function readCsrfCookie(): string | null {
+  const match = document.cookie.match(/(?:^|;\s*)csrf_token=([^;]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+async function fetchCsrfToken(): Promise<string> {
+  const res = await fetch("/api/csrf-token", { credentials: "include" });
+  await throwIfResNotOk(res);
+  return (await res.json()).csrfToken;
+}
+
+async function isCsrfFailure(res: Response): Promise<boolean> {
+  if (res.status !== 403) return false;
+  const body = await res.clone().json().catch(() => null);
+  return body?.error === "Invalid CSRF token";
+}
+
+// fetch() with the CSRF header on unsafe methods. A token from a session that has since
+// ended is refused, so that case gets a fresh token and one retry.
+export async function csrfFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method ?? "GET").toUpperCase();
+  if (["GET", "HEAD", "OPTIONS"].includes(method)) {
+    return fetch(url, { credentials: "include", ...init });
+  }
+
+  const send = (token: string) => {
+    const headers = new Headers(init.headers);
+    headers.set("X-CSRF-Token", token);
+    return fetch(url, { credentials: "include", ...init, headers });
+  };
+
+  const res = await send(readCsrfCookie() ?? await fetchCsrfToken());
+  if (await isCsrfFailure(res)) {
+    return send(await fetchCsrfToken());
+  }
+  return res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await csrfFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
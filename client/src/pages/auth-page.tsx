@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { insertUserSchema } from "@shared/schema";
 import { Button } from "@/components/ui/button";
@@ -12,9 +12,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
 import { PasswordInput } from "@/components/ui/password-input";
+import { ForgotPasswordForm, ResetPasswordForm } from "@/components/password-reset-forms";
+import { TwoFactorLoginForm } from "@/components/two-factor-forms";
 
 const loginSchema = z.object({
-  username: z.string().min(1, "Username is required"),
+  username: z.string().min(1, "Username or email is required"), // Either identifies the account
   password: z.string().min(1, "Password is required"),
 });
 
@@ -25,6 +27,10 @@ export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
   const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState("login");
+  // Set when the password was right but the account also needs a two-factor code
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
+  // Emailed reset links open /auth?reset=<token>
+  const resetToken = new URLSearchParams(useSearch()).get("reset");
 
   // Define forms with minimal validation for mobile compatibility
   const loginForm = useForm<LoginForm>({
@@ -52,6 +58,21 @@ export default function AuthPage() {
     registerForm.clearErrors();
   };
 
+  const finishReset = () => {
+    setLocation("/auth", { replace: true });
+    handleTabChange("login");
+  };
+
+  const finishTwoFactor = (username: string) => {
+    setTwoFactorPending(false);
+    setLocation(`/${username}`);
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorPending(false);
+    handleTabChange("login");
+  };
+
   // Redirect if already logged in
   if (user) {
     setLocation(`/${user.username}`);
@@ -68,7 +89,7 @@ export default function AuthPage() {
     loginForm.clearErrors();
 
     if (!username) {
-      loginForm.setError("username", { message: "Username is required" });
+      loginForm.setError("username", { message: "Username or email is required" });
       return;
     }
     if (!password) {
@@ -77,9 +98,13 @@ export default function AuthPage() {
     }
 
     loginMutation.mutate({ username, password }, {
-      onSuccess: (user) => {
+      onSuccess: (result) => {
         loginForm.reset();
-        setLocation(`/${user.username}`);
+        if ("twoFactorRequired" in result) {
+          setTwoFactorPending(true);
+          return;
+        }
+        setLocation(`/${result.username}`);
       },
     });
   };
@@ -132,148 +157,166 @@ export default function AuthPage() {
               <p className="text-gray-600 text-sm">Create and share your culinary adventures</p>
             </div>
 
-            <Tabs value={activeTab} onValueChange={handleTabChange}>
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="login">Login</TabsTrigger>
-                <TabsTrigger value="register">Register</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="login">
-                <Card>
-                  <CardHeader className="text-center pb-4">
-                    <CardTitle className="text-lg">Welcome back</CardTitle>
-                    <CardDescription className="text-sm">
-                      Sign in to your recipe collection
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={onLogin} className="space-y-4">
-                      <div>
-                        <Label htmlFor="login-username" className="text-sm">Username</Label>
-                        <Input
-                          id="login-username"
-                          name="username"
-                          placeholder="Enter your username"
-                          className="mt-1"
-                        />
-                        {loginForm.formState.errors.username && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {loginForm.formState.errors.username.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="login-password" className="text-sm">Password</Label>
-                        <PasswordInput
-                          id="login-password"
-                          name="password"
-                          placeholder="Enter your password"
-                          className="mt-1"
-                        />
-                        {loginForm.formState.errors.password && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {loginForm.formState.errors.password.message}
-                          </p>
-                        )}
-                      </div>
-                      <Button 
-                        type="submit" 
-                        className="w-full"
-                        disabled={loginMutation.isPending}
-                      >
-                        {loginMutation.isPending && (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        )}
-                        Sign In
-                      </Button>
-                    </form>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-
-              <TabsContent value="register">
-                <Card>
-                  <CardHeader className="text-center pb-4">
-                    <CardTitle className="text-lg">Create Account</CardTitle>
-                    <CardDescription className="text-sm">
-                      Join our recipe community
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={onRegister} className="space-y-4">
-                      <div>
-                        <Label htmlFor="register-username" className="text-sm">Username</Label>
-                        <Input
-                          id="register-username"
-                          name="username"
-                          placeholder="Choose a username"
-                          className="mt-1"
-                        />
-                        {registerForm.formState.errors.username && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {registerForm.formState.errors.username.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="register-displayName" className="text-sm">Display Name</Label>
-                        <Input
-                          id="register-displayName"
-                          name="displayName"
-                          placeholder="Your full name"
-                          className="mt-1"
-                        />
-                        {registerForm.formState.errors.displayName && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {registerForm.formState.errors.displayName.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="register-email" className="text-sm">Email</Label>
-                        <Input
-                          id="register-email"
-                          name="email"
-                          type="email"
-                          placeholder="your@email.com"
-                          className="mt-1"
-                        />
-                        {registerForm.formState.errors.email && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {registerForm.formState.errors.email.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="register-password" className="text-sm">Password</Label>
-                        <PasswordInput
-                          id="register-password"
-                          name="password"
-                          placeholder="Create a strong password"
-                          className="mt-1"
-                        />
-                        {registerForm.formState.errors.password && (
-                          <p className="text-xs text-red-600 mt-1">
-                            {registerForm.formState.errors.password.message}
-                          </p>
-                        )}
-                      </div>
-
-                      <Button 
-                        type="submit" 
-                        className="w-full"
-                        disabled={registerMutation.isPending}
-                      >
-                        {registerMutation.isPending && (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        )}
-                        Create Account
-                      </Button>
-                    </form>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-            </Tabs>
+            {resetToken ? (
+              <ResetPasswordForm idPrefix="mobile" token={resetToken} onDone={finishReset} />
+            ) : twoFactorPending ? (
+              <TwoFactorLoginForm idPrefix="mobile" onSignedIn={finishTwoFactor} onCancel={cancelTwoFactor} />
+            ) : (
+              <Tabs value={activeTab} onValueChange={handleTabChange}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="login">Login</TabsTrigger>
+                  <TabsTrigger value="register">Register</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="login">
+                  <Card>
+                    <CardHeader className="text-center pb-4">
+                      <CardTitle className="text-lg">Welcome back</CardTitle>
+                      <CardDescription className="text-sm">
+                        Sign in to your recipe collection
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={onLogin} className="space-y-4">
+                        <div>
+                          <Label htmlFor="login-username" className="text-sm">Username or Email</Label>
+                          <Input
+                            id="login-username"
+                            name="username"
+                            placeholder="Enter your username or email"
+                            className="mt-1"
+                          />
+                          {loginForm.formState.errors.username && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {loginForm.formState.errors.username.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="login-password" className="text-sm">Password</Label>
+                          <PasswordInput
+                            id="login-password"
+                            name="password"
+                            placeholder="Enter your password"
+                            className="mt-1"
+                          />
+                          {loginForm.formState.errors.password && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {loginForm.formState.errors.password.message}
+                            </p>
+                          )}
+                        </div>
+                        <Button 
+                          type="submit" 
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Sign In
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="w-full"
+                          onClick={() => handleTabChange("forgot")}
+                        >
+                          Forgot your password?
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="register">
+                  <Card>
+                    <CardHeader className="text-center pb-4">
+                      <CardTitle className="text-lg">Create Account</CardTitle>
+                      <CardDescription className="text-sm">
+                        Join our recipe community
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={onRegister} className="space-y-4">
+                        <div>
+                          <Label htmlFor="register-username" className="text-sm">Username</Label>
+                          <Input
+                            id="register-username"
+                            name="username"
+                            placeholder="Choose a username"
+                            className="mt-1"
+                          />
+                          {registerForm.formState.errors.username && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {registerForm.formState.errors.username.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="register-displayName" className="text-sm">Display Name</Label>
+                          <Input
+                            id="register-displayName"
+                            name="displayName"
+                            placeholder="Your full name"
+                            className="mt-1"
+                          />
+                          {registerForm.formState.errors.displayName && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {registerForm.formState.errors.displayName.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="register-email" className="text-sm">Email</Label>
+                          <Input
+                            id="register-email"
+                            name="email"
+                            type="email"
+                            placeholder="your@email.com"
+                            className="mt-1"
+                          />
+                          {registerForm.formState.errors.email && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {registerForm.formState.errors.email.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="register-password" className="text-sm">Password</Label>
+                          <PasswordInput
+                            id="register-password"
+                            name="password"
+                            placeholder="Create a strong password"
+                            className="mt-1"
+                          />
+                          {registerForm.formState.errors.password && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {registerForm.formState.errors.password.message}
+                            </p>
+                          )}
+                        </div>
+
+                        <Button 
+                          type="submit" 
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                        >
+                          {registerMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Create Account
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="forgot">
+                  <ForgotPasswordForm idPrefix="mobile" onBack={() => handleTabChange("login")} />
+                </TabsContent>
+              </Tabs>
+            )}
           </div>
         </div>
 
@@ -319,142 +362,160 @@ export default function AuthPage() {
               <p className="text-gray-600">Create and share your culinary adventures</p>
             </div>
 
-            <Tabs value={activeTab} onValueChange={handleTabChange}>
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="login">Login</TabsTrigger>
-                <TabsTrigger value="register">Register</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="login">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Welcome back</CardTitle>
-                    <CardDescription>
-                      Sign in to your recipe collection
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={onLogin} className="space-y-4">
-                      <div>
-                        <Label htmlFor="desktop-login-username">Username</Label>
-                        <Input
-                          id="desktop-login-username"
-                          name="username"
-                          placeholder="Enter your username"
-                        />
-                        {loginForm.formState.errors.username && (
-                          <p className="text-sm text-red-600 mt-1">
-                            {loginForm.formState.errors.username.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="desktop-login-password">Password</Label>
-                        <PasswordInput
-                          id="desktop-login-password"
-                          name="password"
-                          placeholder="Enter your password"
-                        />
-                        {loginForm.formState.errors.password && (
-                          <p className="text-sm text-red-600 mt-1">
-                            {loginForm.formState.errors.password.message}
-                          </p>
-                        )}
-                      </div>
-                      <Button 
-                        type="submit" 
-                        className="w-full"
-                        disabled={loginMutation.isPending}
-                      >
-                        {loginMutation.isPending && (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        )}
-                        Sign In
-                      </Button>
-                    </form>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-
-              <TabsContent value="register">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Create Account</CardTitle>
-                    <CardDescription>
-                      Join our recipe community
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={onRegister} className="space-y-4">
-                      <div>
-                        <Label htmlFor="desktop-register-username">Username</Label>
-                        <Input
-                          id="desktop-register-username"
-                          name="username"
-                          placeholder="Choose a username"
-                        />
-                        {registerForm.formState.errors.username && (
-                          <p className="text-sm text-red-600 mt-1">
-                            {registerForm.formState.errors.username.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="desktop-register-displayName">Display Name</Label>
-                        <Input
-                          id="desktop-register-displayName"
-                          name="displayName"
-                          placeholder="Your full name"
-                        />
-                        {registerForm.formState.errors.displayName && (
-                          <p className="text-sm text-red-600 mt-1">
-                            {registerForm.formState.errors.displayName.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="desktop-register-email">Email</Label>
-                        <Input
-                          id="desktop-register-email"
-                          name="email"
-                          type="email"
-                          placeholder="your@email.com"
-                        />
-                        {registerForm.formState.errors.email && (
-                          <p className="text-sm text-red-600 mt-1">
-                            {registerForm.formState.errors.email.message}
-                          </p>
-                        )}
-                      </div>
-                      <div>
-                        <Label htmlFor="desktop-register-password">Password</Label>
-                        <PasswordInput
-                          id="desktop-register-password"
-                          name="password"
-                          placeholder="Create a strong password"
-                        />
-                        {registerForm.formState.errors.password && (
-                          <p className="text-sm text-red-600 mt-1">
-                            {registerForm.formState.errors.password.message}
-                          </p>
-                        )}
-                      </div>
-
-                      <Button 
-                        type="submit" 
-                        className="w-full"
-                        disabled={registerMutation.isPending}
-                      >
-                        {registerMutation.isPending && (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        )}
-                        Create Account
-                      </Button>
-                    </form>
-                  </CardContent>
-                </Card>
-              </TabsContent>
-            </Tabs>
+            {resetToken ? (
+              <ResetPasswordForm idPrefix="desktop" token={resetToken} onDone={finishReset} />
+            ) : twoFactorPending ? (
+              <TwoFactorLoginForm idPrefix="desktop" onSignedIn={finishTwoFactor} onCancel={cancelTwoFactor} />
+            ) : (
+              <Tabs value={activeTab} onValueChange={handleTabChange}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="login">Login</TabsTrigger>
+                  <TabsTrigger value="register">Register</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="login">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Welcome back</CardTitle>
+                      <CardDescription>
+                        Sign in to your recipe collection
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={onLogin} className="space-y-4">
+                        <div>
+                          <Label htmlFor="desktop-login-username">Username or Email</Label>
+                          <Input
+                            id="desktop-login-username"
+                            name="username"
+                            placeholder="Enter your username or email"
+                          />
+                          {loginForm.formState.errors.username && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {loginForm.formState.errors.username.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="desktop-login-password">Password</Label>
+                          <PasswordInput
+                            id="desktop-login-password"
+                            name="password"
+                            placeholder="Enter your password"
+                          />
+                          {loginForm.formState.errors.password && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {loginForm.formState.errors.password.message}
+                            </p>
+                          )}
+                        </div>
+                        <Button 
+                          type="submit" 
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Sign In
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="w-full"
+                          onClick={() => handleTabChange("forgot")}
+                        >
+                          Forgot your password?
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="register">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Create Account</CardTitle>
+                      <CardDescription>
+                        Join our recipe community
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={onRegister} className="space-y-4">
+                        <div>
+                          <Label htmlFor="desktop-register-username">Username</Label>
+                          <Input
+                            id="desktop-register-username"
+                            name="username"
+                            placeholder="Choose a username"
+                          />
+                          {registerForm.formState.errors.username && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {registerForm.formState.errors.username.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="desktop-register-displayName">Display Name</Label>
+                          <Input
+                            id="desktop-register-displayName"
+                            name="displayName"
+                            placeholder="Your full name"
+                          />
+                          {registerForm.formState.errors.displayName && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {registerForm.formState.errors.displayName.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="desktop-register-email">Email</Label>
+                          <Input
+                            id="desktop-register-email"
+                            name="email"
+                            type="email"
+                            placeholder="your@email.com"
+                          />
+                          {registerForm.formState.errors.email && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {registerForm.formState.errors.email.message}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="desktop-register-password">Password</Label>
+                          <PasswordInput
+                            id="desktop-register-password"
+                            name="password"
+                            placeholder="Create a strong password"
+                          />
+                          {registerForm.formState.errors.password && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {registerForm.formState.errors.password.message}
+                            </p>
+                          )}
+                        </div>
+
+                        <Button 
+                          type="submit" 
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                        >
+                          {registerMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Create Account
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="forgot">
+                  <ForgotPasswordForm idPrefix="desktop" onBack={() => handleTabChange("login")} />
+                </TabsContent>
+              </Tabs>
+            )}
           </div>
         </div>
 
@@ -2,24 +2,22 @@ import { useState, useEffect } from "react";
 import { RecipeCard } from "@/components/recipe-card";
 import { AddRecipeForm } from "@/components/add-recipe-form";
 import { RecipeFilters } from "@/components/recipe-filters";
-import { useRecipes } from "@/hooks/use-recipes";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
+import { useRecipes, useRecipeSearch } from "@/hooks/use-recipes";
+import { useRecipeFilters } from "@/hooks/use-recipe-filters";
 import { useAuth } from "@/hooks/use-auth";
-import { Recipe } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 
 interface HomeProps {
-  recipes?: Recipe[];
   isOwner?: boolean;
-  username?: string;
+  username?: string; // Show this user's collection; otherwise the public recipes
   profileUser?: any;
 }
 
-export default function Home({ recipes: propRecipes, isOwner = false, username, profileUser }: HomeProps) {
+export default function Home({ isOwner = false, username, profileUser }: HomeProps) {
   const [activeSection, setActiveSection] = useState<"my-recipes" | "add-recipe">("my-recipes");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterRating, setFilterRating] = useState("");
-  const [filterTime, setFilterTime] = useState("");
+  const { filters, setFilters, hasActiveFilters } = useRecipeFilters();
   const { user, logoutMutation } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -34,56 +32,17 @@ export default function Home({ recipes: propRecipes, isOwner = false, username,
     }
   }, [username, profileUser]);
 
-  // Use prop recipes if provided (for user pages), otherwise fetch all recipes (for home page)
-  const { data: fetchedRecipes = [], isLoading } = useRecipes(propRecipes ? undefined : true);
-  const recipes = propRecipes || fetchedRecipes;
-
-  // Sort recipes based on cooking logs and creation date
-  const sortedRecipes = [...recipes].sort((a, b) => {
-    // Helper function to get the most recent cooking log timestamp
-    const getMostRecentLogTimestamp = (recipe: any): number | null => {
-      if (!recipe.cookingLog || recipe.cookingLog.length === 0) return null;
-      return Math.max(...recipe.cookingLog.map((log: any) => {
-        // Handle both old 'date' format and new 'timestamp' format for backward compatibility
-        const dateValue = log.timestamp || log.date;
-        return new Date(dateValue).getTime();
-      }));
-    };
-
-    const aRecentLog = getMostRecentLogTimestamp(a);
-    const bRecentLog = getMostRecentLogTimestamp(b);
-    const aCreatedAt = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-    const bCreatedAt = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-    
-    // Check if recipes have cooking logs
-    const aHasLogs = a.cookingLog && a.cookingLog.length > 0;
-    const bHasLogs = b.cookingLog && b.cookingLog.length > 0;
-
-    // If both have cooking logs, sort by most recent log
-    if (aHasLogs && bHasLogs && aRecentLog !== null && bRecentLog !== null) {
-      return bRecentLog - aRecentLog;
-    }
-    
-    // Prioritize recipes with cooking logs over those without
-    if (aHasLogs && !bHasLogs) return -1;
-    if (!aHasLogs && bHasLogs) return 1;
-    
-    // If neither has cooking logs, sort by creation date (newest first)
-    // This ensures new recipes appear at the top
-    return bCreatedAt - aCreatedAt;
-  });
-
-  const filteredRecipes = sortedRecipes.filter(recipe => {
-    const matchesSearch = !searchTerm || 
-      recipe.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      recipe.heroIngredient.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      recipe.ingredients.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesRating = !filterRating || (recipe.rating || 0) >= parseInt(filterRating);
-    const matchesTime = !filterTime || recipe.cookTime <= parseInt(filterTime);
-
-    return matchesSearch && matchesRating && matchesTime;
-  });
+  // Filtering and sorting happen server-side, a page at a time; a search term
+  // switches to ranked full-text search instead
+  const isSearching = !!filters.q;
+  const listing = useRecipes(filters, username, !isSearching);
+  const search = useRecipeSearch(filters, username);
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = listing;
+  const isLoading = isSearching ? search.isLoading : listing.isLoading;
+  const recipes = isSearching
+    ? (search.data ?? []).map(result => result.recipe)
+    : listing.data?.pages.flatMap(page => page.recipes) ?? [];
+  const snippets = new Map((search.data ?? []).map(result => [result.recipe.id, result.snippet]));
 
   const handleLogout = () => {
     logoutMutation.mutate(undefined, {
@@ -171,6 +130,8 @@ export default function Home({ recipes: propRecipes, isOwner = false, username,
         </div>
       </div>
 
+      <EmailVerificationBanner />
+
       <div className="recipe-container">
         {isOwner && (
           <div className="recipe-nav">
@@ -193,36 +154,46 @@ export default function Home({ recipes: propRecipes, isOwner = false, username,
           <div className="recipe-section">
             <h2>{username && profileUser?.displayName ? `${profileUser.displayName}'s Recipe Collection` : username ? `${username}'s Recipe Collection` : "Recipe Collection"}</h2>
             
-            <RecipeFilters
-              searchTerm={searchTerm}
-              setSearchTerm={setSearchTerm}
-              filterRating={filterRating}
-              setFilterRating={setFilterRating}
-              filterTime={filterTime}
-              setFilterTime={setFilterTime}
-            />
+            <RecipeFilters filters={filters} onChange={setFilters} />
 
             {isLoading ? (
               <div className="text-center py-8">
                 <p>Loading recipes...</p>
               </div>
-            ) : filteredRecipes.length === 0 ? (
+            ) : recipes.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-lg text-gray-600 mb-4">
-                  {recipes.length === 0 
-                    ? "No recipes found. Add your first recipe to get started!"
-                    : "No recipes match your current filters."
+                  {hasActiveFilters
+                    ? "No recipes match your current filters."
+                    : "No recipes found. Add your first recipe to get started!"
                   }
                 </p>
-                {recipes.length > 0 && (
+                {hasActiveFilters && (
                   <p className="text-gray-500">Try adjusting your filters or search terms.</p>
                 )}
               </div>
             ) : (
               <div>
-                {filteredRecipes.map(recipe => (
-                  <RecipeCard key={recipe.id} recipe={recipe} isOwner={isOwner} />
+                {recipes.map(recipe => (
+                  <RecipeCard
+                    key={recipe.id}
+                    recipe={recipe}
+                    isOwner={isOwner}
+                    username={username}
+                    searchSnippet={isSearching ? snippets.get(recipe.id) : undefined}
+                  />
                 ))}
+                {!isSearching && hasNextPage && (
+                  <div className="text-center mt-6">
+                    <Button
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                      variant="outline"
+                    >
+                      {isFetchingNextPage ? "Loading..." : "Load more recipes"}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,126 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { ArrowLeft, Link as LinkIcon } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { RecipeCard } from "@/components/recipe-card";
+import NotFound from "./not-found";
+import { Recipe } from "@shared/schema";
+
+export default function RecipePage() {
+  const { username, id } = useParams<{ username: string; id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: profileUser, isLoading: userLoading, error: userError } = useQuery({
+    queryKey: ["/api/users", username],
+    queryFn: async () => {
+      const response = await fetch(`/api/users/${username}`);
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error("User not found");
+        }
+        throw new Error("Failed to fetch user");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: recipe, isLoading: recipeLoading, error: recipeError } = useQuery<Recipe>({
+    queryKey: ["/api/recipes", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/recipes/${id}`);
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error("Recipe not found");
+        }
+        throw new Error("Failed to fetch recipe");
+      }
+      return response.json();
+    },
+  });
+
+  const isOwner = user?.username === username;
+
+  useEffect(() => {
+    if (recipe) {
+      document.title = `My Recipe Kitchen - ${recipe.name}`;
+    }
+  }, [recipe]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: "Share it with anyone to show them this recipe.",
+      });
+    } catch {
+      toast({
+        title: "Copy failed",
+        description: "Copy the address from your browser instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (userLoading || recipeLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-recipe-green mx-auto mb-4"></div>
+          <p className="text-recipe-brown">Loading recipe...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // A recipe is only reachable under its owner's username
+  if (userError || recipeError || !recipe || !profileUser || recipe.userId !== profileUser.id) {
+    return <NotFound />;
+  }
+
+  const ownerName = profileUser.displayName || username;
+
+  return (
+    <div className="min-h-screen">
+      <div className="recipe-header">
+        <div className="recipe-container">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLocation(`/${username}`)}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {isOwner ? "Back to My Recipes" : `More from ${ownerName}`}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleCopyLink}>
+              <LinkIcon className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+          </div>
+          <h1>🌿 My Recipe Kitchen</h1>
+          <p>
+            From {ownerName}'s collection
+            {recipe.createdAt && ` · Added ${new Date(recipe.createdAt).toLocaleDateString()}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="recipe-container">
+        <div className="recipe-section">
+          <RecipeCard
+            recipe={recipe}
+            isOwner={isOwner}
+            expanded
+            onDeleted={() => setLocation(`/${username}`)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
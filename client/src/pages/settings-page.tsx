@@ -13,12 +13,24 @@ import { PasswordInput } from "@/components/ui/password-input";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { measurementSystemOptions } from "@shared/schema";
+import { TwoFactorSettings } from "@/components/two-factor-forms";
+import { ActiveSessions } from "@/components/active-sessions";
+import { ApiTokens } from "@/components/api-tokens";
+import { AccountData } from "@/components/account-data";
 
 const updateProfileSchema = z.object({
   username: z.string().min(3).max(50).regex(/^[a-zA-Z0-9_-]+$/, "Username can only contain letters, numbers, underscores, and hyphens"),
   displayName: z.string().min(1, "Display name is required"),
+  measurementSystem: z.enum(measurementSystemOptions),
 });
 
+const measurementSystemLabels: Record<typeof measurementSystemOptions[number], string> = {
+  original: "As written in the recipe",
+  metric: "Metric (g, ml, °C)",
+  imperial: "US customary (cups, oz, °F)",
+};
+
 const updatePasswordSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
   newPassword: z.string().min(8, "Password must be at least 8 characters"),
@@ -48,6 +60,7 @@ export default function SettingsPage() {
     defaultValues: {
       username: user.username,
       displayName: user.displayName || "",
+      measurementSystem: (user.measurementSystem as UpdateProfileForm["measurementSystem"]) || "original",
     },
   });
 
@@ -87,16 +100,25 @@ export default function SettingsPage() {
   const onUpdatePassword = async (data: UpdatePasswordForm) => {
     setIsUpdatingPassword(true);
     try {
-      await apiRequest("PATCH", "/api/user/password", {
+      const response = await apiRequest("PATCH", "/api/user/password", {
         currentPassword: data.currentPassword,
         newPassword: data.newPassword,
       });
+      const { signedOutSessions, revokedApiTokens } = await response.json();
       
       passwordForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
       
+      const signedOut = [
+        signedOutSessions > 0 && `${signedOutSessions} other ${signedOutSessions === 1 ? "session was" : "sessions were"} signed out`,
+        revokedApiTokens > 0 && `${revokedApiTokens} API ${revokedApiTokens === 1 ? "token was" : "tokens were"} revoked`,
+      ].filter(Boolean);
       toast({
         title: "Password updated",
-        description: "Your password has been updated successfully.",
+        description: signedOut.length > 0
+          ? `Your password has been updated; ${signedOut.join(" and ")}.`
+          : "Your password has been updated successfully.",
       });
     } catch (error) {
       toast({
@@ -131,9 +153,11 @@ export default function SettingsPage() {
       <div className="recipe-container">
         <div className="max-w-2xl mx-auto">
           <Tabs defaultValue="profile" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="profile">Profile</TabsTrigger>
               <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="security">Security</TabsTrigger>
+              <TabsTrigger value="data">Your Data</TabsTrigger>
             </TabsList>
 
             <TabsContent value="profile">
@@ -174,7 +198,21 @@ export default function SettingsPage() {
                       )}
                     </div>
 
-
+                    <div>
+                      <Label htmlFor="measurementSystem">Measurement Units</Label>
+                      <select
+                        id="measurementSystem"
+                        {...profileForm.register("measurementSystem")}
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 md:text-sm"
+                      >
+                        {measurementSystemOptions.map(option => (
+                          <option key={option} value={option}>{measurementSystemLabels[option]}</option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-500 mt-1">
+                        Ingredients and oven temperatures are shown in this system
+                      </p>
+                    </div>
 
                     <Button 
                       type="submit" 
@@ -257,6 +295,16 @@ export default function SettingsPage() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="security">
+              <TwoFactorSettings />
+              <ActiveSessions />
+              <ApiTokens />
+            </TabsContent>
+
+            <TabsContent value="data">
+              <AccountData />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -4,14 +4,13 @@ import { useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import Home from "./home";
 import NotFound from "./not-found";
-import { Recipe } from "@shared/schema";
 
 export default function UserPage() {
   const { username } = useParams<{ username: string }>();
   const { user } = useAuth();
   const [, setLocation] = useLocation();
 
-  // Fetch user's data and recipes
+  // Fetch the profile; Home loads the recipes so it can page and filter them
   const { data: userData, isLoading: userLoading, error: userError } = useQuery({
     queryKey: ["/api/users", username],
     queryFn: async () => {
@@ -26,20 +25,6 @@ export default function UserPage() {
     },
   });
 
-  const { data: recipes, isLoading: recipesLoading, error: recipesError } = useQuery<Recipe[]>({
-    queryKey: ["/api/users", username, "recipes"],
-    queryFn: async () => {
-      const response = await fetch(`/api/users/${username}/recipes`);
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error("User not found");
-        }
-        throw new Error("Failed to fetch recipes");
-      }
-      return response.json();
-    },
-  });
-
   // Check if current user owns this page
   const isOwner = user?.username === username;
 
@@ -51,7 +36,7 @@ export default function UserPage() {
     }
   }, [userData, username]);
 
-  if (userLoading || recipesLoading) {
+  if (userLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -62,14 +47,13 @@ export default function UserPage() {
     );
   }
 
-  if (userError || recipesError || !recipes || !userData) {
+  if (userError || !userData) {
     return <NotFound />;
   }
 
-  // Pass the recipes, user data, and ownership status to Home
+  // Pass the user data and ownership status to Home
   return (
     <Home 
-      recipes={recipes} 
       isOwner={isOwner}
       username={username}
       profileUser={userData}
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+// Emailed verification links open /auth/verify-email?token=<token>
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const [, setLocation] = useLocation();
+  const submitted = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (token: string) => {
+      await apiRequest("POST", "/api/verify-email", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Tokens work once, so only submit on the first render
+  useEffect(() => {
+    if (token && !submitted.current) {
+      submitted.current = true;
+      verifyMutation.mutate(token);
+    }
+  }, [token, verifyMutation]);
+
+  useEffect(() => {
+    document.title = "My Recipe Kitchen - Verify Email";
+  }, []);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>
+            {verifyMutation.isSuccess ? "Email verified" : failed ? "Couldn't verify your email" : "Verifying your email"}
+          </CardTitle>
+          <CardDescription>
+            {verifyMutation.isSuccess
+              ? "Thanks for confirming your address."
+              : failed
+                ? verifyMutation.error
+                  ? apiErrorMessage(verifyMutation.error, "Please try again.")
+                  : "This verification link is incomplete."
+                : "Just a moment..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {verifyMutation.isPending ? (
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          ) : (
+            <>
+              {failed && (
+                <p className="text-sm text-gray-600 mb-4">
+                  Sign in and use "Resend email" on the verification banner to get a new link.
+                </p>
+              )}
+              <Button className="w-full" onClick={() => setLocation("/")}>
+                Go to My Recipe Kitchen
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// Remove photos that nothing refers to any more (see server/photo-cleanup.ts).
+//   npm run photos:cleanup                  report what would be removed, changing nothing
+//   npm run photos:cleanup -- --quarantine  move them under quarantine/ instead
+//   npm run photos:cleanup -- --delete      delete them, and their photo records
+// --grace-hours=N keeps files younger than N hours (default PHOTO_CLEANUP_GRACE_HOURS, or 24).
+// --include-undated also removes files whose age can't be told (Replit Object Storage doesn't
+// record when an object was written); only use it while nobody is uploading.
+
+import { parseArgs } from "util";
+import { pool } from "../server/db";
+import { cleanUpPhotos, formatPhotoCleanupReport } from "../server/photo-cleanup";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      quarantine: { type: "boolean", default: false },
+      delete: { type: "boolean", default: false },
+      "grace-hours": { type: "string" },
+      "include-undated": { type: "boolean", default: false },
+    },
+  });
+  if (values.quarantine && values.delete) {
+    throw new Error("Pass either --quarantine or --delete, not both");
+  }
+  const gracePeriodHours = values["grace-hours"] === undefined ? undefined : Number(values["grace-hours"]);
+  if (gracePeriodHours !== undefined && !(gracePeriodHours >= 0)) {
+    throw new Error(`--grace-hours must be a number of hours, not "${values["grace-hours"]}"`);
+  }
+
+  const report = await cleanUpPhotos({
+    action: values.delete ? "delete" : values.quarantine ? "quarantine" : "report",
+    gracePeriodHours,
+    includeUndated: values["include-undated"],
+  });
+  console.log(formatPhotoCleanupReport(report));
+  if (report.action === "report") {
+    console.log("Dry run: nothing was changed. Pass --quarantine or --delete to remove these files.");
+  }
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Photo cleanup failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,161 @@
+// Data migrations that can't be expressed by `drizzle-kit push`.
+// Run after pushing the schema: `npm run db:migrate-data`
+// If `db:push` fails because existing rows break a new unique index, run the steps that work on
+// the old schema first: `npm run db:migrate-data -- --before-push`
+// Every step is idempotent and covers all environments, so it is safe to re-run.
+
+import { parseArgs } from "util";
+import { db, pool } from "../server/db";
+import { recipes, users } from "@shared/schema";
+import { parseIngredients } from "@shared/ingredients";
+import { withCookingLogIds, moveLegacyCookingLog } from "../server/legacy-cooking-log";
+import { eq, inArray, isNull, sql } from "drizzle-orm";
+
+// The first of name_2, name_3, ... that no account uses in any case
+async function unusedUsername(username: string): Promise<string> {
+  for (let n = 2; ; n++) {
+    const candidate = `${username.slice(0, 50 - `_${n}`.length)}_${n}`;
+    const [taken] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(sql`lower(${users.username})`, candidate.toLowerCase()));
+    if (!taken) return candidate;
+  }
+}
+
+// Ids of the accounts in each group whose values of the field differ only by case, oldest first
+async function caseClashes(field: "username" | "email"): Promise<string[][]> {
+  const { rows } = await db.execute(sql`
+    select array_agg(id order by created_at, id) as ids
+      from users group by lower(${users[field]}) having count(*) > 1
+  `);
+  return (rows as Array<{ ids: string[] }>).map(row => row.ids);
+}
+
+interface DataMigration {
+  name: string;
+  beforePush?: boolean; // Needs only the old schema, and may be needed for `db:push` to succeed
+  run: () => Promise<number>; // Returns the number of rows changed
+}
+
+const migrations: DataMigration[] = [
+  {
+    // Usernames are unique regardless of case (users_username_lower_idx). Where older accounts
+    // clash, the oldest keeps its name and the others get the first free variant (name_2),
+    // listed here so their owners can be told.
+    name: "Rename usernames that differ only by case",
+    beforePush: true,
+    run: async () => {
+      let renamed = 0;
+      for (const ids of await caseClashes("username")) {
+        for (const id of ids.slice(1)) {
+          const [user] = await db.select().from(users).where(eq(users.id, id));
+          const username = await unusedUsername(user.username);
+          await db.update(users).set({ username }).where(eq(users.id, id));
+          console.warn(`  ! username "${user.username}" of user ${id} is now "${username}"`);
+          renamed++;
+        }
+      }
+      return renamed;
+    },
+  },
+  {
+    // Emails are unique regardless of case too (users_email_lower_idx), but an address is how
+    // an account's password is reset, so clashing ones are listed for someone to sort out with
+    // their owners rather than changed here
+    name: "Check for emails that differ only by case",
+    beforePush: true,
+    run: async () => {
+      const clashes = await caseClashes("email");
+      for (const ids of clashes) {
+        const accounts: Array<{ id: string; username: string; email: string }> = await db
+          .select({ id: users.id, username: users.username, email: users.email })
+          .from(users)
+          .where(inArray(users.id, ids));
+        console.warn(`  ! ${accounts.map(user => `${user.username} <${user.email}> (${user.id})`).join(", ")}`);
+      }
+      if (clashes.length > 0) {
+        throw new Error(`${clashes.length} email ${clashes.length === 1 ? "address is" : "addresses are"} used by more than one account, differing only by case. Give all but one of each account a new address (and clear its email_verified_at), then run this again.`);
+      }
+      return 0;
+    },
+  },
+  {
+    // Registration now stores emails in lowercase. Runs after the check above, so no two
+    // addresses differ only by case.
+    name: "Lowercase email addresses",
+    beforePush: true,
+    run: async () => {
+      const rows = await db
+        .update(users)
+        .set({ email: sql`lower(${users.email})` })
+        .where(sql`${users.email} <> lower(${users.email})`)
+        .returning({ id: users.id });
+      return rows.length;
+    },
+  },
+  {
+    name: "Parse free-text ingredients into ingredient_list",
+    run: async () => {
+      const rows = await db
+        .select({ id: recipes.id, ingredients: recipes.ingredients })
+        .from(recipes)
+        .where(isNull(recipes.ingredientList));
+
+      for (const row of rows) {
+        await db
+          .update(recipes)
+          .set({ ingredientList: parseIngredients(row.ingredients) })
+          .where(eq(recipes.id, row.id));
+      }
+      return rows.length;
+    },
+  },
+  {
+    name: "Assign ids to cooking log entries",
+    run: async () => {
+      const rows = await db
+        .select({ id: recipes.id, cookingLog: recipes.cookingLog })
+        .from(recipes)
+        .where(sql`exists (select 1 from jsonb_array_elements(${recipes.cookingLog}) entry where not entry ? 'id')`);
+
+      for (const row of rows) {
+        await db
+          .update(recipes)
+          .set({ cookingLog: withCookingLogIds(row.cookingLog ?? []) })
+          .where(eq(recipes.id, row.id));
+      }
+      return rows.length;
+    },
+  },
+  {
+    // Runs after the id backfill above so session ids match the ids clients already hold
+    name: "Move cooking log entries into cooking_sessions",
+    run: async () => {
+      const rows = await db
+        .select({ id: recipes.id })
+        .from(recipes)
+        .where(sql`jsonb_array_length(coalesce(${recipes.cookingLog}, '[]'::jsonb)) > 0`);
+
+      for (const row of rows) {
+        await db.transaction((tx: typeof db) => moveLegacyCookingLog(tx, row.id));
+      }
+      return rows.length;
+    },
+  },
+];
+
+async function main() {
+  const { values } = parseArgs({ options: { "before-push": { type: "boolean", default: false } } });
+  for (const migration of migrations.filter(migration => !values["before-push"] || migration.beforePush)) {
+    const changed = await migration.run();
+    console.log(`✓ ${migration.name} (${changed} rows)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Data migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
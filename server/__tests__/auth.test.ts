@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import request from 'supertest';
 import express from 'express';
-import { setupAuth, hashPassword, comparePasswords } from '../auth';
+import { setupAuth, hashPassword, comparePasswords, hashToken, createCsrfToken } from '../auth';
+import { sentMail, lastMailTo, linkParam } from './mail-helpers';
+import { withCsrf, csrfAgent } from './csrf-helpers';
+import { totpCode, totpStep } from '../totp';
 import { storage } from '../storage';
 import session from 'express-session';
 
@@ -83,6 +86,7 @@ describe('POST /api/register', () => {
     const username = uniqueUsername('newuser');
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -102,6 +106,7 @@ describe('POST /api/register', () => {
     const username = uniqueUsername('sessionuser');
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -117,6 +122,7 @@ describe('POST /api/register', () => {
     // Register first user
     await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}1@example.com`,
@@ -126,6 +132,7 @@ describe('POST /api/register', () => {
     // Try to register with same username
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}2@example.com`,
@@ -141,6 +148,7 @@ describe('POST /api/register', () => {
     // Register first user
     await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: uniqueUsername('user1'),
         email: email,
@@ -150,6 +158,7 @@ describe('POST /api/register', () => {
     // Try to register with same email
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: uniqueUsername('user2'),
         email: email,
@@ -160,10 +169,66 @@ describe('POST /api/register', () => {
     expect(response.body.error).toBe('Email already registered');
   });
 
+  it('should reject usernames and emails that differ only by case', async () => {
+    const username = uniqueUsername('caseuser');
+    await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username, email: `${username}@example.com`, password: 'password123' });
+
+    const sameUsername = await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username: username.toUpperCase(), email: `${username}2@example.com`, password: 'password123' });
+    expect(sameUsername.status).toBe(400);
+    expect(sameUsername.body.error).toBe('Username already taken');
+
+    const sameEmail = await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username: uniqueUsername('caseuser2'), email: `${username.toUpperCase()}@EXAMPLE.COM`, password: 'password123' });
+    expect(sameEmail.status).toBe(400);
+    expect(sameEmail.body.error).toBe('Email already registered');
+  });
+
+  it('should let only one of two simultaneous registrations differing by case succeed', async () => {
+    const username = uniqueUsername('racer');
+    const register = (name: string, email: string) => request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username: name, email, password: 'password123' });
+
+    const sameUsername = await Promise.all([
+      register(username, `${username}-a@example.com`),
+      register(username.toUpperCase(), `${username}-b@example.com`),
+    ]);
+    expect(sameUsername.map(response => response.status).sort()).toEqual([201, 400]);
+    expect(sameUsername.find(response => response.status === 400)!.body.error).toBe('Username already taken');
+
+    const sameEmail = await Promise.all([
+      register(`${username}_x`, `${username}-c@example.com`),
+      register(`${username}_y`, `${username}-C@Example.com`),
+    ]);
+    expect(sameEmail.map(response => response.status).sort()).toEqual([201, 400]);
+    expect(sameEmail.find(response => response.status === 400)!.body.error).toBe('Email already registered');
+  });
+
+  it('should store emails in lowercase', async () => {
+    const username = uniqueUsername('loweremail');
+    const response = await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username, email: ` ${username.toUpperCase()}@Example.com `, password: 'password123' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.email).toBe(`${username}@example.com`);
+  });
+
   it('should reject password shorter than 8 characters', async () => {
     const username = uniqueUsername('weakpass');
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -176,6 +241,7 @@ describe('POST /api/register', () => {
   it('should reject invalid username format', async () => {
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: 'invalid user!',
         email: 'test@example.com',
@@ -188,6 +254,7 @@ describe('POST /api/register', () => {
   it('should reject invalid email format', async () => {
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: 'validuser',
         email: 'notanemail',
@@ -200,6 +267,7 @@ describe('POST /api/register', () => {
   it('should reject username less than 3 characters', async () => {
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: 'ab',
         email: 'test@example.com',
@@ -214,6 +282,7 @@ describe('POST /api/register', () => {
     const password = 'plaintextpassword';
     await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -238,6 +307,7 @@ describe('POST /api/login', () => {
     testUsername = uniqueUsername('testuser');
     const response = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: testUsername,
         email: `${testUsername}@example.com`,
@@ -253,6 +323,7 @@ describe('POST /api/login', () => {
   it('should login with correct credentials', async () => {
     const response = await request(app)
       .post('/api/login')
+      .use(withCsrf())
       .send({
         username: testUsername,
         password: 'password123'
@@ -264,9 +335,49 @@ describe('POST /api/login', () => {
     expect(response.body).not.toHaveProperty('password');
   });
 
+  it('should login with email instead of username', async () => {
+    const response = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({
+        username: `${testUsername}@example.com`,
+        password: 'password123'
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.username).toBe(testUsername);
+  });
+
+  it('should match username and email regardless of case', async () => {
+    const byUsername = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({ username: testUsername.toUpperCase(), password: 'password123' });
+    const byEmail = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({ username: `${testUsername.toUpperCase()}@Example.COM`, password: 'password123' });
+
+    expect(byUsername.status).toBe(200);
+    expect(byUsername.body.username).toBe(testUsername);
+    expect(byEmail.status).toBe(200);
+    expect(byEmail.body.username).toBe(testUsername);
+  });
+
+  it('should reject login by email with wrong password', async () => {
+    const response = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({ username: `${testUsername}@example.com`, password: 'wrongpassword' });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('Invalid credentials');
+  });
+
   it('should create session cookie on login', async () => {
     const response = await request(app)
       .post('/api/login')
+      .use(withCsrf())
       .send({
         username: testUsername,
         password: 'password123'
@@ -279,6 +390,7 @@ describe('POST /api/login', () => {
   it('should reject login with wrong password', async () => {
     const response = await request(app)
       .post('/api/login')
+      .use(withCsrf())
       .send({
         username: testUsername,
         password: 'wrongpassword'
@@ -291,6 +403,7 @@ describe('POST /api/login', () => {
   it('should reject login with non-existent user', async () => {
     const response = await request(app)
       .post('/api/login')
+      .use(withCsrf())
       .send({
         username: 'nonexistent',
         password: 'password123'
@@ -303,10 +416,12 @@ describe('POST /api/login', () => {
   it('should not reveal if username or password is wrong', async () => {
     const wrongUser = await request(app)
       .post('/api/login')
+      .use(withCsrf())
       .send({ username: 'nonexistent', password: 'password123' });
 
     const wrongPass = await request(app)
       .post('/api/login')
+      .use(withCsrf())
       .send({ username: testUsername, password: 'wrongpassword' });
 
     // Both should return same error message
@@ -314,6 +429,418 @@ describe('POST /api/login', () => {
   });
 });
 
+describe('Password reset', () => {
+  let app: express.Express;
+  let testUsername: string;
+  let email: string;
+
+  async function latestResetToken(to: string): Promise<string> {
+    return linkParam(await lastMailTo(to), '/auth', 'reset');
+  }
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    testUsername = uniqueUsername('resetuser');
+    email = `${testUsername}@example.com`;
+    const response = await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username: testUsername, email, password: 'password123' });
+
+    if (response.status !== 201) {
+      throw new Error(`User registration failed: ${response.status} ${JSON.stringify(response.body)}`);
+    }
+  });
+
+  it('should email a reset link and store only the token hash', async () => {
+    const response = await request(app)
+      .post('/api/forgot-password')
+      .use(withCsrf())
+      .send({ email });
+
+    expect(response.status).toBe(200);
+    const token = await latestResetToken(email);
+    const user = await storage.getUserByEmail(email);
+    expect(user?.passwordResetToken).toBe(hashToken(token));
+    expect(user?.passwordResetToken).not.toBe(token);
+    expect(user?.passwordResetExpires!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should answer the same way for unknown emails without sending mail', async () => {
+    const sentBefore = (await sentMail()).length;
+    const unknown = await request(app)
+      .post('/api/forgot-password')
+      .use(withCsrf())
+      .send({ email: 'nobody-here@example.com' });
+    const known = await request(app)
+      .post('/api/forgot-password')
+      .use(withCsrf())
+      .send({ email });
+
+    expect(unknown.status).toBe(200);
+    expect(unknown.body).toEqual(known.body);
+    expect((await sentMail()).slice(sentBefore).map(m => m.to)).toEqual([email]);
+  });
+
+  it('should reset the password once with a valid token', async () => {
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+    const token = await latestResetToken(email);
+
+    const reset = await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token, password: 'newpassword456' });
+    expect(reset.status).toBe(200);
+
+    const oldLogin = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({ username: testUsername, password: 'password123' });
+    expect(oldLogin.status).toBe(401);
+
+    const newLogin = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({ username: testUsername, password: 'newpassword456' });
+    expect(newLogin.status).toBe(200);
+
+    // Single use
+    const reused = await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token, password: 'anotherpassword789' });
+    expect(reused.status).toBe(400);
+  });
+
+  it('should sign out every session of the account', async () => {
+    const login = await request(app)
+      .post('/api/login')
+      .use(withCsrf())
+      .send({ username: testUsername, password: 'password123' });
+    const cookies = login.headers['set-cookie'];
+
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+    await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token: await latestResetToken(email), password: 'newpassword456' });
+
+    const response = await request(app).get('/api/user').set('Cookie', cookies);
+    expect(response.status).toBe(401);
+  });
+
+  it('should revoke every API token of the account', async () => {
+    const user = await storage.getUserByEmail(email);
+    await storage.createApiToken(user!.id, { name: 'script', scope: 'write', tokenHash: hashToken('mrk_reset'), tokenPrefix: 'mrk_rese', expiresAt: null });
+
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+    await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token: await latestResetToken(email), password: 'newpassword456' });
+
+    expect(await storage.listApiTokens(user!.id)).toEqual([]);
+    expect(await storage.getApiTokenByHash(hashToken('mrk_reset'))).toBeUndefined();
+  });
+
+  it('should reject an expired token', async () => {
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+    const token = await latestResetToken(email);
+    const user = await storage.getUserByEmail(email);
+    await storage.setPasswordResetToken(user!.id, hashToken(token), new Date(Date.now() - 1000));
+
+    const response = await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token, password: 'newpassword456' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('This reset link is invalid or has expired');
+  });
+
+  it('should only honour the most recent token', async () => {
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+    const firstToken = await latestResetToken(email);
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+
+    const response = await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token: firstToken, password: 'newpassword456' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should enforce the password rules', async () => {
+    await request(app).post('/api/forgot-password').use(withCsrf()).send({ email });
+
+    const response = await request(app)
+      .post('/api/reset-password')
+      .use(withCsrf())
+      .send({ token: await latestResetToken(email), password: 'short' });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('Email verification', () => {
+  let app: express.Express;
+  let testUsername: string;
+  let email: string;
+  let cookies: string[];
+
+  async function latestVerificationToken(to: string): Promise<string> {
+    return linkParam(await lastMailTo(to), '/auth/verify-email', 'token');
+  }
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    testUsername = uniqueUsername('verifyuser');
+    email = `${testUsername}@example.com`;
+    const response = await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username: testUsername, email, password: 'password123' });
+
+    if (response.status !== 201) {
+      throw new Error(`User registration failed: ${response.status} ${JSON.stringify(response.body)}`);
+    }
+    cookies = response.headers['set-cookie'] as unknown as string[];
+  });
+
+  it('should start unverified and email a verification link on registration', async () => {
+    const message = await lastMailTo(email);
+    expect(message.subject).toBe('Confirm your email for My Recipe Kitchen');
+
+    const token = await latestVerificationToken(email);
+    const user = await storage.getUserByEmail(email);
+    expect(user?.emailVerifiedAt).toBeNull();
+    expect(user?.emailVerificationToken).toBe(hashToken(token));
+    expect(user?.emailVerificationExpires!.getTime()).toBeGreaterThan(Date.now());
+
+    const current = await request(app).get('/api/user').set('Cookie', cookies);
+    expect(current.body.emailVerifiedAt).toBeNull();
+    expect(current.body).not.toHaveProperty('emailVerificationToken');
+  });
+
+  it('should verify the email once with a valid token, without a session', async () => {
+    const token = await latestVerificationToken(email);
+
+    const response = await request(app)
+      .post('/api/verify-email')
+      .use(withCsrf())
+      .send({ token });
+    expect(response.status).toBe(200);
+
+    const user = await storage.getUserByEmail(email);
+    expect(user?.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(user?.emailVerificationToken).toBeNull();
+
+    const current = await request(app).get('/api/user').set('Cookie', cookies);
+    expect(current.body.emailVerifiedAt).toBeTruthy();
+
+    // Single use
+    const reused = await request(app)
+      .post('/api/verify-email')
+      .use(withCsrf())
+      .send({ token });
+    expect(reused.status).toBe(400);
+  });
+
+  it('should reject an expired token', async () => {
+    const token = await latestVerificationToken(email);
+    const user = await storage.getUserByEmail(email);
+    await storage.setEmailVerificationToken(user!.id, hashToken(token), new Date(Date.now() - 1000));
+
+    const response = await request(app)
+      .post('/api/verify-email')
+      .use(withCsrf())
+      .send({ token });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('This verification link is invalid or has expired');
+  });
+
+  it('should resend a fresh link that replaces the old one', async () => {
+    const firstToken = await latestVerificationToken(email);
+
+    const resend = await request(app)
+      .post('/api/resend-verification')
+      .use(withCsrf(cookies));
+    expect(resend.status).toBe(200);
+
+    const secondToken = await latestVerificationToken(email);
+    expect(secondToken).not.toBe(firstToken);
+
+    const stale = await request(app).post('/api/verify-email').use(withCsrf()).send({ token: firstToken });
+    expect(stale.status).toBe(400);
+    const fresh = await request(app).post('/api/verify-email').use(withCsrf()).send({ token: secondToken });
+    expect(fresh.status).toBe(200);
+  });
+
+  it('should require a session to resend and refuse once verified', async () => {
+    const anonymous = await request(app).post('/api/resend-verification').use(withCsrf());
+    expect(anonymous.status).toBe(401);
+
+    await request(app).post('/api/verify-email').use(withCsrf()).send({ token: await latestVerificationToken(email) });
+
+    const response = await request(app)
+      .post('/api/resend-verification')
+      .use(withCsrf(cookies));
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Email is already verified');
+  });
+});
+
+describe('Two-factor authentication', () => {
+  let app: express.Express;
+  let testUsername: string;
+  let agent: ReturnType<typeof csrfAgent>;
+
+  // Signs in with the password and turns two-factor on, returning the secret and recovery codes
+  async function enableTwoFactor() {
+    const setup = await agent.post('/api/2fa/setup');
+    expect(setup.status).toBe(200);
+    const enable = await agent
+      .post('/api/2fa/enable')
+      .send({ code: totpCode(setup.body.secret, totpStep()) });
+    expect(enable.status).toBe(200);
+    return { secret: setup.body.secret as string, recoveryCodes: enable.body.recoveryCodes as string[] };
+  }
+
+  function loginWithPassword(client = csrfAgent(app)) {
+    return client.post('/api/login').send({ username: testUsername, password: 'password123' }).then(response => ({ client, response }));
+  }
+
+  beforeEach(async () => {
+    app = createTestApp();
+    agent = csrfAgent(app);
+
+    testUsername = uniqueUsername('totpuser');
+    const response = await agent
+      .post('/api/register')
+      .send({ username: testUsername, email: `${testUsername}@example.com`, password: 'password123' });
+
+    if (response.status !== 201) {
+      throw new Error(`User registration failed: ${response.status} ${JSON.stringify(response.body)}`);
+    }
+  });
+
+  it('should show a QR code and only turn on after a valid code', async () => {
+    const setup = await agent.post('/api/2fa/setup');
+
+    expect(setup.status).toBe(200);
+    expect(setup.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(setup.body.otpauthUrl).toContain(`secret=${setup.body.secret}`);
+    expect(setup.body.qrCode).toMatch(/^data:image\/png;base64,/);
+
+    const wrong = await agent.post('/api/2fa/enable').send({ code: '000000' });
+    expect(wrong.status).toBe(400);
+    expect((await agent.get('/api/user')).body.totpEnabledAt).toBeNull();
+
+    const enable = await agent.post('/api/2fa/enable').send({ code: totpCode(setup.body.secret, totpStep()) });
+    expect(enable.status).toBe(200);
+    expect(enable.body.recoveryCodes).toHaveLength(10);
+    expect((await agent.get('/api/user')).body.totpEnabledAt).toBeTruthy();
+
+    const user = await storage.getUserByUsername(testUsername);
+    expect(user?.totpRecoveryCodes).toHaveLength(10);
+    expect(user?.totpRecoveryCodes).not.toContain(enable.body.recoveryCodes[0]);
+  });
+
+  it('should ask for a code after the password and sign in once it matches', async () => {
+    const { secret } = await enableTwoFactor();
+
+    const { client, response } = await loginWithPassword();
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ twoFactorRequired: true });
+    expect((await client.get('/api/user')).status).toBe(401);
+
+    const wrong = await client.post('/api/login/2fa').send({ code: '000000' });
+    expect(wrong.status).toBe(401);
+
+    // The code used to enable is spent, so use the next one
+    const verified = await client.post('/api/login/2fa').send({ code: totpCode(secret, totpStep() + 1) });
+    expect(verified.status).toBe(200);
+    expect(verified.body.username).toBe(testUsername);
+    expect((await client.get('/api/user')).status).toBe(200);
+  });
+
+  it('should not accept the same code twice', async () => {
+    const { secret } = await enableTwoFactor();
+    const code = totpCode(secret, totpStep() + 1);
+
+    const first = await loginWithPassword();
+    expect((await first.client.post('/api/login/2fa').send({ code })).status).toBe(200);
+
+    const second = await loginWithPassword();
+    expect((await second.client.post('/api/login/2fa').send({ code })).status).toBe(401);
+  });
+
+  it('should accept each recovery code once', async () => {
+    const { recoveryCodes } = await enableTwoFactor();
+
+    const first = await loginWithPassword();
+    const accepted = await first.client.post('/api/login/2fa').send({ code: recoveryCodes[0].toUpperCase() });
+    expect(accepted.status).toBe(200);
+
+    const second = await loginWithPassword();
+    const reused = await second.client.post('/api/login/2fa').send({ code: recoveryCodes[0] });
+    expect(reused.status).toBe(401);
+
+    const user = await storage.getUserByUsername(testUsername);
+    expect(user?.totpRecoveryCodes).toHaveLength(9);
+  });
+
+  it('should require a password step before a code', async () => {
+    const { secret } = await enableTwoFactor();
+
+    const response = await request(app).post('/api/login/2fa').use(withCsrf()).send({ code: totpCode(secret, totpStep()) });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('Please sign in again');
+  });
+
+  it('should make the password step start over after too many wrong codes', async () => {
+    const { secret } = await enableTwoFactor();
+    const { client } = await loginWithPassword();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect((await client.post('/api/login/2fa').send({ code: '000000' })).body.error).toBe('Invalid code');
+    }
+    const last = await client.post('/api/login/2fa').send({ code: '000000' });
+    expect(last.body.error).toBe('Too many incorrect codes. Please sign in again');
+
+    const afterwards = await client.post('/api/login/2fa').send({ code: totpCode(secret, totpStep() + 1) });
+    expect(afterwards.status).toBe(401);
+  });
+
+  it('should need the current password to replace recovery codes or turn off', async () => {
+    const { recoveryCodes } = await enableTwoFactor();
+
+    const wrongPassword = await agent.post('/api/2fa/recovery-codes').send({ password: 'wrongpassword' });
+    expect(wrongPassword.status).toBe(400);
+
+    const regenerated = await agent.post('/api/2fa/recovery-codes').send({ password: 'password123' });
+    expect(regenerated.status).toBe(200);
+    expect(regenerated.body.recoveryCodes).toHaveLength(10);
+    expect(regenerated.body.recoveryCodes).not.toContain(recoveryCodes[0]);
+
+    expect((await agent.post('/api/2fa/disable').send({ password: 'wrongpassword' })).status).toBe(400);
+    expect((await agent.post('/api/2fa/disable').send({ password: 'password123' })).status).toBe(200);
+
+    const { response } = await loginWithPassword();
+    expect(response.body.username).toBe(testUsername);
+  });
+
+  it('should require authentication to manage two-factor settings', async () => {
+    const response = await request(app).post('/api/2fa/setup').use(withCsrf());
+    expect(response.status).toBe(401);
+  });
+});
+
 describe('POST /api/logout', () => {
   let app: express.Express;
 
@@ -327,6 +854,7 @@ describe('POST /api/logout', () => {
     // Register and login
     const loginResponse = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -338,9 +866,150 @@ describe('POST /api/logout', () => {
     // Logout
     const response = await request(app)
       .post('/api/logout')
-      .set('Cookie', cookies);
+      .use(withCsrf(cookies));
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('CSRF protection', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  function csrfCookie(cookies: string[]): string {
+    const cookie = cookies.find(value => value.startsWith('csrf_token='))!;
+    return decodeURIComponent(cookie.slice('csrf_token='.length).split(';')[0]);
+  }
+
+  // Registers a user; the response carries the session cookie and a CSRF token tied to it
+  async function signUp() {
+    const username = uniqueUsername('csrfuser');
+    const response = await request(app)
+      .post('/api/register')
+      .use(withCsrf())
+      .send({ username, email: `${username}@example.com`, password: 'password123' });
+    expect(response.status).toBe(201);
+    const cookies: string[] = response.headers['set-cookie'];
+    return { cookies, token: csrfCookie(cookies) };
+  }
+
+  it('should issue a token and a matching readable cookie', async () => {
+    const response = await request(app).get('/api/csrf-token');
 
     expect(response.status).toBe(200);
+    expect(response.headers['cache-control']).toBe('no-store');
+    const cookies: string[] = response.headers['set-cookie'];
+    expect(csrfCookie(cookies)).toBe(response.body.csrfToken);
+    const cookie = cookies.find(value => value.startsWith('csrf_token='))!;
+    expect(cookie).not.toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Strict');
+  });
+
+  it('should accept the token from the endpoint before signing in', async () => {
+    const tokenResponse = await request(app).get('/api/csrf-token');
+    const username = uniqueUsername('csrfendpoint');
+
+    const response = await request(app)
+      .post('/api/register')
+      .set('Cookie', tokenResponse.headers['set-cookie'])
+      .set('X-CSRF-Token', tokenResponse.body.csrfToken)
+      .send({ username, email: `${username}@example.com`, password: 'password123' });
+
+    expect(response.status).toBe(201);
+  });
+
+  it('should refuse requests without a token, even with no Origin header', async () => {
+    const { cookies } = await signUp();
+
+    const response = await request(app)
+      .post('/api/2fa/setup')
+      .set('Cookie', cookies);
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('Invalid CSRF token');
+  });
+
+  it('should not trust localhost origins', async () => {
+    const { cookies } = await signUp();
+
+    const response = await request(app)
+      .post('/api/2fa/setup')
+      .set('Cookie', cookies)
+      .set('Origin', 'http://localhost:5000')
+      .set('Host', 'localhost:5000');
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should refuse a header without the cookie, or one that differs from it', async () => {
+    const { cookies, token } = await signUp();
+    const sessionOnly = cookies.filter(value => !value.startsWith('csrf_token='));
+
+    const noCookie = await request(app)
+      .post('/api/2fa/setup')
+      .set('Cookie', sessionOnly)
+      .set('X-CSRF-Token', token);
+    expect(noCookie.status).toBe(403);
+
+    const other = (await request(app).get('/api/csrf-token').set('Cookie', cookies)).body.csrfToken;
+    const mismatch = await request(app)
+      .post('/api/2fa/setup')
+      .set('Cookie', cookies)
+      .set('X-CSRF-Token', other);
+    expect(mismatch.status).toBe(403);
+  });
+
+  it('should refuse a forged token planted in the cookie', async () => {
+    const { cookies } = await signUp();
+    const sessionOnly = cookies.filter(value => !value.startsWith('csrf_token='));
+
+    const response = await request(app)
+      .post('/api/2fa/setup')
+      .set('Cookie', [...sessionOnly, 'csrf_token=attacker.chosen'])
+      .set('X-CSRF-Token', 'attacker.chosen');
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should refuse a token from before sign-in or from another user's session", async () => {
+    const { cookies } = await signUp();
+    const { token: otherToken } = await signUp();
+    const sessionOnly = cookies.filter(value => !value.startsWith('csrf_token='));
+
+    for (const token of [createCsrfToken(), otherToken]) {
+      const response = await request(app)
+        .post('/api/2fa/setup')
+        .set('Cookie', [...sessionOnly, `csrf_token=${encodeURIComponent(token)}`])
+        .set('X-CSRF-Token', token);
+      expect(response.status).toBe(403);
+    }
+
+    const ownToken = await request(app)
+      .post('/api/2fa/setup')
+      .use(withCsrf(cookies));
+    expect(ownToken.status).toBe(200);
+  });
+
+  it('should replace the token on sign-out', async () => {
+    const { cookies, token } = await signUp();
+
+    const logout = await request(app)
+      .post('/api/logout')
+      .use(withCsrf(cookies));
+    expect(logout.status).toBe(200);
+    const newToken = csrfCookie(logout.headers['set-cookie']);
+    expect(newToken).not.toBe(token);
+
+    const username = uniqueUsername('csrfafter');
+    const register = await request(app)
+      .post('/api/register')
+      .set('Cookie', logout.headers['set-cookie'])
+      .set('X-CSRF-Token', newToken)
+      .send({ username, email: `${username}@example.com`, password: 'password123' });
+    expect(register.status).toBe(201);
   });
 });
 
@@ -356,6 +1025,7 @@ describe('GET /api/user', () => {
     // Register user
     const registerResponse = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -388,6 +1058,7 @@ describe('GET /api/user', () => {
     const username = uniqueUsername('sensitiveuser');
     const registerResponse = await request(app)
       .post('/api/register')
+      .use(withCsrf())
       .send({
         username: username,
         email: `${username}@example.com`,
@@ -0,0 +1,39 @@
+import request from 'supertest';
+import type express from 'express';
+import { createCsrfToken } from '../auth';
+
+// State-changing requests must echo the csrf_token cookie in the X-CSRF-Token header, as the
+// client does. Requests made before signing in get a token that isn't tied to a session.
+
+function csrfTokenFrom(cookies: string[] | string | undefined): string | undefined {
+  const list = Array.isArray(cookies) ? cookies : cookies ? [cookies] : [];
+  const cookie = [...list].reverse().find(value => value.startsWith('csrf_token='));
+  return cookie ? decodeURIComponent(cookie.slice('csrf_token='.length).split(';')[0]) : undefined;
+}
+
+// Supertest plugin: sends `cookies` (from a sign-in response) along with their CSRF token
+export function withCsrf(cookies: string[] = []) {
+  return (req: request.Test) => {
+    const token = csrfTokenFrom(cookies) ?? createCsrfToken();
+    const sent = csrfTokenFrom(cookies) ? cookies : [...cookies, `csrf_token=${encodeURIComponent(token)}`];
+    req.set('Cookie', sent).set('X-CSRF-Token', token);
+  };
+}
+
+// An agent that keeps sending the latest csrf_token cookie it was given in the header
+export function csrfAgent(app: express.Express) {
+  const agent = request.agent(app);
+  let token: string | undefined;
+  agent.use((req: request.Test) => {
+    if (token) {
+      req.set('X-CSRF-Token', token);
+    } else {
+      const anonymous = createCsrfToken();
+      req.set('Cookie', `csrf_token=${encodeURIComponent(anonymous)}`).set('X-CSRF-Token', anonymous);
+    }
+    req.on('response', (res: request.Response) => {
+      token = csrfTokenFrom(res.headers['set-cookie']) ?? token;
+    });
+  });
+  return agent;
+}
@@ -2,12 +2,17 @@
 // This file sets environment variables that are needed during module initialization
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 // Set test environment
 process.env.NODE_ENV = 'test';
 process.env.SESSION_SECRET = 'test-session-secret-for-testing-only';
 
+// Keep uploaded photos out of the working directory
+process.env.STORAGE_DRIVER = 'local';
+process.env.STORAGE_LOCAL_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'recipe-photos-'));
+
 // Set DATABASE_URL with fallback for local development
 // Priority: 1. Existing env var, 2. .env.test file, 3. Default fallback
 if (!process.env.DATABASE_URL) {
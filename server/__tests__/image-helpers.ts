@@ -0,0 +1,32 @@
+import sharp from 'sharp';
+
+// Real images for upload tests, since uploads are decoded and re-encoded before they are stored
+
+export interface TestPhotoOptions {
+  width?: number;
+  height?: number;
+  format?: 'jpeg' | 'png' | 'webp';
+  orientation?: number; // EXIF orientation, e.g. 6 for a phone held upright
+  camera?: string; // Written to the EXIF Make tag, to check metadata is stripped
+}
+
+export async function testPhoto({ width = 40, height = 30, format = 'jpeg', orientation, camera }: TestPhotoOptions = {}): Promise<Buffer> {
+  let image = sharp({ create: { width, height, channels: 3, background: '#c0392b' } }).toFormat(format);
+  if (camera) image = image.withExif({ IFD0: { Make: camera } });
+  if (orientation) image = image.withMetadata({ orientation });
+  return image.toBuffer();
+}
+
+// A JPEG whose header claims other dimensions, like a decompression bomb: cheap to make and
+// send, but enormous once decoded
+export function withDimensions(jpeg: Buffer, width: number, height: number): Buffer {
+  const copy = Buffer.from(jpeg);
+  for (let offset = 2; offset + 9 < copy.length; offset += 2 + copy.readUInt16BE(offset + 2)) {
+    if (copy[offset] === 0xff && copy[offset + 1] >= 0xc0 && copy[offset + 1] <= 0xc2) {
+      copy.writeUInt16BE(height, offset + 5);
+      copy.writeUInt16BE(width, offset + 7);
+      return copy;
+    }
+  }
+  throw new Error('No SOF segment found');
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { processImage, sniffImageType, validateImageUpload } from '../image-processing';
+import { testPhoto, withDimensions } from './image-helpers';
+
+describe('Image Processing (HIGH)', () => {
+  describe('processImage', () => {
+    it('should make every size in every format', async () => {
+      const processed = await processImage(await testPhoto());
+
+      expect(processed?.variants.map(variant => `${variant.size}.${variant.format}`)).toEqual([
+        'thumbnail.avif', 'thumbnail.webp', 'thumbnail.jpeg',
+        'card.avif', 'card.webp', 'card.jpeg',
+        'full.avif', 'full.webp', 'full.jpeg',
+      ]);
+      for (const variant of processed!.variants) {
+        const metadata = await sharp(variant.data).metadata();
+        expect(metadata.format).toBe(variant.format === 'avif' ? 'heif' : variant.format);
+        expect(variant.contentType).toBe(`image/${variant.format}`);
+      }
+    });
+
+    it('should fit each size within its longest side without enlarging', async () => {
+      const processed = await processImage(await testPhoto({ width: 1000, height: 500 }));
+
+      const jpegs = processed!.variants.filter(variant => variant.format === 'jpeg');
+      expect(jpegs.map(({ size, width, height }) => ({ size, width, height }))).toEqual([
+        { size: 'thumbnail', width: 320, height: 160 },
+        { size: 'card', width: 800, height: 400 },
+        { size: 'full', width: 1000, height: 500 },
+      ]);
+      expect(processed).toMatchObject({ width: 1000, height: 500 });
+    });
+
+    it('should turn photos upright using their EXIF orientation', async () => {
+      const processed = await processImage(await testPhoto({ width: 40, height: 30, orientation: 6 }));
+
+      expect(processed).toMatchObject({ width: 30, height: 40 });
+      const full = processed!.variants.find(variant => variant.size === 'full' && variant.format === 'jpeg')!;
+      const metadata = await sharp(full.data).metadata();
+      expect([metadata.width, metadata.height]).toEqual([30, 40]);
+      expect(metadata.orientation).toBeUndefined();
+    });
+
+    it('should strip EXIF metadata', async () => {
+      const original = await testPhoto({ camera: 'PhoneCo' });
+      expect((await sharp(original).metadata()).exif?.toString('latin1')).toContain('PhoneCo');
+
+      const processed = await processImage(original);
+
+      for (const variant of processed!.variants) {
+        const metadata = await sharp(variant.data).metadata();
+        expect(metadata.exif).toBeUndefined();
+        expect(variant.data.toString('latin1')).not.toContain('PhoneCo');
+      }
+    });
+
+    it('should accept PNG and WebP uploads', async () => {
+      expect(await processImage(await testPhoto({ format: 'png' }))).not.toBeNull();
+      expect(await processImage(await testPhoto({ format: 'webp' }))).not.toBeNull();
+    });
+
+    it('should return null for data that is not an image', async () => {
+      expect(await processImage(Buffer.from('<html><script>alert(1)</script></html>'))).toBeNull();
+    });
+
+    it('should return null for a truncated image', async () => {
+      const photo = await testPhoto({ width: 400, height: 300 });
+      expect(await processImage(photo.subarray(0, photo.length / 2))).toBeNull();
+    });
+  });
+
+  describe('sniffImageType', () => {
+    it('should recognise images by their magic bytes', async () => {
+      expect(sniffImageType(await testPhoto())).toBe('image/jpeg');
+      expect(sniffImageType(await testPhoto({ format: 'png' }))).toBe('image/png');
+      expect(sniffImageType(await testPhoto({ format: 'webp' }))).toBe('image/webp');
+      expect(sniffImageType(await sharp(await testPhoto()).avif().toBuffer())).toBe('image/avif');
+    });
+
+    it('should not recognise anything else', () => {
+      expect(sniffImageType(Buffer.from('<!DOCTYPE html><html></html>'))).toBeNull();
+      expect(sniffImageType(Buffer.from('GIF89a'))).toBeNull();
+      expect(sniffImageType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('validateImageUpload', () => {
+    it('should accept JPEG, PNG and WebP images', async () => {
+      expect(await validateImageUpload(await testPhoto())).toBeNull();
+      expect(await validateImageUpload(await testPhoto({ format: 'png' }))).toBeNull();
+      expect(await validateImageUpload(await testPhoto({ format: 'webp' }))).toBeNull();
+    });
+
+    it('should reject HTML whatever it is called', async () => {
+      expect(await validateImageUpload(Buffer.from('<html><script>alert(1)</script></html>'))).toBe('Only JPEG, PNG and WebP images are allowed');
+    });
+
+    it('should reject image types that are not accepted for upload', async () => {
+      expect(await validateImageUpload(await sharp(await testPhoto()).avif().toBuffer())).toBe('Only JPEG, PNG and WebP images are allowed');
+      expect(await validateImageUpload(await sharp(await testPhoto()).gif().toBuffer())).toBe('Only JPEG, PNG and WebP images are allowed');
+    });
+
+    it('should reject a JPEG with markup inside it', async () => {
+      const photo = await testPhoto();
+      // A comment segment straight after the start of image marker
+      const comment = Buffer.from('<script>alert(document.cookie)</script>');
+      const header = Buffer.from([0xff, 0xfe, 0, comment.length + 2]);
+      const polyglot = Buffer.concat([photo.subarray(0, 2), header, comment, photo.subarray(2)]);
+
+      expect(await validateImageUpload(polyglot)).toBe('This file contains more than an image');
+    });
+
+    it('should reject a PNG with data after its last chunk', async () => {
+      const photo = await testPhoto({ format: 'png' });
+
+      expect(await validateImageUpload(Buffer.concat([photo, Buffer.from('trailing bytes')]))).toBe('This file contains more than an image');
+    });
+
+    it('should reject a WebP file longer than its RIFF chunk', async () => {
+      const photo = await testPhoto({ format: 'webp' });
+
+      expect(await validateImageUpload(Buffer.concat([photo, Buffer.from('trailing bytes')]))).toBe('This file contains more than an image');
+    });
+
+    it('should reject images with too many pixels without decoding them', async () => {
+      const bomb = withDimensions(await testPhoto({ width: 8, height: 8 }), 8000, 8000);
+
+      expect(await validateImageUpload(bomb)).toBe('Photos can be at most 40 megapixels');
+    });
+
+    it('should reject images with an absurd side', async () => {
+      const strip = withDimensions(await testPhoto({ width: 8, height: 8 }), 20000, 1);
+
+      expect(await validateImageUpload(strip)).toBe('Photos can be at most 40 megapixels');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseIngredientLine,
+  parseIngredients,
+  formatIngredient,
+  formatIngredients,
+  formatQuantity,
+  groupIngredients,
+} from '@shared/ingredients';
+import { ingredientSchema } from '@shared/schema';
+
+describe('Ingredient Parsing (HIGH)', () => {
+  describe('parseIngredientLine', () => {
+    it('should parse quantity, unit and item', () => {
+      expect(parseIngredientLine('2 cups flour')).toEqual({
+        quantity: 2,
+        quantityMax: null,
+        unit: 'cup',
+        item: 'flour',
+        note: null,
+        group: null,
+      });
+    });
+
+    it('should parse fractions, mixed numbers and unicode fractions', () => {
+      expect(parseIngredientLine('1/2 tsp salt').quantity).toBe(0.5);
+      expect(parseIngredientLine('1 1/2 cups milk').quantity).toBe(1.5);
+      expect(parseIngredientLine('1½ cups milk').quantity).toBe(1.5);
+      expect(parseIngredientLine('¾ cup sugar').quantity).toBe(0.75);
+      expect(parseIngredientLine('0.5 kg potatoes').quantity).toBe(0.5);
+    });
+
+    it('should parse ranges', () => {
+      const dashed = parseIngredientLine('2-3 cloves garlic');
+      expect(dashed.quantity).toBe(2);
+      expect(dashed.quantityMax).toBe(3);
+      expect(dashed.unit).toBe('clove');
+      expect(dashed.item).toBe('garlic');
+
+      expect(parseIngredientLine('2 to 3 tbsp olive oil').quantityMax).toBe(3);
+    });
+
+    it('should normalise unit spellings', () => {
+      expect(parseIngredientLine('3 Tablespoons butter').unit).toBe('tbsp');
+      expect(parseIngredientLine('200g dark chocolate').unit).toBe('g');
+      expect(parseIngredientLine('4 fl oz cream').unit).toBe('fl oz');
+      expect(parseIngredientLine('1 lb. ground beef').unit).toBe('lb');
+    });
+
+    it('should extract preparation notes from commas and parentheses', () => {
+      const onion = parseIngredientLine('1 onion, finely chopped');
+      expect(onion.item).toBe('onion');
+      expect(onion.unit).toBeNull();
+      expect(onion.note).toBe('finely chopped');
+
+      const butter = parseIngredientLine('100 g butter (softened)');
+      expect(butter.item).toBe('butter');
+      expect(butter.note).toBe('softened');
+    });
+
+    it('should strip "of" after the unit', () => {
+      expect(parseIngredientLine('1 cup of rice').item).toBe('rice');
+    });
+
+    it('should keep unquantified lines as the item', () => {
+      const parsed = parseIngredientLine('Salt and pepper');
+      expect(parsed.quantity).toBeNull();
+      expect(parsed.unit).toBeNull();
+      expect(parsed.item).toBe('Salt and pepper');
+    });
+
+    it('should not mistake words starting with "to" for ranges', () => {
+      const parsed = parseIngredientLine('1 tomato');
+      expect(parsed.quantity).toBe(1);
+      expect(parsed.quantityMax).toBeNull();
+      expect(parsed.item).toBe('tomato');
+    });
+  });
+
+  describe('parseIngredients', () => {
+    it('should parse one ingredient per line and skip blank lines and bullets', () => {
+      const parsed = parseIngredients('- 2 cups flour\n\n* 1 tsp salt\n• 3 eggs');
+      expect(parsed.map(i => i.item)).toEqual(['flour', 'salt', 'eggs']);
+      expect(parsed[2].quantity).toBe(3);
+    });
+
+    it('should assign group headings to the following ingredients', () => {
+      const parsed = parseIngredients('500 g pasta\nFor the sauce:\n400 g tomatoes\n2 cloves garlic');
+      expect(parsed[0].group).toBeNull();
+      expect(parsed[1].group).toBe('For the sauce');
+      expect(parsed[2].group).toBe('For the sauce');
+    });
+
+    it('should split legacy single-line comma lists into items', () => {
+      const parsed = parseIngredients('Chicken, Salt, Pepper');
+      expect(parsed.map(i => i.item)).toEqual(['Chicken', 'Salt', 'Pepper']);
+    });
+
+    it('should return an empty list for empty text', () => {
+      expect(parseIngredients('')).toEqual([]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should render quantities as fractions', () => {
+      expect(formatQuantity(2)).toBe('2');
+      expect(formatQuantity(0.5)).toBe('1/2');
+      expect(formatQuantity(1 / 3)).toBe('1/3');
+      expect(formatQuantity(1.75)).toBe('1 3/4');
+      expect(formatQuantity(0.4)).toBe('0.4');
+    });
+
+    it('should pluralise written-out units only', () => {
+      expect(formatIngredient(parseIngredientLine('2 cups flour'))).toBe('2 cups flour');
+      expect(formatIngredient(parseIngredientLine('1 cup flour'))).toBe('1 cup flour');
+      expect(formatIngredient(parseIngredientLine('2 tbsp oil'))).toBe('2 tbsp oil');
+    });
+
+    it('should round-trip grouped ingredient text', () => {
+      const text = '500 g pasta\n\nFor the sauce:\n1 1/2 cups passata\n2-3 cloves garlic, crushed';
+      expect(formatIngredients(parseIngredients(text))).toBe(text);
+    });
+
+    it('should group consecutive ingredients by heading', () => {
+      const groups = groupIngredients(parseIngredients('1 egg\nTopping:\n1 tbsp sugar'));
+      expect(groups).toHaveLength(2);
+      expect(groups[1].group).toBe('Topping');
+    });
+  });
+
+  describe('ingredientSchema', () => {
+    it('should default optional fields to null', () => {
+      const result = ingredientSchema.parse({ item: 'flour' });
+      expect(result).toEqual({
+        quantity: null,
+        quantityMax: null,
+        unit: null,
+        item: 'flour',
+        note: null,
+        group: null,
+      });
+    });
+
+    it('should reject an empty item', () => {
+      expect(ingredientSchema.safeParse({ item: '  ' }).success).toBe(false);
+    });
+
+    it('should reject a range whose upper bound is not greater', () => {
+      expect(ingredientSchema.safeParse({ item: 'eggs', quantity: 3, quantityMax: 2 }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+// Helpers for asserting on email sent through the in-memory transport.
+// Mail is delivered in the background, so each helper waits for the queue first.
+
+import { outbox, flushMailQueue, type MailMessage } from '../mailer';
+
+export async function sentMail(to?: string): Promise<MailMessage[]> {
+  await flushMailQueue();
+  return to ? outbox.filter(message => message.to === to) : [...outbox];
+}
+
+export async function lastMailTo(to: string): Promise<MailMessage> {
+  const messages = await sentMail(to);
+  if (messages.length === 0) {
+    throw new Error(`No mail sent to ${to}`);
+  }
+  return messages[messages.length - 1];
+}
+
+// The value of a query parameter in the first link to `pathname` in the message's text body
+export function linkParam(message: MailMessage, pathname: string, param: string): string {
+  for (const candidate of message.text.match(/https?:\/\/\S+/g) ?? []) {
+    const url = new URL(candidate);
+    const value = url.searchParams.get(param);
+    if (url.pathname === pathname && value) return value;
+  }
+  throw new Error(`No ${pathname}?${param}= link in mail "${message.subject}"`);
+}
+
+export function clearSentMail(): void {
+  outbox.length = 0;
+}
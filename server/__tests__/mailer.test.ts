@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getMailTransport, setMailTransport, queueMail, sendTemplatedMail, flushMailQueue, type MailMessage } from '../mailer';
+import { renderMailTemplate } from '../mail-templates';
+import { sentMail, lastMailTo, linkParam, clearSentMail } from './mail-helpers';
+
+describe('Mail templates', () => {
+  it('should render matching text and HTML bodies', () => {
+    const mail = renderMailTemplate('passwordReset', { name: 'Sam', resetUrl: 'https://example.com/auth?reset=abc' });
+
+    expect(mail.subject).toBe('Reset your My Recipe Kitchen password');
+    expect(mail.text).toContain('Hi Sam,');
+    expect(mail.text).toContain('https://example.com/auth?reset=abc');
+    expect(mail.html).toContain('href="https://example.com/auth?reset=abc"');
+  });
+
+  it('should render the email verification link', () => {
+    const mail = renderMailTemplate('emailVerification', { name: 'Sam', verifyUrl: 'https://example.com/auth/verify-email?token=abc' });
+
+    expect(mail.subject).toBe('Confirm your email for My Recipe Kitchen');
+    expect(mail.text).toContain('https://example.com/auth/verify-email?token=abc');
+    expect(mail.html).toContain('Confirm my email');
+  });
+
+  it('should escape user-supplied values in HTML', () => {
+    const mail = renderMailTemplate('passwordReset', { name: '<script>alert(1)</script>', resetUrl: 'https://example.com/auth?reset=a&b="c"' });
+
+    expect(mail.html).not.toContain('<script>');
+    expect(mail.html).toContain('&lt;script&gt;');
+    expect(mail.html).toContain('reset=a&amp;b=&quot;c&quot;');
+    expect(mail.text).toContain('<script>'); // Text bodies are not HTML
+  });
+});
+
+describe('Mail transport selection', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('should use the in-memory outbox in tests', () => {
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.SENDGRID_API_KEY;
+    delete process.env.SMTP_URL;
+
+    expect(getMailTransport().name).toBe('memory');
+  });
+
+  it('should prefer SendGrid, then SMTP, when configured', () => {
+    delete process.env.MAIL_TRANSPORT;
+    process.env.SMTP_URL = 'smtp://localhost:2525';
+    expect(getMailTransport().name).toBe('smtp');
+
+    process.env.SENDGRID_API_KEY = 'SG.test';
+    expect(getMailTransport().name).toBe('sendgrid');
+  });
+
+  it('should honour MAIL_TRANSPORT and reject unknown names', () => {
+    process.env.MAIL_TRANSPORT = 'console';
+    expect(getMailTransport().name).toBe('console');
+
+    process.env.MAIL_TRANSPORT = 'pigeon';
+    expect(() => getMailTransport()).toThrow(/Unknown MAIL_TRANSPORT/);
+  });
+
+  it('should refuse to print or keep mail in production instead of sending it', () => {
+    process.env.NODE_ENV = 'production';
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.SENDGRID_API_KEY;
+    delete process.env.SMTP_URL;
+    expect(() => getMailTransport()).toThrow("Mail can't be sent with the console transport in production; set SENDGRID_API_KEY or SMTP_URL");
+
+    process.env.MAIL_TRANSPORT = 'memory';
+    expect(() => getMailTransport()).toThrow(/memory transport in production/);
+
+    delete process.env.MAIL_TRANSPORT;
+    process.env.SMTP_URL = 'smtp://localhost:2525';
+    expect(getMailTransport().name).toBe('smtp');
+  });
+});
+
+describe('Mail queue', () => {
+  beforeEach(() => {
+    clearSentMail();
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    vi.useRealTimers();
+  });
+
+  it('should deliver templated mail to the outbox', async () => {
+    sendTemplatedMail('cook@example.com', 'passwordReset', { name: 'Cook', resetUrl: 'http://localhost:5000/auth?reset=1234' });
+
+    const message = await lastMailTo('cook@example.com');
+    expect(message.subject).toBe('Reset your My Recipe Kitchen password');
+    expect(message.html).toContain('Choose a new password');
+    expect(linkParam(message, '/auth', 'reset')).toBe('1234');
+    expect(await sentMail('someone-else@example.com')).toEqual([]);
+  });
+
+  it('should retry failed deliveries with backoff', async () => {
+    vi.useFakeTimers();
+    const delivered: MailMessage[] = [];
+    let attempts = 0;
+    setMailTransport({
+      name: 'flaky',
+      async send(message) {
+        attempts++;
+        if (attempts < 3) throw new Error('Provider unavailable');
+        delivered.push(message);
+      },
+    });
+
+    queueMail({ to: 'retry@example.com', subject: 'Hello', text: 'Hi' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(attempts).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000); // First retry after 1s
+    expect(attempts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(2000); // Second retry after another 2s
+    await flushMailQueue();
+    expect(attempts).toBe(3);
+    expect(delivered.map(m => m.to)).toEqual(['retry@example.com']);
+  });
+
+  it('should give up after five attempts', async () => {
+    vi.useFakeTimers();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let attempts = 0;
+    setMailTransport({
+      name: 'broken',
+      async send() {
+        attempts++;
+        throw new Error('Provider unavailable');
+      },
+    });
+
+    queueMail({ to: 'never@example.com', subject: 'Hello', text: 'Hi' });
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000);
+    await flushMailQueue();
+
+    expect(attempts).toBe(5);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('failed after 5 attempts'), expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('should write .eml files with the outbox directory transport', async () => {
+    const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-outbox-'));
+    const saved = { ...process.env };
+    process.env.MAIL_TRANSPORT = 'outbox';
+    process.env.MAIL_OUTBOX_DIR = outboxDir;
+
+    try {
+      sendTemplatedMail('files@example.com', 'passwordReset', { name: 'Files', resetUrl: 'http://localhost:5000/auth?reset=99' });
+      await flushMailQueue();
+
+      const files = fs.readdirSync(outboxDir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      const eml = fs.readFileSync(path.join(outboxDir, files[0]), 'utf8');
+      expect(eml).toContain('To: files@example.com');
+      expect(eml).toContain('Subject: Reset your My Recipe Kitchen password');
+      expect(eml).toContain('multipart/alternative');
+    } finally {
+      process.env = saved;
+      fs.rmSync(outboxDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,126 +1,129 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { uploadToMemory, upload } from '../object-storage';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { upload, storePhoto, deleteFromObjectStorage, getStorageDriver, setStorageDriver, isValidObjectKey, type StorageDriver } from '../object-storage';
+import { testPhoto } from './image-helpers';
 import fs from 'fs';
 import path from 'path';
 
-describe('File Upload Operations (HIGH)', () => {
-  describe('uploadToMemory', () => {
-    it('should upload file to local storage', async () => {
-      const mockFile = {
-        fieldname: 'photo',
-        originalname: 'test-image.jpg',
-        encoding: '7bit',
-        mimetype: 'image/jpeg',
-        size: 1024,
-        buffer: Buffer.from('fake image data'),
-        stream: {} as any,
-        destination: '',
-        filename: '',
-        path: ''
-      };
+// Replit Object Storage only works on Replit, so its client is replaced by one keeping
+// objects in memory and counting downloads
+const replitBucket = vi.hoisted(() => ({ objects: new Map<string, Buffer>(), downloads: 0 }));
 
-      const result = await uploadToMemory(mockFile);
+vi.mock('@replit/object-storage', () => ({
+  Client: class {
+    async uploadFromBytes(name: string, data: Buffer) {
+      replitBucket.objects.set(name, data);
+      return { ok: true, value: null };
+    }
+    async downloadAsBytes(name: string) {
+      const data = replitBucket.objects.get(name);
+      if (!data) return { ok: false, error: { message: 'Not Found', statusCode: 404 } };
+      replitBucket.downloads++;
+      return { ok: true, value: [data] };
+    }
+    async exists(name: string) {
+      return { ok: true, value: replitBucket.objects.has(name) };
+    }
+    async delete(name: string) {
+      replitBucket.objects.delete(name);
+      return { ok: true, value: null };
+    }
+  },
+}));
+
+function mockFile(originalname: string, data: Buffer): Express.Multer.File {
+  return {
+    fieldname: 'photo',
+    originalname,
+    encoding: '7bit',
+    mimetype: 'image/jpeg',
+    size: data.length,
+    buffer: data,
+    stream: {} as any,
+    destination: '',
+    filename: '',
+    path: ''
+  };
+}
+
+// Tests use the local driver in a temporary directory (see env-setup.ts)
+function storedPath(photoUrl: string): string {
+  return path.join(process.env.STORAGE_LOCAL_DIR!, photoUrl.replace(/^\/objects\//, ''));
+}
+
+async function removePhotos(...photoUrls: string[]) {
+  for (const photoUrl of photoUrls) {
+    await deleteFromObjectStorage(photoUrl);
+  }
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
 
-      expect(result).toBeDefined();
-      expect(result).toMatch(/^\/uploads\/.+test-image\.jpg$/);
-      expect(result).toContain('test-image.jpg');
+describe('File Upload Operations (HIGH)', () => {
+  describe('storePhoto', () => {
+    it('should store the photo and return the URL it is served from', async () => {
+      const result = await storePhoto(mockFile('test-image.jpg', await testPhoto()));
 
-      // Verify file was created
-      const filePath = path.join(process.cwd(), result.replace('/', ''));
-      expect(fs.existsSync(filePath)).toBe(true);
+      expect(result?.url).toMatch(/^\/objects\/recipe-photos\/.+-test-image\.jpg$/);
+      expect(result).toMatchObject({ width: 40, height: 30 });
+      expect(fs.readFileSync(storedPath(result!.url)).subarray(0, 3)).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
 
-      // Clean up
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
+      await removePhotos(result!.url);
     });
 
-    it('should create uploads directory if missing', async () => {
-      const uploadsDir = path.join(process.cwd(), 'uploads');
-
-      // Remove uploads directory if exists
-      if (fs.existsSync(uploadsDir)) {
-        const files = fs.readdirSync(uploadsDir);
-        files.forEach(file => {
-          fs.unlinkSync(path.join(uploadsDir, file));
-        });
-        fs.rmdirSync(uploadsDir);
+    it('should store each variant beside the photo', async () => {
+      const result = await storePhoto(mockFile('pie.png', await testPhoto({ format: 'png' })));
+      const stem = result!.url.replace(/\.jpg$/, '');
+
+      expect(result!.variants).toHaveLength(9);
+      expect(result!.variants.map(variant => variant.url)).toEqual(expect.arrayContaining([
+        result!.url,
+        `${stem}.thumbnail.avif`,
+        `${stem}.card.webp`,
+        `${stem}.full.avif`,
+      ]));
+      for (const variant of result!.variants) {
+        expect(fs.existsSync(storedPath(variant.url))).toBe(true);
       }
 
-      const mockFile = {
-        fieldname: 'photo',
-        originalname: 'test.jpg',
-        encoding: '7bit',
-        mimetype: 'image/jpeg',
-        size: 512,
-        buffer: Buffer.from('test data'),
-        stream: {} as any,
-        destination: '',
-        filename: '',
-        path: ''
-      };
-
-      const result = await uploadToMemory(mockFile);
-
-      expect(fs.existsSync(uploadsDir)).toBe(true);
-
-      // Clean up
-      const filePath = path.join(process.cwd(), result.replace('/', ''));
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+      await removePhotos(result!.url);
+      for (const variant of result!.variants) {
+        expect(fs.existsSync(storedPath(variant.url))).toBe(false);
       }
     });
 
-    it('should generate unique filenames with nanoid', async () => {
-      const mockFile = {
-        fieldname: 'photo',
-        originalname: 'same-name.jpg',
-        encoding: '7bit',
-        mimetype: 'image/jpeg',
-        size: 1024,
-        buffer: Buffer.from('file 1'),
-        stream: {} as any,
-        destination: '',
-        filename: '',
-        path: ''
-      };
-
-      const result1 = await uploadToMemory(mockFile);
-      const result2 = await uploadToMemory(mockFile);
+    it('should return null and store nothing for a file that is not an image', async () => {
+      const before = await getStorageDriver().list('recipe-photos/');
 
-      expect(result1).not.toBe(result2);
-
-      // Clean up
-      [result1, result2].forEach(result => {
-        const filePath = path.join(process.cwd(), result.replace('/', ''));
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
-      });
+      expect(await storePhoto(mockFile('page.jpg', Buffer.from('<html></html>')))).toBeNull();
+      expect(await getStorageDriver().list('recipe-photos/')).toEqual(before);
     });
 
-    it('should preserve original filename in path', async () => {
-      const mockFile = {
-        fieldname: 'photo',
-        originalname: 'my-recipe-photo.jpg',
-        encoding: '7bit',
-        mimetype: 'image/jpeg',
-        size: 2048,
-        buffer: Buffer.from('photo data'),
-        stream: {} as any,
-        destination: '',
-        filename: '',
-        path: ''
-      };
+    it('should generate unique keys with nanoid', async () => {
+      const result1 = await storePhoto(mockFile('same-name.jpg', await testPhoto()));
+      const result2 = await storePhoto(mockFile('same-name.jpg', await testPhoto()));
 
-      const result = await uploadToMemory(mockFile);
+      expect(result1?.url).not.toBe(result2?.url);
 
-      expect(result).toContain('my-recipe-photo.jpg');
+      await removePhotos(result1!.url, result2!.url);
+    });
 
-      // Clean up
-      const filePath = path.join(process.cwd(), result.replace('/', ''));
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+    it('should use the configured storage driver', async () => {
+      const stored: string[] = [];
+      const recordingDriver = { put: async (key: string) => { stored.push(key); } } as StorageDriver;
+      setStorageDriver(recordingDriver);
+      try {
+        const result = await storePhoto(mockFile('elsewhere.jpg', await testPhoto()));
+        expect(stored).toEqual(result!.variants.map(variant => variant.url.replace(/^\/objects\//, '')));
+      } finally {
+        setStorageDriver(null);
       }
     });
   });
@@ -407,55 +410,295 @@ describe('File Upload Integration (HIGH)', () => {
     });
   });
 
-  it('should handle filenames with spaces', async () => {
-    const mockFile = {
-      fieldname: 'photo',
-      originalname: 'my recipe photo.jpg',
-      encoding: '7bit',
-      mimetype: 'image/jpeg',
-      size: 1024,
-      buffer: Buffer.from('test data'),
-      stream: {} as any,
-      destination: '',
-      filename: '',
-      path: ''
-    };
+  it('should replace spaces in filenames', async () => {
+    const result = await storePhoto(mockFile('my recipe photo.jpg', await testPhoto()));
 
-    const result = await uploadToMemory(mockFile);
+    expect(result?.url).toMatch(/-my_recipe_photo\.jpg$/);
+    expect(isValidObjectKey(result!.url.replace(/^\/objects\//, ''))).toBe(true);
 
-    expect(result).toBeDefined();
-    expect(result).toContain('my recipe photo.jpg');
+    await removePhotos(result!.url);
+  });
 
-    // Clean up
-    const filePath = path.join(process.cwd(), result.replace('/', ''));
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
+  it('should keep dashes and underscores in filenames', async () => {
+    const result = await storePhoto(mockFile('recipe-2024_v1.jpg', await testPhoto()));
+
+    expect(result?.url).toContain('recipe-2024_v1.jpg');
+
+    await removePhotos(result!.url);
   });
 
-  it('should handle special characters in filenames', async () => {
-    const mockFile = {
-      fieldname: 'photo',
-      originalname: 'recipe-2024_v1.jpg',
-      encoding: '7bit',
-      mimetype: 'image/jpeg',
-      size: 1024,
-      buffer: Buffer.from('test data'),
-      stream: {} as any,
-      destination: '',
-      filename: '',
-      path: ''
-    };
+  it('should not let a filename leave the photo directory', async () => {
+    const result = await storePhoto(mockFile('../../escape.jpg', await testPhoto()));
+
+    expect(result?.url).toMatch(/^\/objects\/recipe-photos\/[^/]+-escape\.jpg$/);
 
-    const result = await uploadToMemory(mockFile);
+    await removePhotos(result!.url);
+  });
+});
 
-    expect(result).toBeDefined();
-    expect(result).toContain('recipe-2024_v1.jpg');
+describe('Storage Drivers (HIGH)', () => {
+  describe('object keys', () => {
+    it('should accept nested keys', () => {
+      expect(isValidObjectKey('recipe-photos/abc-pie.jpg')).toBe(true);
+    });
 
-    // Clean up
-    const filePath = path.join(process.cwd(), result.replace('/', ''));
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
+    it('should reject keys that could leave the store', () => {
+      for (const key of ['', '../secret', 'recipe-photos/../../secret', '/etc/passwd', 'a//b', 'a\\b', 'a/./b']) {
+        expect(isValidObjectKey(key)).toBe(false);
+      }
+    });
+  });
+
+  // The same behaviour is expected of every driver
+  function describeDriver(name: string, driver: () => StorageDriver) {
+    describe(`${name} driver`, () => {
+      const prefix = `driver-test-${Date.now()}/`;
+
+      afterEach(async () => {
+        for (const key of await driver().list(prefix)) {
+          await driver().delete(key);
+        }
+      });
+
+      it('should put, get and stat an object', async () => {
+        const photo = await testPhoto({ format: 'png' });
+        await driver().put(`${prefix}pie.png`, photo, 'image/png');
+
+        expect(await driver().get(`${prefix}pie.png`)).toEqual(photo);
+        const info = await driver().stat(`${prefix}pie.png`);
+        expect(info).toMatchObject({ size: photo.length, contentType: 'image/png' });
+        expect(info?.lastModified).toBeInstanceOf(Date);
+        expect(info?.etag).toMatch(/^"[^"]+"$/);
+      });
+
+      it('should stream an object', async () => {
+        await driver().put(`${prefix}stew.jpg`, Buffer.from('stew photo'), 'image/jpeg');
+
+        const stream = await driver().stream(`${prefix}stew.jpg`);
+        expect(stream).not.toBeNull();
+        expect(await readStream(stream!)).toBe('stew photo');
+      });
+
+      it('should stream part of an object', async () => {
+        await driver().put(`${prefix}stew.jpg`, Buffer.from('stew photo'), 'image/jpeg');
+
+        const stream = await driver().stream(`${prefix}stew.jpg`, { start: 2, end: 6 });
+        expect(await readStream(stream!)).toBe('ew ph');
+      });
+
+      it('should list objects by prefix', async () => {
+        await driver().put(`${prefix}a/one.jpg`, Buffer.from('1'), 'image/jpeg');
+        await driver().put(`${prefix}a/two.jpg`, Buffer.from('2'), 'image/jpeg');
+        await driver().put(`${prefix}b/three.jpg`, Buffer.from('3'), 'image/jpeg');
+
+        expect((await driver().list(`${prefix}a/`)).sort()).toEqual([`${prefix}a/one.jpg`, `${prefix}a/two.jpg`]);
+        expect(await driver().list(`${prefix}c/`)).toEqual([]);
+      });
+
+      it('should delete an object', async () => {
+        await driver().put(`${prefix}gone.jpg`, Buffer.from('gone'), 'image/jpeg');
+
+        await driver().delete(`${prefix}gone.jpg`);
+
+        expect(await driver().get(`${prefix}gone.jpg`)).toBeNull();
+        expect(await driver().list(prefix)).toEqual([]);
+      });
+
+      it('should report missing objects as null', async () => {
+        expect(await driver().get(`${prefix}missing.jpg`)).toBeNull();
+        expect(await driver().stat(`${prefix}missing.jpg`)).toBeNull();
+        expect(await driver().stream(`${prefix}missing.jpg`)).toBeNull();
+        await expect(driver().delete(`${prefix}missing.jpg`)).resolves.toBeUndefined();
+      });
+    });
+  }
+
+  describeDriver('local', () => getStorageDriver());
+
+  describe('local driver files', () => {
+    it('should take the content type from the bytes, not the name', async () => {
+      await getStorageDriver().put('type-test/photo.jpg', await testPhoto({ format: 'webp' }), 'image/webp');
+      await getStorageDriver().put('type-test/page.jpg', Buffer.from('<html></html>'), 'image/jpeg');
+
+      expect((await getStorageDriver().stat('type-test/photo.jpg'))?.contentType).toBe('image/webp');
+      expect((await getStorageDriver().stat('type-test/page.jpg'))?.contentType).toBeNull();
+
+      await getStorageDriver().delete('type-test/photo.jpg');
+      await getStorageDriver().delete('type-test/page.jpg');
+    });
+
+    it('should refuse keys outside its directory', async () => {
+      await expect(getStorageDriver().put('../outside.jpg', Buffer.from('x'), 'image/jpeg')).rejects.toThrow('Invalid object key');
+      await expect(getStorageDriver().get('recipe-photos/../../outside.jpg')).rejects.toThrow('Invalid object key');
+      expect(fs.existsSync(path.join(process.env.STORAGE_LOCAL_DIR!, '..', 'outside.jpg'))).toBe(false);
+    });
+  });
+
+  // An in-process stand-in for an S3-compatible service such as MinIO: path-style
+  // PUT/GET/HEAD/DELETE of objects (with single byte ranges) and ListObjectsV2
+  describe('s3', () => {
+    const objects = new Map<string, { data: Buffer; contentType: string; lastModified: Date }>();
+    let server: http.Server;
+    const savedEnv = { ...process.env };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const url = new URL(req.url!, 'http://localhost');
+        const [, bucket, ...keyParts] = url.pathname.split('/');
+        const key = keyParts.map(decodeURIComponent).join('/');
+        if (bucket !== 'test-bucket') {
+          res.writeHead(404).end();
+          return;
+        }
+
+        if (req.method === 'GET' && !key && url.searchParams.get('list-type') === '2') {
+          const prefix = url.searchParams.get('prefix') ?? '';
+          const keys = [...objects.keys()].filter(k => k.startsWith(prefix)).sort();
+          res.writeHead(200, { 'Content-Type': 'application/xml' });
+          res.end(`<?xml version="1.0" encoding="UTF-8"?><ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Name>${bucket}</Name><Prefix>${prefix}</Prefix><KeyCount>${keys.length}</KeyCount><IsTruncated>false</IsTruncated>${keys.map(k => `<Contents><Key>${k}</Key><Size>${objects.get(k)!.data.length}</Size></Contents>`).join('')}</ListBucketResult>`);
+          return;
+        }
+
+        if (req.method === 'PUT') {
+          const chunks: Buffer[] = [];
+          req.on('data', chunk => chunks.push(chunk));
+          req.on('end', () => {
+            objects.set(key, { data: Buffer.concat(chunks), contentType: req.headers['content-type'] ?? 'application/octet-stream', lastModified: new Date() });
+            res.writeHead(200, { ETag: '"etag"' }).end();
+          });
+          return;
+        }
+
+        if (req.method === 'DELETE') {
+          objects.delete(key);
+          res.writeHead(204).end();
+          return;
+        }
+
+        const object = objects.get(key);
+        const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+        if (!object) {
+          res.writeHead(404, { 'Content-Type': 'application/xml' });
+          res.end(req.method === 'HEAD' ? undefined : '<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>');
+          return;
+        }
+        const data = range ? object.data.subarray(Number(range[1]), Number(range[2]) + 1) : object.data;
+        res.writeHead(range ? 206 : 200, {
+          'Content-Type': object.contentType,
+          'Content-Length': data.length,
+          'Last-Modified': object.lastModified.toUTCString(),
+          ETag: '"etag"',
+          ...(range && { 'Content-Range': `bytes ${range[1]}-${range[2]}/${object.data.length}` }),
+        });
+        res.end(req.method === 'HEAD' ? undefined : data);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      Object.assign(process.env, {
+        STORAGE_DRIVER: 's3',
+        S3_BUCKET: 'test-bucket',
+        S3_ENDPOINT: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        S3_FORCE_PATH_STYLE: 'true',
+        S3_ACCESS_KEY_ID: 'test-access-key',
+        S3_SECRET_ACCESS_KEY: 'test-secret-key',
+      });
+    });
+
+    afterAll(async () => {
+      process.env = savedEnv;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    describeDriver('s3', () => getStorageDriver());
+
+    it('should store each variant with its content type', async () => {
+      const result = await storePhoto({ ...mockFile('tart.webp', await testPhoto({ format: 'webp' })), mimetype: 'image/webp' });
+
+      const contentTypes = result!.variants.map(variant => objects.get(variant.url.replace(/^\/objects\//, ''))?.contentType);
+      expect(contentTypes).toEqual(result!.variants.map(variant => `image/${variant.format}`));
+    });
+  });
+
+  describe('replit', () => {
+    const savedEnv = { ...process.env };
+
+    beforeAll(() => {
+      process.env.STORAGE_DRIVER = 'replit';
+      process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID = 'replit-bucket';
+    });
+
+    afterEach(() => {
+      replitBucket.objects.clear();
+      replitBucket.downloads = 0;
+    });
+
+    afterAll(() => {
+      process.env = { ...savedEnv };
+    });
+
+    it('should look up objects it stored without downloading them', async () => {
+      const photo = await testPhoto();
+      await getStorageDriver().put('recipe-photos/stored.jpg', photo, 'image/jpeg');
+
+      expect(await getStorageDriver().stat('recipe-photos/stored.jpg')).toMatchObject({ size: photo.length, contentType: 'image/jpeg' });
+      expect(replitBucket.downloads).toBe(0);
+    });
+
+    it('should download an object stored elsewhere only for its first lookup', async () => {
+      const photo = await testPhoto();
+      replitBucket.objects.set('recipe-photos/elsewhere.jpg', photo);
+
+      const first = await getStorageDriver().stat('recipe-photos/elsewhere.jpg');
+      const second = await getStorageDriver().stat('recipe-photos/elsewhere.jpg');
+
+      expect(second).toEqual(first);
+      expect(first).toMatchObject({ size: photo.length, contentType: 'image/jpeg', lastModified: null });
+      expect(replitBucket.downloads).toBe(1);
+    });
+
+    it('should not report an object deleted elsewhere', async () => {
+      await getStorageDriver().put('recipe-photos/deleted.jpg', Buffer.from('photo'), 'image/jpeg');
+      replitBucket.objects.delete('recipe-photos/deleted.jpg');
+
+      expect(await getStorageDriver().stat('recipe-photos/deleted.jpg')).toBeNull();
+    });
+  });
+
+  describe('driver selection', () => {
+    const savedEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...savedEnv };
+    });
+
+    it('should use the driver named by STORAGE_DRIVER', () => {
+      for (const name of ['local', 's3', 'gcs', 'replit']) {
+        process.env.STORAGE_DRIVER = name;
+        expect(getStorageDriver().name).toBe(name);
+      }
+    });
+
+    it('should reject an unknown STORAGE_DRIVER', () => {
+      process.env.STORAGE_DRIVER = 'ftp';
+      expect(() => getStorageDriver()).toThrow('Unknown STORAGE_DRIVER "ftp" (expected local, s3, gcs, replit)');
+    });
+
+    it('should use Replit Object Storage when its bucket is configured', () => {
+      delete process.env.STORAGE_DRIVER;
+      process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID = 'replit-bucket';
+      expect(getStorageDriver().name).toBe('replit');
+    });
+
+    it('should fall back to local disk', () => {
+      delete process.env.STORAGE_DRIVER;
+      delete process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
+      expect(getStorageDriver().name).toBe('local');
+    });
+
+    it('should fail clearly when a cloud driver is missing its bucket', async () => {
+      process.env.STORAGE_DRIVER = 'gcs';
+      delete process.env.GCS_BUCKET;
+      await expect(getStorageDriver().get('recipe-photos/x.jpg')).rejects.toThrow('GCS_BUCKET environment variable not set');
+    });
   });
 });
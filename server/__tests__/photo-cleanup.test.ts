@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+import { photos, type User } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
+import { storePhoto, getStorageDriver, setStorageDriver, type StorageDriver } from '../object-storage';
+import { cleanUpPhotos, formatPhotoCleanupReport, schedulePhotoCleanup } from '../photo-cleanup';
+import { testPhoto } from './image-helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function uniqueUsername(base: string): string {
+  return `${base}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+let user: User;
+let uploadsDir: string;
+const storageDir = process.env.STORAGE_LOCAL_DIR;
+
+function storedPath(photoUrl: string): string {
+  return path.join(process.env.STORAGE_LOCAL_DIR!, photoUrl.replace(/^\/objects\//, ''));
+}
+
+// Stores a photo with its variants and record, as an upload does
+async function uploadPhoto(): Promise<{ url: string; variantUrls: string[] }> {
+  const data = await testPhoto();
+  const photo = await storePhoto({ originalname: 'dinner.jpg', buffer: data, size: data.length } as Express.Multer.File);
+  await storage.createPhoto(user.id, photo!);
+  return { url: photo!.url, variantUrls: photo!.variants.map(variant => variant.url) };
+}
+
+// Makes a photo's files and record look as if they were uploaded days ago
+async function backdate(photo: { url: string; variantUrls: string[] }, days = 2) {
+  const then = new Date(Date.now() - days * DAY);
+  for (const url of photo.variantUrls) {
+    fs.utimesSync(storedPath(url), then, then);
+  }
+  await db.update(photos).set({ createdAt: then }).where(eq(photos.url, photo.url));
+}
+
+function writeUpload(name: string, days = 2): string {
+  const filePath = path.join(uploadsDir, name);
+  fs.writeFileSync(filePath, 'legacy photo');
+  const then = new Date(Date.now() - days * DAY);
+  fs.utimesSync(filePath, then, then);
+  return filePath;
+}
+
+async function createRecipe(photo: string | null) {
+  return storage.createRecipe({
+    name: 'Cleanup Recipe',
+    heroIngredient: 'Chicken',
+    cookTime: 30,
+    servings: 4,
+    ingredients: 'Chicken',
+    instructions: 'Cook it',
+    photo,
+    cookingLog: [],
+    environment: 'test'
+  }, user.id);
+}
+
+async function recordExists(url: string): Promise<boolean> {
+  return (await db.select().from(photos).where(eq(photos.url, url))).length > 0;
+}
+
+describe('Photo Cleanup (HIGH)', () => {
+  beforeAll(async () => {
+    const username = uniqueUsername('cleanupuser');
+    user = await storage.createUser({ username, email: `${username}@example.com`, password: 'hashed' });
+  });
+
+  // Each test gets empty photo storage and uploads directories
+  beforeEach(() => {
+    process.env.STORAGE_LOCAL_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-photos-'));
+    uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-uploads-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(process.env.STORAGE_LOCAL_DIR!, { recursive: true, force: true });
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+    process.env.STORAGE_LOCAL_DIR = storageDir;
+    setStorageDriver(null);
+  });
+
+  it('should report unreferenced photos without changing anything', async () => {
+    const orphan = await uploadPhoto();
+    await backdate(orphan);
+    const orphanUpload = writeUpload('old-upload.jpg');
+
+    const report = await cleanUpPhotos({ action: 'report', uploadsDir });
+
+    expect(report.checked).toBe(10);
+    expect(report.removed.map(file => `${file.location}:${file.key}`)).toEqual(expect.arrayContaining([
+      ...orphan.variantUrls.map(url => `storage:${url.replace(/^\/objects\//, '')}`),
+      'uploads:old-upload.jpg',
+    ]));
+    expect(report.records).toContain(orphan.url);
+    for (const url of orphan.variantUrls) {
+      expect(fs.existsSync(storedPath(url))).toBe(true);
+    }
+    expect(fs.existsSync(orphanUpload)).toBe(true);
+    expect(await recordExists(orphan.url)).toBe(true);
+    expect(formatPhotoCleanupReport(report)).toContain('Would remove 10 unreferenced files');
+  });
+
+  it('should delete unreferenced photos, their variants and records', async () => {
+    const orphan = await uploadPhoto();
+    await backdate(orphan);
+    const orphanUpload = writeUpload('old-upload.jpg');
+
+    const report = await cleanUpPhotos({ action: 'delete', uploadsDir });
+
+    expect(report.removed).toHaveLength(10);
+    expect(report.failed).toEqual([]);
+    for (const url of orphan.variantUrls) {
+      expect(fs.existsSync(storedPath(url))).toBe(false);
+    }
+    expect(fs.existsSync(orphanUpload)).toBe(false);
+    expect(await recordExists(orphan.url)).toBe(false);
+  });
+
+  it('should keep photos referenced by recipes and cooking sessions', async () => {
+    const cover = await uploadPhoto();
+    const sessionPhoto = await uploadPhoto();
+    await backdate(cover);
+    await backdate(sessionPhoto);
+    const legacyUpload = writeUpload('legacy-cover.jpg');
+    const recipe = await createRecipe(cover.url);
+    await storage.addCookingLog(recipe.id, { timestamp: new Date().toISOString(), notes: '', rating: 5, photos: [sessionPhoto.url] }, user.id);
+    const legacyRecipe = await createRecipe('/uploads/legacy-cover.jpg');
+
+    const report = await cleanUpPhotos({ action: 'delete', uploadsDir });
+
+    expect(report.checked).toBe(19);
+    expect(report.removed).toEqual([]);
+    for (const url of [...cover.variantUrls, ...sessionPhoto.variantUrls]) {
+      expect(fs.existsSync(storedPath(url))).toBe(true);
+    }
+    expect(fs.existsSync(legacyUpload)).toBe(true);
+    expect(await recordExists(cover.url)).toBe(true);
+
+    await storage.deleteRecipe(recipe.id, user.id);
+    await storage.deleteRecipe(legacyRecipe.id, user.id);
+  });
+
+  it('should move unreferenced photos to quarantine and keep their records', async () => {
+    const orphan = await uploadPhoto();
+    await backdate(orphan);
+    writeUpload('old-upload.jpg');
+
+    const report = await cleanUpPhotos({ action: 'quarantine', uploadsDir });
+
+    expect(report.removed).toHaveLength(10);
+    for (const url of orphan.variantUrls) {
+      expect(fs.existsSync(storedPath(url))).toBe(false);
+      expect(fs.existsSync(storedPath(url.replace(/^\/objects\//, '/objects/quarantine/')))).toBe(true);
+    }
+    expect(fs.existsSync(path.join(uploadsDir, 'old-upload.jpg'))).toBe(false);
+    expect(fs.readFileSync(path.join(uploadsDir, 'quarantine', 'old-upload.jpg'), 'utf8')).toBe('legacy photo');
+    expect(await recordExists(orphan.url)).toBe(true);
+
+    // Quarantined photos are not looked at again
+    expect((await cleanUpPhotos({ action: 'delete', uploadsDir })).removed).toHaveLength(0);
+  });
+
+  it('should leave unreferenced photos alone within the grace period', async () => {
+    const recent = await uploadPhoto();
+    const recentUpload = writeUpload('new-upload.jpg', 0);
+    const older = await uploadPhoto();
+    await backdate(older, 3);
+
+    const report = await cleanUpPhotos({ action: 'delete', gracePeriodHours: 24 * 4, uploadsDir });
+
+    expect(report.removed).toEqual([]);
+    expect(report.recent).toHaveLength(19);
+    for (const url of [...recent.variantUrls, ...older.variantUrls]) {
+      expect(fs.existsSync(storedPath(url))).toBe(true);
+    }
+    expect(fs.existsSync(recentUpload)).toBe(true);
+    expect(await recordExists(recent.url)).toBe(true);
+    expect(await recordExists(older.url)).toBe(true);
+  });
+
+  it('should keep the record of a photo while any of its files is kept', async () => {
+    const photo = await uploadPhoto();
+    await backdate(photo);
+    // Its record is old, but one of its files was written just now
+    const then = new Date();
+    fs.utimesSync(storedPath(photo.variantUrls[0]), then, then);
+
+    const report = await cleanUpPhotos({ action: 'delete', uploadsDir });
+
+    expect(report.removed).toHaveLength(8);
+    expect(report.recent.map(file => `/objects/${file.key}`)).toEqual([photo.variantUrls[0]]);
+    expect(report.records).not.toContain(photo.url);
+    expect(await recordExists(photo.url)).toBe(true);
+  });
+
+  it('should keep the record of a photo whose files could not be deleted', async () => {
+    const photo = await uploadPhoto();
+    await backdate(photo);
+    const local = getStorageDriver();
+    setStorageDriver({ ...local, delete: async () => { throw new Error('connect ECONNREFUSED'); } });
+
+    const report = await cleanUpPhotos({ action: 'delete', uploadsDir });
+
+    expect(report.failed).toHaveLength(9);
+    expect(report.records).not.toContain(photo.url);
+    expect(await recordExists(photo.url)).toBe(true);
+  });
+
+  it('should drop old records whose files are all gone already', async () => {
+    const photo = await uploadPhoto();
+    await backdate(photo);
+    for (const url of photo.variantUrls) {
+      fs.rmSync(storedPath(url));
+    }
+
+    const report = await cleanUpPhotos({ action: 'delete', uploadsDir });
+
+    expect(report.records).toContain(photo.url);
+    expect(await recordExists(photo.url)).toBe(false);
+  });
+
+  it('should date objects by their record when storage has no dates', async () => {
+    const local = getStorageDriver();
+    const undated: StorageDriver = { ...local, stat: async key => {
+      const info = await local.stat(key);
+      return info && { ...info, lastModified: null };
+    } };
+    setStorageDriver(undated);
+    const recorded = await uploadPhoto();
+    await backdate(recorded);
+    await local.put('recipe-photos/before-records.jpg', await testPhoto(), 'image/jpeg');
+
+    const report = await cleanUpPhotos({ action: 'delete', uploadsDir });
+
+    expect(report.removed).toHaveLength(9);
+    expect(report.undated.map(file => file.key)).toEqual(['recipe-photos/before-records.jpg']);
+    expect(fs.existsSync(storedPath('/objects/recipe-photos/before-records.jpg'))).toBe(true);
+
+    const included = await cleanUpPhotos({ action: 'delete', includeUndated: true, uploadsDir });
+
+    expect(included.removed.map(file => file.key)).toEqual(['recipe-photos/before-records.jpg']);
+    expect(fs.existsSync(storedPath('/objects/recipe-photos/before-records.jpg'))).toBe(false);
+  });
+
+  describe('schedulePhotoCleanup', () => {
+    afterEach(() => {
+      delete process.env.PHOTO_CLEANUP_SCHEDULE;
+      delete process.env.PHOTO_CLEANUP_INTERVAL_HOURS;
+    });
+
+    it('should not schedule anything unless asked to', () => {
+      expect(schedulePhotoCleanup()).toBeNull();
+    });
+
+    it('should schedule the configured action', () => {
+      process.env.PHOTO_CLEANUP_SCHEDULE = 'report';
+      const timer = schedulePhotoCleanup();
+
+      expect(timer).not.toBeNull();
+      clearInterval(timer!);
+    });
+
+    it('should refuse an unknown action', () => {
+      process.env.PHOTO_CLEANUP_SCHEDULE = 'purge';
+
+      expect(() => schedulePhotoCleanup()).toThrow('Unknown PHOTO_CLEANUP_SCHEDULE "purge" (expected report, quarantine, delete)');
+    });
+
+    it('should refuse an interval that is not a number of hours', () => {
+      process.env.PHOTO_CLEANUP_SCHEDULE = 'delete';
+      process.env.PHOTO_CLEANUP_INTERVAL_HOURS = 'daily';
+
+      expect(() => schedulePhotoCleanup()).toThrow('PHOTO_CLEANUP_INTERVAL_HOURS must be a number of hours, not "daily"');
+    });
+  });
+});
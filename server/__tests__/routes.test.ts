@@ -1,9 +1,44 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import { registerRoutes } from '../routes';
+import { generateApiToken } from '../auth';
+import { storage } from '../storage';
+import { lastMailTo, linkParam } from './mail-helpers';
+import { withCsrf } from './csrf-helpers';
+import { testPhoto, withDimensions } from './image-helpers';
+import { deleteFromObjectStorage, getStorageDriver, setStorageDriver, type StorageDriver } from '../object-storage';
 import path from 'path';
-import fs from 'fs';
+import zlib from 'zlib';
+
+// Remove photos a test left in photo storage
+async function removeUploadedPhotos(photoUrls: string[]) {
+  for (const photoUrl of photoUrls) {
+    await deleteFromObjectStorage(photoUrl);
+  }
+}
+
+// Read a zip's files from its central directory (enough for the data export)
+function readZip(zip: Buffer): Record<string, Buffer> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const files: Record<string, Buffer> = {};
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    files[name] = method === 8 ? zlib.inflateRawSync(data) : data;
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
 
 // Create test app
 async function createTestApp() {
@@ -21,6 +56,7 @@ async function createAuthenticatedUser(app: express.Express, username: string) {
 
   const response = await request(app)
     .post('/api/register')
+    .use(withCsrf())
     .send({
       username: uniqueUsername,
       email: `${uniqueUsername}@example.com`,
@@ -101,7 +137,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const response = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Test Recipe',
           heroIngredient: 'Chicken',
@@ -119,9 +155,92 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       expect(response.body.cookingLog).toEqual([]);
     });
 
+    it('should return structured ingredients parsed from text', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'parseuser');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Pancakes',
+          heroIngredient: 'Dessert',
+          cookTime: 20,
+          servings: 4,
+          ingredients: '1 1/2 cups flour\n2 eggs, beaten',
+          instructions: 'Mix and fry'
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.ingredients).toBe('1 1/2 cups flour\n2 eggs, beaten');
+      expect(response.body.ingredientList).toEqual([
+        { quantity: 1.5, quantityMax: null, unit: 'cup', item: 'flour', note: null, group: null },
+        { quantity: 2, quantityMax: null, unit: null, item: 'eggs', note: 'beaten', group: null },
+      ]);
+    });
+
+    it('should accept a structured ingredient list and render the text', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'structureduser');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Tomato Pasta',
+          heroIngredient: 'Pasta',
+          cookTime: 25,
+          servings: 2,
+          ingredientList: [
+            { quantity: 200, unit: 'g', item: 'spaghetti' },
+            { quantity: 2, unit: 'clove', item: 'garlic', note: 'sliced', group: 'For the sauce' },
+          ],
+          instructions: 'Boil pasta, make sauce'
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.ingredients).toBe('200 g spaghetti\n\nFor the sauce:\n2 cloves garlic, sliced');
+      expect(response.body.ingredientList).toHaveLength(2);
+      expect(response.body.ingredientList[1].group).toBe('For the sauce');
+    });
+
+    it('should reject missing ingredients', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'noingredients');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Nothing',
+          heroIngredient: 'Vegetable',
+          cookTime: 5,
+          servings: 1,
+          instructions: 'Nothing to do'
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject invalid structured ingredients', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'badingredients');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Bad List',
+          heroIngredient: 'Vegetable',
+          cookTime: 5,
+          servings: 1,
+          ingredientList: [{ quantity: -1, item: '' }],
+          instructions: 'Nothing to do'
+        });
+
+      expect(response.status).toBe(400);
+    });
+
     it('should reject when not authenticated', async () => {
       const response = await request(app)
         .post('/api/recipes')
+        .use(withCsrf())
         .send({
           name: 'Test Recipe',
           heroIngredient: 'Chicken',
@@ -140,7 +259,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const response = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Invalid Cook Time',
           heroIngredient: 'Beef',
@@ -153,12 +272,40 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       expect(response.status).toBe(400);
     });
 
+    it('should convert units with ?units', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'convertuser');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'American Cookies',
+          heroIngredient: 'Dessert',
+          cookTime: 12,
+          servings: 24,
+          ingredients: '2 cups flour\n1 tsp baking soda',
+          instructions: 'Bake at 375°F for 10 minutes'
+        });
+
+      const response = await withEventualConsistencyRetry(
+        () => request(app).get(`/api/recipes/${createResponse.body.id}?units=metric`),
+        (response) => response.status === 404 || response.status === 500
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.ingredients).toBe('240 g flour\n1 tsp baking soda');
+      expect(response.body.instructions).toBe('Bake at 190°C for 10 minutes');
+
+      const invalid = await request(app).get(`/api/recipes/${createResponse.body.id}?units=cubits`);
+      expect(invalid.status).toBe(400);
+    });
+
     it('should reject invalid servings', async () => {
       const { cookies } = await createAuthenticatedUser(app, 'servingsuser');
 
       const response = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Invalid Servings',
           heroIngredient: 'Fish',
@@ -178,7 +325,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             name: 'Invalid Ingredient',
             heroIngredient: 'InvalidType',
@@ -200,7 +347,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const { cookies } = await createAuthenticatedUser(app, 'getuser');
       await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'User Recipe',
           heroIngredient: 'Chicken',
@@ -228,7 +375,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Find Me',
           heroIngredient: 'Pork',
@@ -250,6 +397,41 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       expect(response.body.name).toBe('Find Me');
     });
 
+    it('should rescale ingredients with ?servings', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'scaleuser');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Scalable Cake',
+          heroIngredient: 'Dessert',
+          cookTime: 60,
+          servings: 4,
+          ingredients: '1 cup sugar\n3 eggs\n250 g flour\nSalt',
+          instructions: 'Bake it'
+        });
+
+      const response = await withEventualConsistencyRetry(
+        () => request(app).get(`/api/recipes/${createResponse.body.id}?servings=6`),
+        (response) => response.status === 404 || response.status === 500
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.servings).toBe(6);
+      expect(response.body.originalServings).toBe(4);
+      expect(response.body.ingredientList.map((i: any) => i.quantity)).toEqual([1.5, 5, 375, null]);
+      expect(response.body.ingredients).toBe('1 1/2 cups sugar\n5 eggs\n375 g flour\nSalt');
+    });
+
+    it('should reject invalid servings', async () => {
+      const response = await request(app).get('/api/recipes/00000000-0000-0000-0000-000000000000?servings=0');
+      expect(response.status).toBe(400);
+
+      const nonNumeric = await request(app).get('/api/recipes/00000000-0000-0000-0000-000000000000?servings=lots');
+      expect(nonNumeric.status).toBe(400);
+    });
+
     it('should return 404 for non-existent recipe', async () => {
       // Retry on 500 errors
       const response = await withEventualConsistencyRetry(
@@ -272,7 +454,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const createResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             name: 'Original Name',
             heroIngredient: 'Chicken',
@@ -290,7 +472,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .patch(`/api/recipes/${recipeId}`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             name: 'Updated Name',
             cookTime: 45
@@ -309,7 +491,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Test Recipe',
           heroIngredient: 'Beef',
@@ -326,6 +508,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const response = await request(app)
         .patch(`/api/recipes/${recipeId}`)
+        .use(withCsrf())
         .send({ name: 'Hacked' });
 
       expect(response.status).toBe(401);
@@ -341,7 +524,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const createResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', ownerCookies)
+          .use(withCsrf(ownerCookies))
           .send({
             name: 'Owner Recipe',
             heroIngredient: 'Fish',
@@ -367,7 +550,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .patch(`/api/recipes/${recipeId}`)
-          .set('Cookie', attackerCookies)
+          .use(withCsrf(attackerCookies))
           .send({ name: 'Hacked Recipe' }),
         (res) => res.status === 500
       );
@@ -376,12 +559,91 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       expect(response.body.error).toBe('Not authorized to modify this recipe');
     }, 20000);
 
+    it('should accept multipart form fields from the edit form', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'patchformuser');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Form Recipe',
+          heroIngredient: 'Vegetable',
+          cookTime: 20,
+          servings: 2,
+          ingredients: '1 cup rice',
+          instructions: 'Cook it'
+        });
+
+      const response = await request(app)
+        .patch(`/api/recipes/${createResponse.body.id}`)
+        .use(withCsrf(cookies))
+        .field('cookTime', '25')
+        .field('servings', '3')
+        .field('ingredients', '2 cups rice\n1 tsp salt');
+
+      expect(response.status).toBe(200);
+      expect(response.body.cookTime).toBe(25);
+      expect(response.body.servings).toBe(3);
+      expect(response.body.name).toBe('Form Recipe'); // Unchanged
+      expect(response.body.ingredientList).toHaveLength(2);
+    });
+
+    it('should reject non-numeric cook time from form data', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'patchbadform');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Form Recipe',
+          heroIngredient: 'Vegetable',
+          cookTime: 20,
+          servings: 2,
+          ingredients: 'Rice',
+          instructions: 'Cook it'
+        });
+
+      const response = await request(app)
+        .patch(`/api/recipes/${createResponse.body.id}`)
+        .use(withCsrf(cookies))
+        .field('cookTime', 'soon');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should remove the photo when removePhoto is set', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'patchphotouser');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Photo Recipe',
+          heroIngredient: 'Pasta',
+          cookTime: 15,
+          servings: 2,
+          ingredients: 'Pasta',
+          instructions: 'Boil it',
+          photo: 'https://example.com/pasta.jpg'
+        });
+      expect(createResponse.body.photo).toBe('https://example.com/pasta.jpg');
+
+      const response = await request(app)
+        .patch(`/api/recipes/${createResponse.body.id}`)
+        .use(withCsrf(cookies))
+        .field('removePhoto', 'true');
+
+      expect(response.status).toBe(200);
+      expect(response.body.photo).toBeNull();
+      expect(response.body.name).toBe('Photo Recipe');
+    });
+
     it('should return 404 for non-existent recipe', async () => {
       const { cookies } = await createAuthenticatedUser(app, 'patch404user');
 
       const response = await request(app)
         .patch('/api/recipes/00000000-0000-0000-0000-000000000000')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({ name: 'Updated' });
 
       expect(response.status).toBe(404);
@@ -394,7 +656,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Delete Me',
           heroIngredient: 'Pasta',
@@ -410,7 +672,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .delete(`/api/recipes/${recipeId}`)
-          .set('Cookie', cookies),
+          .use(withCsrf(cookies)),
         (response) => response.status === 404 || response.status === 500
       );
 
@@ -427,7 +689,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Protected',
           heroIngredient: 'Vegetable',
@@ -443,7 +705,8 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       await waitForPropagation();
 
       const response = await request(app)
-        .delete(`/api/recipes/${recipeId}`);
+        .delete(`/api/recipes/${recipeId}`)
+        .use(withCsrf());
 
       expect(response.status).toBe(401);
       expect(response.body.error).toBe('Authentication required');
@@ -459,7 +722,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const createResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', ownerCookies)
+          .use(withCsrf(ownerCookies))
           .send({
             name: 'Protected Recipe',
             heroIngredient: 'Dessert',
@@ -485,7 +748,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .delete(`/api/recipes/${recipeId}`)
-          .set('Cookie', attackerCookies),
+          .use(withCsrf(attackerCookies)),
         (res) => res.status === 500
       );
 
@@ -502,7 +765,7 @@ describe('Recipe CRUD Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .delete('/api/recipes/00000000-0000-0000-0000-000000000000')
-          .set('Cookie', cookies),
+          .use(withCsrf(cookies)),
         (res) => res.status === 500
       );
 
@@ -526,7 +789,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Log Recipe',
           heroIngredient: 'Chicken',
@@ -544,7 +807,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'It was delicious!',
@@ -567,7 +830,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Average Recipe',
           heroIngredient: 'Beef',
@@ -583,7 +846,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'Good',
@@ -596,7 +859,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'Great!',
@@ -620,7 +883,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       const createResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', ownerCookies)
+          .use(withCsrf(ownerCookies))
           .send({
             name: 'Protected Log Recipe',
             heroIngredient: 'Fish',
@@ -646,7 +909,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', otherCookies)
+          .use(withCsrf(otherCookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'Hacked',
@@ -665,7 +928,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Req Recipe',
           heroIngredient: 'Pasta',
@@ -681,7 +944,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             notes: 'Missing timestamp and rating'
           }),
@@ -690,9 +953,178 @@ describe('Cooking Log Operations (CRITICAL)', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should keep uploaded photos on the entry without replacing the recipe photo', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'sessionphotos');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Photo Log Recipe',
+          heroIngredient: 'Pastry',
+          cookTime: 50,
+          servings: 8,
+          ingredients: 'Flour\nButter',
+          instructions: 'Bake it',
+          photo: 'https://example.com/cover.jpg'
+        });
+      const recipeId = createResponse.body.id;
+
+      await waitForPropagation();
+
+      const response = await request(app)
+        .post(`/api/recipes/${recipeId}/cooking-log`)
+        .use(withCsrf(cookies))
+        .field('timestamp', new Date().toISOString())
+        .field('notes', 'Laminated better this time')
+        .field('rating', '4')
+        .attach('photos', await testPhoto(), 'crumb.jpg')
+        .attach('photos', await testPhoto({ format: 'png' }), 'layers.png');
+
+      const photos: string[] = response.body.cookingLog?.[0]?.photos ?? [];
+      await removeUploadedPhotos(photos);
+
+      expect(response.status).toBe(200);
+      expect(response.body.photo).toBe('https://example.com/cover.jpg');
+      expect(response.body.cookingLog[0].rating).toBe(4);
+      expect(photos).toHaveLength(2);
+      expect(response.body.rating).toBe(4);
+    });
+
+    it('should reject a rating outside 1-5', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'badrating');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Rating Recipe',
+          heroIngredient: 'Pasta',
+          cookTime: 15,
+          servings: 2,
+          ingredients: 'Pasta',
+          instructions: 'Boil it'
+        });
+
+      const response = await request(app)
+        .post(`/api/recipes/${createResponse.body.id}/cooking-log`)
+        .use(withCsrf(cookies))
+        .send({
+          timestamp: new Date().toISOString(),
+          notes: 'Off the scale',
+          rating: 9
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Rating must be a whole number from 1 to 5');
+    });
+  });
+
+  describe('PATCH /api/recipes/:id/cooking-log/:entryId', () => {
+    async function createLoggedRecipe(cookies: string[]) {
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Edit Log Recipe',
+          heroIngredient: 'Pork',
+          cookTime: 90,
+          servings: 6,
+          ingredients: 'Pork shoulder',
+          instructions: 'Roast it'
+        });
+      const recipeId = createResponse.body.id;
+
+      const logResponse = await withEventualConsistencyRetry(
+        () => request(app)
+          .post(`/api/recipes/${recipeId}/cooking-log`)
+          .use(withCsrf(cookies))
+          .send({
+            timestamp: new Date().toISOString(),
+            notes: 'Cooked this recipe',
+            rating: 3
+          }),
+        (response) => response.status === 404
+      );
+
+      return { recipeId, entryId: logResponse.body.cookingLog[0].id as string };
+    }
+
+    it('should correct notes, rating and date', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'editlogowner');
+      const { recipeId, entryId } = await createLoggedRecipe(cookies);
+
+      const response = await request(app)
+        .patch(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(cookies))
+        .send({
+          notes: 'Added smoked paprika and an extra 20 minutes',
+          rating: 5,
+          timestamp: '2024-05-04T19:30:00.000Z'
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.cookingLog[0]).toEqual({
+        id: entryId,
+        notes: 'Added smoked paprika and an extra 20 minutes',
+        rating: 5,
+        timestamp: '2024-05-04T19:30:00.000Z'
+      });
+      expect(response.body.rating).toBe(5);
+    });
+
+    it('should validate the update', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'editlogvalid');
+      const { recipeId, entryId } = await createLoggedRecipe(cookies);
+
+      const badRating = await request(app)
+        .patch(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(cookies))
+        .send({ rating: 6 });
+      expect(badRating.status).toBe(400);
+
+      const badDate = await request(app)
+        .patch(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(cookies))
+        .send({ timestamp: 'last tuesday' });
+      expect(badDate.status).toBe(400);
+
+      const empty = await request(app)
+        .patch(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(cookies))
+        .send({});
+      expect(empty.status).toBe(400);
+    });
+
+    it('should return 409 when the entry no longer exists', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'editlogstale');
+      const { recipeId } = await createLoggedRecipe(cookies);
+
+      const response = await request(app)
+        .patch(`/api/recipes/${recipeId}/cooking-log/no-such-entry`)
+        .use(withCsrf(cookies))
+        .send({ rating: 4 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cooking log entry no longer exists');
+    });
+
+    it('should reject when not owner', async () => {
+      const owner = await createAuthenticatedUser(app, 'editlogowner2');
+      const { recipeId, entryId } = await createLoggedRecipe(owner.cookies);
+      const hacker = await createAuthenticatedUser(app, 'editloghacker');
+
+      const response = await request(app)
+        .patch(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(hacker.cookies))
+        .send({ rating: 1 });
+
+      expect(response.status).toBe(403);
+    });
   });
 
-  describe('DELETE /api/recipes/:id/cooking-log/:index', () => {
+  describe('DELETE /api/recipes/:id/cooking-log/:entryId', () => {
     // Skipped due to extreme Neon serverless eventual consistency lag
     // See docs/troubleshooting/neon_consistency.md
     it('should remove cooking log entry', async () => {
@@ -700,7 +1132,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'Remove Log Recipe',
           heroIngredient: 'Vegetable',
@@ -716,7 +1148,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'First',
@@ -725,10 +1157,10 @@ describe('Cooking Log Operations (CRITICAL)', () => {
         (response) => response.status === 404
       );
 
-      await withEventualConsistencyRetry(
+      const secondResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'Second',
@@ -736,12 +1168,13 @@ describe('Cooking Log Operations (CRITICAL)', () => {
           }),
         (response) => response.status === 404
       );
+      const entryId = secondResponse.body.cookingLog[0].id;
 
-      // Remove first entry (index 0) with retry for eventual consistency
+      // Remove the newest entry with retry for eventual consistency
       const response = await withEventualConsistencyRetry(
         () => request(app)
-          .delete(`/api/recipes/${recipeId}/cooking-log/0`)
-          .set('Cookie', cookies),
+          .delete(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+          .use(withCsrf(cookies)),
         (response) => response.status === 404 || response.status === 500
       );
 
@@ -759,7 +1192,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       const createResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             name: 'Recalc Recipe',
             heroIngredient: 'Dessert',
@@ -778,18 +1211,19 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       await waitForPropagation();
 
       // Add two entries: rating 3 and 5
-      await request(app)
+      const okayResponse = await request(app)
         .post(`/api/recipes/${recipeId}/cooking-log`)
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           timestamp: new Date().toISOString(),
           notes: 'Okay',
           rating: 3
         });
+      const okayId = okayResponse.body.cookingLog[0].id;
 
       await request(app)
         .post(`/api/recipes/${recipeId}/cooking-log`)
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           timestamp: new Date().toISOString(),
           notes: 'Great',
@@ -803,8 +1237,8 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       // Average is 4, remove rating 3 entry
       const deleteResponse = await withEventualConsistencyRetry(
         () => request(app)
-          .delete(`/api/recipes/${recipeId}/cooking-log/1`)
-          .set('Cookie', cookies),
+          .delete(`/api/recipes/${recipeId}/cooking-log/${okayId}`)
+          .use(withCsrf(cookies)),
         (response) => response.status === 500 || response.status === 404
       );
 
@@ -833,7 +1267,7 @@ describe('Cooking Log Operations (CRITICAL)', () => {
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', owner.cookies)
+        .use(withCsrf(owner.cookies))
         .send({
           name: 'Protected Remove Recipe',
           heroIngredient: 'Seafood',
@@ -849,10 +1283,10 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       await waitForPropagation();
 
       // Add cooking log with retry for eventual consistency
-      await withEventualConsistencyRetry(
+      const logResponse = await withEventualConsistencyRetry(
         () => request(app)
           .post(`/api/recipes/${recipeId}/cooking-log`)
-          .set('Cookie', owner.cookies)
+          .use(withCsrf(owner.cookies))
           .send({
             timestamp: new Date().toISOString(),
             notes: 'Test',
@@ -860,26 +1294,27 @@ describe('Cooking Log Operations (CRITICAL)', () => {
           }),
         (response) => response.status === 404
       );
+      const entryId = logResponse.body.cookingLog[0].id;
 
       // Try to delete with different user - should get 403 when visible
       const response = await withEventualConsistencyRetry(
         () => request(app)
-          .delete(`/api/recipes/${recipeId}/cooking-log/0`)
-          .set('Cookie', hacker.cookies),
+          .delete(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+          .use(withCsrf(hacker.cookies)),
         (response) => response.status === 404
       );
 
       expect(response.status).toBe(403);
     });
 
-    it('should handle invalid index', async () => {
-      const { cookies } = await createAuthenticatedUser(app, 'invalidowner');
+    it('should return 409 when the entry no longer exists', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'staleowner');
 
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
-          name: 'Invalid Index Recipe',
+          name: 'Stale Entry Recipe',
           heroIngredient: 'Chicken',
           cookTime: 30,
           servings: 4,
@@ -892,27 +1327,584 @@ describe('Cooking Log Operations (CRITICAL)', () => {
       // Wait for recipe to propagate before attempting to delete cooking log
       await waitForPropagation();
 
+      const logResponse = await request(app)
+        .post(`/api/recipes/${recipeId}/cooking-log`)
+        .use(withCsrf(cookies))
+        .send({
+          timestamp: new Date().toISOString(),
+          notes: 'Deleted twice',
+          rating: 4
+        });
+      const entryId = logResponse.body.cookingLog[0].id;
+
+      // Simulates a second tab deleting the same entry
+      const first = await request(app)
+        .delete(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(cookies));
+      expect(first.status).toBe(200);
+
       const response = await request(app)
-        .delete(`/api/recipes/${recipeId}/cooking-log/0`)
-        .set('Cookie', cookies);
+        .delete(`/api/recipes/${recipeId}/cooking-log/${entryId}`)
+        .use(withCsrf(cookies));
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Cooking log entry no longer exists');
+    });
+
+    it('should return 404 for non-existent recipe', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'logdel404');
+
+      const response = await request(app)
+        .delete('/api/recipes/00000000-0000-0000-0000-000000000000/cooking-log/some-entry')
+        .use(withCsrf(cookies));
 
       expect(response.status).toBe(404);
     });
   });
 });
 
-describe('User Profile Operations (CRITICAL)', () => {
+describe('Cover Photo Operations (HIGH)', () => {
   let app: express.Express;
 
   beforeEach(async () => {
     app = await createTestApp();
   });
 
-  describe('GET /api/users/:username', () => {
-    // Skipped due to extreme Neon serverless eventual consistency lag
-    // See docs/troubleshooting/neon_consistency.md
-    it('should return public user data', async () => {
-      const { username } = await createAuthenticatedUser(app, 'publicuser');
+  describe('PUT /api/recipes/:id/cover', () => {
+    it('should make a cooking session photo the cover', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'coverowner');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Cover Recipe',
+          heroIngredient: 'Dessert',
+          cookTime: 40,
+          servings: 6,
+          ingredients: 'Chocolate',
+          instructions: 'Melt it'
+        });
+      const recipeId = createResponse.body.id;
+
+      await waitForPropagation();
+
+      const logResponse = await request(app)
+        .post(`/api/recipes/${recipeId}/cooking-log`)
+        .use(withCsrf(cookies))
+        .field('timestamp', new Date().toISOString())
+        .field('notes', 'Best one yet')
+        .field('rating', '5')
+        .attach('photos', await testPhoto(), 'tart.jpg');
+      const photo: string = logResponse.body.cookingLog[0].photos[0];
+
+      const response = await request(app)
+        .put(`/api/recipes/${recipeId}/cover`)
+        .use(withCsrf(cookies))
+        .send({ photo });
+
+      // Removing the entry must keep the photo while it is the cover
+      const deleteResponse = await request(app)
+        .delete(`/api/recipes/${recipeId}/cooking-log/${logResponse.body.cookingLog[0].id}`)
+        .use(withCsrf(cookies));
+      await removeUploadedPhotos([photo]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.photo).toBe(photo);
+      expect(deleteResponse.body.photo).toBe(photo);
+    });
+
+    it('should reject a photo that is not from a cooking session', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'coverforeign');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Foreign Cover Recipe',
+          heroIngredient: 'Fish',
+          cookTime: 20,
+          servings: 2,
+          ingredients: 'Fish',
+          instructions: 'Fry it'
+        });
+
+      await waitForPropagation();
+
+      const response = await request(app)
+        .put(`/api/recipes/${createResponse.body.id}/cover`)
+        .use(withCsrf(cookies))
+        .send({ photo: 'https://example.com/someone-elses.jpg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Cover must be one of this recipe's cooking session photos");
+    });
+
+    it('should reject when not owner', async () => {
+      const owner = await createAuthenticatedUser(app, 'coverowner2');
+      const hacker = await createAuthenticatedUser(app, 'coverhacker');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(owner.cookies))
+        .send({
+          name: 'Protected Cover Recipe',
+          heroIngredient: 'Beef',
+          cookTime: 30,
+          servings: 4,
+          ingredients: 'Beef',
+          instructions: 'Grill it'
+        });
+
+      await waitForPropagation();
+
+      const response = await request(app)
+        .put(`/api/recipes/${createResponse.body.id}/cover`)
+        .use(withCsrf(hacker.cookies))
+        .send({ photo: '/uploads/anything.jpg' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
+
+describe('Photo Ownership (CRITICAL)', () => {
+  let app: express.Express;
+  let ownerPhoto: string;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+    const owner = await createAuthenticatedUser(app, 'photoowner');
+    const createResponse = await request(app)
+      .post('/api/recipes')
+      .use(withCsrf(owner.cookies))
+      .field('name', 'Owned Photo Recipe')
+      .field('heroIngredient', 'Vegetable')
+      .field('cookTime', '15')
+      .field('servings', '2')
+      .field('ingredients', 'Leeks')
+      .field('instructions', 'Sweat them')
+      .attach('photo', await testPhoto(), 'leeks.jpg');
+    ownerPhoto = createResponse.body.photo;
+  });
+
+  afterEach(async () => {
+    await removeUploadedPhotos([ownerPhoto]);
+  });
+
+  const recipeFields = {
+    name: 'Borrowed Photo Recipe',
+    heroIngredient: 'Vegetable',
+    cookTime: 15,
+    servings: 2,
+    ingredients: 'Leeks',
+    instructions: 'Sweat them',
+  };
+
+  it("should not create a recipe with another user's photo", async () => {
+    const { cookies } = await createAuthenticatedUser(app, 'photoborrower');
+
+    const response = await request(app)
+      .post('/api/recipes')
+      .use(withCsrf(cookies))
+      .send({ ...recipeFields, photo: ownerPhoto });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Photo must be one of your own uploads');
+  });
+
+  it("should not set another user's photo as a recipe's cover", async () => {
+    const { cookies } = await createAuthenticatedUser(app, 'photoborrower2');
+    const createResponse = await request(app).post('/api/recipes').use(withCsrf(cookies)).send(recipeFields);
+
+    const response = await request(app)
+      .patch(`/api/recipes/${createResponse.body.id}`)
+      .use(withCsrf(cookies))
+      .send({ photo: ownerPhoto });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Photo must be one of your own uploads');
+  });
+
+  it("should not delete another user's photo that a recipe refers to", async () => {
+    const { cookies, user } = await createAuthenticatedUser(app, 'photoborrower3');
+    // Refers to the photo already, as a recipe saved before photos were checked could
+    const recipe = await storage.createRecipe({ ...recipeFields, photo: ownerPhoto, cookingLog: [], environment: 'test' }, user.id);
+
+    const patchResponse = await request(app)
+      .patch(`/api/recipes/${recipe.id}`)
+      .use(withCsrf(cookies))
+      .field('removePhoto', 'true');
+    expect(patchResponse.status).toBe(200);
+
+    await storage.updateRecipe(recipe.id, { photo: ownerPhoto }, user.id);
+    const deleteResponse = await request(app).delete(`/api/recipes/${recipe.id}`).use(withCsrf(cookies));
+    expect(deleteResponse.status).toBe(204);
+
+    expect((await request(app).get(ownerPhoto)).status).toBe(200);
+  });
+
+  it('should still accept photos hosted elsewhere', async () => {
+    const { cookies } = await createAuthenticatedUser(app, 'photoelsewhere');
+
+    const response = await request(app)
+      .post('/api/recipes')
+      .use(withCsrf(cookies))
+      .send({ ...recipeFields, photo: 'https://example.com/leeks.jpg' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.photo).toBe('https://example.com/leeks.jpg');
+  });
+});
+
+describe('Photo Serving (HIGH)', () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  describe('GET /objects/:path', () => {
+    it('should serve an uploaded photo from photo storage', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'photoserver');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .field('name', 'Served Photo Recipe')
+        .field('heroIngredient', 'Vegetable')
+        .field('cookTime', '15')
+        .field('servings', '2')
+        .field('ingredients', 'Leeks')
+        .field('instructions', 'Sweat them')
+        .attach('photo', await testPhoto({ format: 'png' }), 'my leeks.png');
+      const photoUrl: string = createResponse.body.photo;
+
+      try {
+        expect(createResponse.status).toBe(201);
+        expect(photoUrl).toMatch(/^\/objects\/recipe-photos\/.+-my_leeks\.jpg$/);
+
+        const response = await request(app).get(photoUrl);
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('image/jpeg');
+        expect(response.headers['x-content-type-options']).toBe('nosniff');
+        expect(Number(response.headers['content-length'])).toBe(response.body.length);
+        expect(response.body.subarray(0, 3)).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
+      } finally {
+        await removeUploadedPhotos([photoUrl]);
+      }
+    });
+
+    it('should list and serve the resized variants of an uploaded photo', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'photovariants');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .field('name', 'Variant Photo Recipe')
+        .field('heroIngredient', 'Vegetable')
+        .field('cookTime', '15')
+        .field('servings', '2')
+        .field('ingredients', 'Leeks')
+        .field('instructions', 'Sweat them')
+        .attach('photo', await testPhoto({ width: 1000, height: 500 }), 'leeks.jpg');
+      const photoUrl: string = createResponse.body.photo;
+
+      try {
+        expect(createResponse.status).toBe(201);
+        const variants = createResponse.body.photoVariants[photoUrl];
+        expect(variants).toHaveLength(9);
+        expect(variants).toContainEqual({ size: 'full', format: 'jpeg', width: 1000, height: 500, url: photoUrl });
+        expect(variants).toContainEqual(expect.objectContaining({ size: 'thumbnail', format: 'avif', width: 320, height: 160 }));
+
+        const thumbnail = variants.find((variant: any) => variant.size === 'thumbnail' && variant.format === 'webp');
+        const response = await request(app).get(thumbnail.url);
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('image/webp');
+
+        const fetched = await request(app).get(`/api/recipes/${createResponse.body.id}`);
+        expect(fetched.body.photoVariants[photoUrl]).toEqual(variants);
+      } finally {
+        await removeUploadedPhotos([photoUrl]);
+      }
+    });
+
+    it('should delete the variants along with the photo', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'photovariantsgone');
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .field('name', 'Short-lived Photo Recipe')
+        .field('heroIngredient', 'Vegetable')
+        .field('cookTime', '15')
+        .field('servings', '2')
+        .field('ingredients', 'Leeks')
+        .field('instructions', 'Sweat them')
+        .attach('photo', await testPhoto(), 'leeks.jpg');
+      const variants: Array<{ url: string }> = createResponse.body.photoVariants[createResponse.body.photo];
+
+      await waitForPropagation();
+
+      const deleteResponse = await request(app)
+        .delete(`/api/recipes/${createResponse.body.id}`)
+        .use(withCsrf(cookies));
+
+      expect(deleteResponse.status).toBe(204);
+      for (const variant of variants) {
+        expect((await request(app).get(variant.url)).status).toBe(404);
+      }
+    });
+
+    it('should reject an upload that is not an image', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'photofake');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .field('name', 'Fake Photo Recipe')
+        .field('heroIngredient', 'Vegetable')
+        .field('cookTime', '15')
+        .field('servings', '2')
+        .field('ingredients', 'Leeks')
+        .field('instructions', 'Sweat them')
+        .attach('photo', Buffer.from('<html><body>not a photo</body></html>'), 'leeks.jpg');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Only JPEG, PNG and WebP images are allowed');
+    });
+
+    it('should reject an image with markup hidden inside it', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'photopolyglot');
+      const photo = await testPhoto();
+      const comment = Buffer.from('<html><script>alert(1)</script></html>');
+      const polyglot = Buffer.concat([photo.subarray(0, 2), Buffer.from([0xff, 0xfe, 0, comment.length + 2]), comment, photo.subarray(2)]);
+
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Polyglot Recipe',
+          heroIngredient: 'Vegetable',
+          cookTime: 10,
+          servings: 1,
+          ingredients: 'Leeks',
+          instructions: 'Sweat them'
+        });
+
+      await waitForPropagation();
+
+      const response = await request(app)
+        .post(`/api/recipes/${createResponse.body.id}/cooking-log`)
+        .use(withCsrf(cookies))
+        .field('timestamp', new Date().toISOString())
+        .field('notes', 'Looks innocent')
+        .field('rating', '3')
+        .attach('photos', await testPhoto(), 'fine.jpg')
+        .attach('photos', polyglot, 'sneaky.jpg');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('This file contains more than an image');
+      const recipe = await request(app).get(`/api/recipes/${createResponse.body.id}`);
+      expect(recipe.body.cookingLog).toEqual([]);
+    });
+
+    it('should reject an image with an absurd number of pixels', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'photobomb');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .field('name', 'Bomb Recipe')
+        .field('heroIngredient', 'Vegetable')
+        .field('cookTime', '15')
+        .field('servings', '2')
+        .field('ingredients', 'Leeks')
+        .field('instructions', 'Sweat them')
+        .attach('photo', withDimensions(await testPhoto({ width: 8, height: 8 }), 10000, 10000), 'huge.jpg');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Photos can be at most 40 megapixels');
+    });
+
+    it('should serve stored files that are not images as plain bytes', async () => {
+      await getStorageDriver().put('recipe-photos/renamed-page.jpg', Buffer.from('<html><script>alert(1)</script></html>'), 'image/jpeg');
+
+      try {
+        const response = await request(app).get('/objects/recipe-photos/renamed-page.jpg');
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('application/octet-stream');
+        expect(response.headers['x-content-type-options']).toBe('nosniff');
+      } finally {
+        await getStorageDriver().delete('recipe-photos/renamed-page.jpg');
+      }
+    });
+
+    describe('caching and ranges', () => {
+      // Express tags JSON bodies with an ETag of their own, which must not be the photo's
+      async function expectUncachedError(response: request.Response) {
+        expect(response.headers['content-type']).toMatch(/^application\/json/);
+        expect(response.headers['cache-control']).toBe('no-store');
+        expect(response.headers['etag']).not.toBe((await getStorageDriver().stat(key))!.etag);
+        expect(response.headers['last-modified']).toBeUndefined();
+      }
+
+      const key = 'recipe-photos/range-test.jpg';
+      const url = `/objects/${key}`;
+      let photo: Buffer;
+
+      beforeEach(async () => {
+        photo = await testPhoto({ width: 64, height: 48 });
+        await getStorageDriver().put(key, photo, 'image/jpeg');
+      });
+
+      afterEach(async () => {
+        await getStorageDriver().delete(key);
+      });
+
+      it('should send validators with every photo', async () => {
+        const response = await request(app).get(url);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['etag']).toMatch(/^"[^"]+"$/);
+        expect(response.headers['last-modified']).toBeDefined();
+        expect(response.headers['accept-ranges']).toBe('bytes');
+        expect(response.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+        expect(response.body).toEqual(photo);
+      });
+
+      it('should answer a matching If-None-Match with 304', async () => {
+        const { headers } = await request(app).get(url);
+
+        const response = await request(app).get(url).set('If-None-Match', headers['etag']);
+
+        expect(response.status).toBe(304);
+        expect(response.headers['etag']).toBe(headers['etag']);
+        expect(response.body).toHaveLength(0);
+      });
+
+      it('should answer an unchanged If-Modified-Since with 304', async () => {
+        const { headers } = await request(app).get(url);
+
+        const response = await request(app).get(url).set('If-Modified-Since', headers['last-modified']);
+
+        expect(response.status).toBe(304);
+      });
+
+      it('should send the whole photo for a stale If-None-Match', async () => {
+        const response = await request(app).get(url).set('If-None-Match', '"something-else"');
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual(photo);
+      });
+
+      it('should send the requested byte range', async () => {
+        const response = await request(app).get(url).set('Range', 'bytes=10-19');
+
+        expect(response.status).toBe(206);
+        expect(response.headers['content-range']).toBe(`bytes 10-19/${photo.length}`);
+        expect(response.headers['content-length']).toBe('10');
+        expect(response.body).toEqual(photo.subarray(10, 20));
+      });
+
+      it('should send the end of the photo for a suffix range', async () => {
+        const response = await request(app).get(url).set('Range', 'bytes=-5');
+
+        expect(response.status).toBe(206);
+        expect(response.headers['content-range']).toBe(`bytes ${photo.length - 5}-${photo.length - 1}/${photo.length}`);
+        expect(response.body).toEqual(photo.subarray(photo.length - 5));
+      });
+
+      it('should refuse a range past the end with 416', async () => {
+        const response = await request(app).get(url).set('Range', `bytes=${photo.length + 10}-`);
+
+        expect(response.status).toBe(416);
+        expect(response.headers['content-range']).toBe(`bytes */${photo.length}`);
+        await expectUncachedError(response);
+      });
+
+      it('should not send a photo deleted since it was looked up, nor let the 404 be cached', async () => {
+        const local = getStorageDriver();
+        setStorageDriver({ ...local, stream: async () => null });
+        try {
+          const response = await request(app).get(url);
+
+          expect(response.status).toBe(404);
+          await expectUncachedError(response);
+        } finally {
+          setStorageDriver(null);
+        }
+      });
+
+      it('should not let a failure to open the photo be cached', async () => {
+        const local = getStorageDriver();
+        setStorageDriver({ ...local, stream: async () => { throw new Error('connect ECONNREFUSED'); } });
+        try {
+          const response = await request(app).get(url);
+
+          expect(response.status).toBe(503);
+          await expectUncachedError(response);
+        } finally {
+          setStorageDriver(null);
+        }
+      });
+
+      it('should send the whole photo when If-Range no longer matches', async () => {
+        const response = await request(app).get(url).set('Range', 'bytes=0-9').set('If-Range', '"something-else"');
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual(photo);
+      });
+
+      it('should send only headers for HEAD', async () => {
+        const response = await request(app).head(url);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-length']).toBe(String(photo.length));
+        expect(response.headers['content-type']).toBe('image/jpeg');
+      });
+    });
+
+    it('should return 503 rather than 404 when photo storage fails', async () => {
+      const failingDriver = {
+        name: 'failing',
+        stat: async () => { throw new Error('connect ECONNREFUSED'); },
+      } as unknown as StorageDriver;
+      setStorageDriver(failingDriver);
+      try {
+        const response = await request(app).get('/objects/recipe-photos/anything.jpg');
+
+        expect(response.status).toBe(503);
+        expect(response.body.error).toBe('Photo storage is unavailable');
+      } finally {
+        setStorageDriver(null);
+      }
+    });
+
+    it('should return 404 for a missing photo', async () => {
+      const response = await request(app).get('/objects/recipe-photos/missing.jpg');
+      expect(response.status).toBe(404);
+    });
+
+    it('should not serve files outside photo storage', async () => {
+      const response = await request(app).get('/objects/recipe-photos/%2e%2e/%2e%2e/package.json');
+      expect(response.status).toBe(404);
+    });
+  });
+});
+
+describe('User Profile Operations (CRITICAL)', () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    app = await createTestApp();
+  });
+
+  describe('GET /api/users/:username', () => {
+    // Skipped due to extreme Neon serverless eventual consistency lag
+    // See docs/troubleshooting/neon_consistency.md
+    it('should return public user data', async () => {
+      const { username } = await createAuthenticatedUser(app, 'publicuser');
 
       const response = await request(app)
         .get(`/api/users/${username}`);
@@ -940,7 +1932,7 @@ describe('User Profile Operations (CRITICAL)', () => {
 
       await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'User Recipe 1',
           heroIngredient: 'Chicken',
@@ -952,7 +1944,7 @@ describe('User Profile Operations (CRITICAL)', () => {
 
       await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: 'User Recipe 2',
           heroIngredient: 'Beef',
@@ -976,6 +1968,57 @@ describe('User Profile Operations (CRITICAL)', () => {
       expect(response.body).toHaveLength(2);
     }, 20000);
 
+    it('should filter, sort and page user recipes', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'pageuser');
+
+      for (const [name, heroIngredient, cookTime] of [['Quick Fish', 'Fish', 15], ['Slow Beef', 'Beef', 90], ['Fish Pie', 'Fish', 60]] as const) {
+        await request(app)
+          .post('/api/recipes')
+          .use(withCsrf(cookies))
+          .send({ name, heroIngredient, cookTime, servings: 2, ingredients: heroIngredient, instructions: 'Cook it' });
+      }
+      await waitForPropagation();
+
+      const filtered = await request(app)
+        .get(`/api/users/${username}/recipes`)
+        .query({ heroIngredient: 'Fish', sort: 'quickest' });
+      expect(filtered.status).toBe(200);
+      expect(filtered.body.map((r: any) => r.name)).toEqual(['Quick Fish', 'Fish Pie']);
+      expect(filtered.headers['x-next-cursor']).toBeUndefined();
+
+      const first = await request(app)
+        .get(`/api/users/${username}/recipes`)
+        .query({ sort: 'name', limit: 2 });
+      expect(first.body.map((r: any) => r.name)).toEqual(['Fish Pie', 'Quick Fish']);
+      expect(first.headers['x-next-cursor']).toBeTruthy();
+
+      const second = await request(app)
+        .get(`/api/users/${username}/recipes`)
+        .query({ sort: 'name', limit: 2, cursor: first.headers['x-next-cursor'] });
+      expect(second.body.map((r: any) => r.name)).toEqual(['Slow Beef']);
+      expect(second.headers['x-next-cursor']).toBeUndefined();
+    }, 20000);
+
+    it('should reject invalid listing parameters', async () => {
+      const { username } = await createAuthenticatedUser(app, 'badquery');
+
+      const badSort = await request(app)
+        .get(`/api/users/${username}/recipes`)
+        .query({ sort: 'popularity' });
+      expect(badSort.status).toBe(400);
+
+      const badRating = await request(app)
+        .get(`/api/users/${username}/recipes`)
+        .query({ minRating: 9 });
+      expect(badRating.status).toBe(400);
+
+      const badCursor = await request(app)
+        .get(`/api/users/${username}/recipes`)
+        .query({ cursor: 'garbage' });
+      expect(badCursor.status).toBe(400);
+      expect(badCursor.body.error).toBe('Invalid cursor');
+    });
+
     it('should return 404 for non-existent user', async () => {
       const response = await request(app)
         .get('/api/users/nonexistent/recipes');
@@ -984,6 +2027,104 @@ describe('User Profile Operations (CRITICAL)', () => {
     });
   });
 
+  describe('GET /api/search', () => {
+    it('should search a user collection', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'searchuser');
+
+      await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Roast Potatoes',
+          heroIngredient: 'Vegetable',
+          cookTime: 60,
+          servings: 4,
+          ingredients: '1 kg potatoes',
+          instructions: 'Roast until crisp'
+        });
+      await waitForPropagation();
+
+      const response = await request(app)
+        .get('/api/search')
+        .query({ q: 'potato', username });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].recipe.name).toBe('Roast Potatoes');
+      expect(typeof response.body[0].rank).toBe('number');
+      expect(response.body[0].snippet).toContainEqual({ text: 'potatoes', highlighted: true });
+    });
+
+    it('should require search terms', async () => {
+      const response = await request(app)
+        .get('/api/search')
+        .query({ q: '  ' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      const response = await request(app)
+        .get('/api/search')
+        .query({ q: 'potato', username: 'nonexistent' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Sharing before email verification', () => {
+    const saved = process.env.REQUIRE_VERIFIED_EMAIL_TO_SHARE;
+
+    beforeEach(() => {
+      process.env.REQUIRE_VERIFIED_EMAIL_TO_SHARE = 'true';
+    });
+
+    afterEach(() => {
+      if (saved === undefined) delete process.env.REQUIRE_VERIFIED_EMAIL_TO_SHARE;
+      else process.env.REQUIRE_VERIFIED_EMAIL_TO_SHARE = saved;
+    });
+
+    async function createRecipe(cookies: string[]) {
+      const response = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Unshared Soup',
+          heroIngredient: 'Vegetable',
+          cookTime: 30,
+          servings: 2,
+          ingredients: 'Leeks',
+          instructions: 'Simmer'
+        });
+      await waitForPropagation();
+      return response.body;
+    }
+
+    it('should hide an unverified user from everyone but themselves', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'unverified');
+      const recipe = await createRecipe(cookies);
+
+      for (const url of [`/api/users/${username}`, `/api/users/${username}/recipes`, `/api/recipes/${recipe.id}`]) {
+        expect((await request(app).get(url)).status).toBe(404);
+        expect((await request(app).get(url).set('Cookie', cookies)).status).toBe(200);
+      }
+      const search = await request(app).get('/api/search').query({ q: 'soup', username });
+      expect(search.status).toBe(404);
+    });
+
+    it('should share once the email is verified', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'verified');
+      const recipe = await createRecipe(cookies);
+
+      const token = linkParam(await lastMailTo(`${username}@example.com`), '/auth/verify-email', 'token');
+      await request(app).post('/api/verify-email').use(withCsrf()).send({ token });
+
+      for (const url of [`/api/users/${username}`, `/api/users/${username}/recipes`, `/api/recipes/${recipe.id}`]) {
+        expect((await request(app).get(url)).status).toBe(200);
+      }
+    });
+  });
+
   describe('PATCH /api/user', () => {
     // Skipped due to extreme Neon serverless eventual consistency lag
     // See docs/troubleshooting/neon_consistency.md
@@ -994,7 +2135,7 @@ describe('User Profile Operations (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .patch('/api/user')
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             username: 'newusername'
           }),
@@ -1010,13 +2151,34 @@ describe('User Profile Operations (CRITICAL)', () => {
 
       const response = await request(app)
         .patch('/api/user')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           displayName: 'New Display Name'
         });
 
       expect(response.status).toBe(200);
       expect(response.body.displayName).toBe('New Display Name');
+      expect(response.body).not.toHaveProperty('password');
+      expect(response.body).not.toHaveProperty('emailVerificationToken');
+    });
+
+    it('should update measurement system preference', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'unitsuser');
+
+      const response = await request(app)
+        .patch('/api/user')
+        .use(withCsrf(cookies))
+        .send({ measurementSystem: 'metric' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.measurementSystem).toBe('metric');
+
+      const invalid = await request(app)
+        .patch('/api/user')
+        .use(withCsrf(cookies))
+        .send({ measurementSystem: 'nautical' });
+
+      expect(invalid.status).toBe(400);
     });
 
     it('should reject duplicate username', async () => {
@@ -1025,7 +2187,7 @@ describe('User Profile Operations (CRITICAL)', () => {
 
       const response = await request(app)
         .patch('/api/user')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           username: existingUsername
         });
@@ -1034,9 +2196,22 @@ describe('User Profile Operations (CRITICAL)', () => {
       expect(response.body.error).toBe('Username already taken');
     });
 
+    it('should allow changing only the case of your own username', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'caseduser');
+
+      const response = await request(app)
+        .patch('/api/user')
+        .use(withCsrf(cookies))
+        .send({ username: username.toUpperCase() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.username).toBe(username.toUpperCase());
+    });
+
     it('should reject when not authenticated', async () => {
       const response = await request(app)
         .patch('/api/user')
+        .use(withCsrf())
         .send({
           username: 'newname'
         });
@@ -1045,13 +2220,396 @@ describe('User Profile Operations (CRITICAL)', () => {
     });
   });
 
+  describe('Session management', () => {
+    // Signs in again as the same user from another "device"
+    async function signInElsewhere(username: string, userAgent: string) {
+      const response = await request(app)
+        .post('/api/login')
+        .use(withCsrf())
+        .set('User-Agent', userAgent)
+        .send({ username, password: 'password123' });
+      return response.headers['set-cookie'];
+    }
+
+    it('should list where the user is signed in', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'sessionlist');
+      await signInElsewhere(username, 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148 Safari/604.1');
+
+      const response = await request(app)
+        .get('/api/user/sessions')
+        .set('Cookie', cookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(2);
+      expect(response.body.filter((session: any) => session.current)).toHaveLength(1);
+      const phone = response.body.find((session: any) => !session.current);
+      expect(phone.userAgent).toContain('iPhone');
+      expect(phone.ip).toBeTruthy();
+      expect(phone.createdAt).toBeTruthy();
+      expect(phone.lastSeenAt).toBeTruthy();
+      expect(phone.id).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should sign out a single other session', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'sessionrevoke');
+      const phoneCookies = await signInElsewhere(username, 'Phone');
+      const sessions = (await request(app).get('/api/user/sessions').set('Cookie', cookies)).body;
+      const phone = sessions.find((session: any) => !session.current);
+
+      const response = await request(app)
+        .delete(`/api/user/sessions/${phone.id}`)
+        .use(withCsrf(cookies));
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get('/api/user').set('Cookie', phoneCookies)).status).toBe(401);
+      expect((await request(app).get('/api/user').set('Cookie', cookies)).status).toBe(200);
+    });
+
+    it('should sign out the current session like logging out', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'sessionself');
+      const sessions = (await request(app).get('/api/user/sessions').set('Cookie', cookies)).body;
+
+      const response = await request(app)
+        .delete(`/api/user/sessions/${sessions[0].id}`)
+        .use(withCsrf(cookies));
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get('/api/user').set('Cookie', cookies)).status).toBe(401);
+    });
+
+    it("should not sign out another user's session", async () => {
+      const { cookies: ownerCookies } = await createAuthenticatedUser(app, 'sessionowner');
+      const { cookies: otherCookies } = await createAuthenticatedUser(app, 'sessionother');
+      const ownerSessions = (await request(app).get('/api/user/sessions').set('Cookie', ownerCookies)).body;
+
+      const response = await request(app)
+        .delete(`/api/user/sessions/${ownerSessions[0].id}`)
+        .use(withCsrf(otherCookies));
+
+      expect(response.status).toBe(404);
+      expect((await request(app).get('/api/user').set('Cookie', ownerCookies)).status).toBe(200);
+    });
+
+    it('should sign out everywhere else', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'sessionothers');
+      const phoneCookies = await signInElsewhere(username, 'Phone');
+      const tabletCookies = await signInElsewhere(username, 'Tablet');
+
+      const response = await request(app)
+        .post('/api/user/sessions/revoke-others')
+        .use(withCsrf(cookies));
+
+      expect(response.status).toBe(200);
+      expect(response.body.signedOutSessions).toBe(2);
+      expect((await request(app).get('/api/user').set('Cookie', phoneCookies)).status).toBe(401);
+      expect((await request(app).get('/api/user').set('Cookie', tabletCookies)).status).toBe(401);
+      const remaining = (await request(app).get('/api/user/sessions').set('Cookie', cookies)).body;
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].current).toBe(true);
+    });
+
+    it('should require authentication', async () => {
+      expect((await request(app).get('/api/user/sessions')).status).toBe(401);
+    });
+  });
+
+  describe('API tokens', () => {
+    const newRecipe = {
+      name: 'Script Recipe',
+      heroIngredient: 'Vegetable',
+      cookTime: 40,
+      servings: 4,
+      ingredients: 'Lentils, Onion',
+      instructions: 'Simmer'
+    };
+
+    async function createToken(cookies: string[], scope: 'read' | 'write', expiresInDays: number | null = 30) {
+      const response = await request(app)
+        .post('/api/user/tokens')
+        .use(withCsrf(cookies))
+        .send({ name: `${scope} script`, scope, expiresInDays });
+      expect(response.status).toBe(201);
+      return response.body;
+    }
+
+    it('should create a token and show it only once', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokencreate');
+
+      const created = await createToken(cookies, 'write');
+
+      expect(created.token).toMatch(/^mrk_/);
+      expect(created.token.startsWith(created.tokenPrefix)).toBe(true);
+      expect(created.scope).toBe('write');
+      expect(new Date(created.expiresAt).getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+
+      const list = await request(app).get('/api/user/tokens').set('Cookie', cookies);
+      expect(list.status).toBe(200);
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0].name).toBe('write script');
+      expect(list.body[0].token).toBeUndefined();
+      expect(list.body[0].tokenHash).toBeUndefined();
+      expect(list.body[0].lastUsedAt).toBeNull();
+    });
+
+    it('should validate new tokens', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokeninvalid');
+
+      const response = await request(app)
+        .post('/api/user/tokens')
+        .use(withCsrf(cookies))
+        .send({ name: ' ', scope: 'admin' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should authenticate with a bearer token and record when it was used', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'tokenuse');
+      const { token } = await createToken(cookies, 'read');
+
+      const response = await request(app)
+        .get('/api/user')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.username).toBe(username);
+      expect(response.headers['set-cookie']).toBeUndefined();
+      const list = await request(app).get('/api/user/tokens').set('Cookie', cookies);
+      expect(list.body[0].lastUsedAt).toBeTruthy();
+    });
+
+    it('should let a write token create recipes without a CSRF token', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokenwrite');
+      const { token } = await createToken(cookies, 'write');
+
+      const forged = await request(app)
+        .post('/api/recipes')
+        .set('Cookie', cookies)
+        .send(newRecipe);
+      expect(forged.status).toBe(403);
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newRecipe);
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('Script Recipe');
+    });
+
+    it('should refuse writes with a read token', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokenread');
+      const { token } = await createToken(cookies, 'read');
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newRecipe);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('This API token can only read');
+    });
+
+    it('should reject unknown, revoked and expired tokens', async () => {
+      const { user, cookies } = await createAuthenticatedUser(app, 'tokenreject');
+      const created = await createToken(cookies, 'read');
+      const expired = generateApiToken();
+      await storage.createApiToken(user.id, {
+        name: 'old script',
+        scope: 'read',
+        tokenHash: expired.tokenHash,
+        tokenPrefix: expired.tokenPrefix,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      const revoke = await request(app).delete(`/api/user/tokens/${created.id}`).use(withCsrf(cookies));
+      expect(revoke.status).toBe(204);
+
+      for (const token of [created.token, expired.token, 'mrk_not-a-real-token']) {
+        const response = await request(app)
+          .get('/api/user')
+          .set('Cookie', cookies) // An invalid token doesn't fall back to the session
+          .set('Authorization', `Bearer ${token}`);
+        expect(response.status).toBe(401);
+        expect(response.body.error).toBe('Invalid or expired API token');
+      }
+    });
+
+    it('should not let a token manage tokens, sessions or the password', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokenlimits');
+      const { token } = await createToken(cookies, 'write');
+      const auth = `Bearer ${token}`;
+
+      expect((await request(app).get('/api/user/tokens').set('Authorization', auth)).status).toBe(403);
+      expect((await request(app).post('/api/user/tokens').set('Authorization', auth).send({ name: 'more', scope: 'write' })).status).toBe(403);
+      expect((await request(app).get('/api/user/sessions').set('Authorization', auth)).status).toBe(403);
+      expect((await request(app)
+        .patch('/api/user/password')
+        .set('Authorization', auth)
+        .send({ currentPassword: 'password123', newPassword: 'newpassword123' })).status).toBe(403);
+    });
+
+    it("should not revoke another user's token", async () => {
+      const { cookies: ownerCookies } = await createAuthenticatedUser(app, 'tokenowner');
+      const { cookies: otherCookies } = await createAuthenticatedUser(app, 'tokenother');
+      const { id, token } = await createToken(ownerCookies, 'read');
+
+      const response = await request(app).delete(`/api/user/tokens/${id}`).use(withCsrf(otherCookies));
+
+      expect(response.status).toBe(404);
+      expect((await request(app).get('/api/user').set('Authorization', `Bearer ${token}`)).status).toBe(200);
+    });
+  });
+
+  describe('Data export and account deletion', () => {
+    // Creates a recipe with one cooking session and an uploaded photo; returns the photo URL
+    async function createRecipeWithPhoto(cookies: string[]) {
+      const createResponse = await request(app)
+        .post('/api/recipes')
+        .use(withCsrf(cookies))
+        .send({
+          name: 'Export Soup',
+          heroIngredient: 'Vegetable',
+          cookTime: 30,
+          servings: 4,
+          ingredients: 'Leeks\nPotatoes',
+          instructions: 'Simmer and blend'
+        });
+      await waitForPropagation();
+
+      const logResponse = await request(app)
+        .post(`/api/recipes/${createResponse.body.id}/cooking-log`)
+        .use(withCsrf(cookies))
+        .field('timestamp', new Date().toISOString())
+        .field('notes', 'Silky')
+        .field('rating', '5')
+        .attach('photos', await testPhoto(), 'soup.jpg');
+      expect(logResponse.status).toBe(200);
+      return logResponse.body.cookingLog[0].photos[0] as string;
+    }
+
+    it('should export profile, recipes, cooking log and photos as a zip', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'exporter');
+      const photoUrl = await createRecipeWithPhoto(cookies);
+
+      try {
+        const response = await request(app)
+          .get('/api/user/export')
+          .set('Cookie', cookies)
+          .buffer(true)
+          .parse((res, callback) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => callback(null, Buffer.concat(chunks)));
+          });
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('application/zip');
+        expect(response.headers['content-disposition']).toContain(`my-recipe-kitchen-${username}-`);
+
+        const files = readZip(response.body);
+        const profile = JSON.parse(files['profile.json'].toString());
+        expect(profile.username).toBe(username);
+        expect(profile.password).toBeUndefined();
+        expect(profile.totpSecret).toBeUndefined();
+
+        const recipes = JSON.parse(files['recipes.json'].toString());
+        expect(recipes.map((recipe: any) => recipe.name)).toEqual(['Export Soup']);
+        expect(recipes[0].environment).toBeUndefined();
+        expect(recipes[0].photoVariants).toBeUndefined();
+
+        const cookingLog = JSON.parse(files['cooking-log.json'].toString());
+        expect(cookingLog).toHaveLength(1);
+        expect(cookingLog[0]).toMatchObject({ recipeId: recipes[0].id, recipeName: 'Export Soup', notes: 'Silky', photos: [photoUrl] });
+
+        // The full-size photo, as it is served
+        const served = await request(app).get(photoUrl);
+        expect(files[`photos/${path.basename(photoUrl)}`]).toEqual(served.body);
+      } finally {
+        await removeUploadedPhotos([photoUrl]);
+      }
+    });
+
+    it('should require authentication to export', async () => {
+      expect((await request(app).get('/api/user/export')).status).toBe(401);
+    });
+
+    it('should not export with an API token', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokenexporter');
+      const created = await request(app)
+        .post('/api/user/tokens')
+        .use(withCsrf(cookies))
+        .send({ name: 'backup script', scope: 'read' });
+
+      const response = await request(app)
+        .get('/api/user/export')
+        .set('Authorization', `Bearer ${created.body.token}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should delete the account and everything in it', async () => {
+      const { user, cookies, username } = await createAuthenticatedUser(app, 'leaver');
+      const photoUrl = await createRecipeWithPhoto(cookies);
+      const otherSession = (await request(app)
+        .post('/api/login')
+        .use(withCsrf())
+        .send({ username, password: 'password123' })).headers['set-cookie'];
+
+      const response = await request(app)
+        .delete('/api/user')
+        .use(withCsrf(cookies))
+        .send({ password: 'password123' });
+
+      expect(response.status).toBe(204);
+      expect((await request(app).get('/api/user').set('Cookie', cookies)).status).toBe(401);
+      expect((await request(app).get('/api/user').set('Cookie', otherSession)).status).toBe(401);
+      expect((await request(app).get(`/api/users/${username}`)).status).toBe(404);
+      expect(await storage.getRecipes(user.id)).toEqual([]);
+      expect((await request(app).post('/api/login').use(withCsrf()).send({ username, password: 'password123' })).status).toBe(401);
+
+      // Photos are removed in the background once the response is sent
+      const photoResponse = await withEventualConsistencyRetry(
+        () => request(app).get(photoUrl),
+        (response) => response.status === 200
+      );
+      expect(photoResponse.status).toBe(404);
+    });
+
+    it('should not delete the account with the wrong password', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'stayer');
+
+      const response = await request(app)
+        .delete('/api/user')
+        .use(withCsrf(cookies))
+        .send({ password: 'wrongpassword' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Password is incorrect');
+      expect((await request(app).get('/api/user').set('Cookie', cookies)).status).toBe(200);
+    });
+
+    it('should not delete the account with an API token', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokenleaver');
+      const { token } = (await request(app)
+        .post('/api/user/tokens')
+        .use(withCsrf(cookies))
+        .send({ name: 'script', scope: 'write' })).body;
+
+      const response = await request(app)
+        .delete('/api/user')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ password: 'password123' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe('PATCH /api/user/password', () => {
     it('should change password with correct current password', async () => {
       const { cookies, username } = await createAuthenticatedUser(app, 'passuser');
 
       const response = await request(app)
         .patch('/api/user/password')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           currentPassword: 'password123',
           newPassword: 'newpassword456'
@@ -1062,6 +2620,7 @@ describe('User Profile Operations (CRITICAL)', () => {
       // Verify new password works
       const loginResponse = await request(app)
         .post('/api/login')
+        .use(withCsrf())
         .send({
           username: username,
           password: 'newpassword456'
@@ -1077,7 +2636,7 @@ describe('User Profile Operations (CRITICAL)', () => {
 
       const response = await request(app)
         .patch('/api/user/password')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           currentPassword: 'wrongpassword',
           newPassword: 'newpassword123'
@@ -1087,12 +2646,51 @@ describe('User Profile Operations (CRITICAL)', () => {
       expect(response.body.error).toBe('Current password is incorrect');
     });
 
+    it('should sign out other sessions but keep the current one', async () => {
+      const { cookies, username } = await createAuthenticatedUser(app, 'compromised');
+      const otherDevice = await request(app)
+        .post('/api/login')
+        .use(withCsrf())
+        .send({ username, password: 'password123' });
+      const otherCookies = otherDevice.headers['set-cookie'];
+
+      const response = await request(app)
+        .patch('/api/user/password')
+        .use(withCsrf(cookies))
+        .send({ currentPassword: 'password123', newPassword: 'newpassword456' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.signedOutSessions).toBe(1);
+      expect((await request(app).get('/api/user').set('Cookie', otherCookies)).status).toBe(401);
+      expect((await request(app).get('/api/user').set('Cookie', cookies)).status).toBe(200);
+    });
+
+    it('should revoke every API token', async () => {
+      const { cookies } = await createAuthenticatedUser(app, 'tokenpass');
+      const created = await request(app)
+        .post('/api/user/tokens')
+        .use(withCsrf(cookies))
+        .send({ name: 'script', scope: 'read' });
+      const auth = `Bearer ${created.body.token}`;
+      expect((await request(app).get('/api/user').set('Authorization', auth)).status).toBe(200);
+
+      const response = await request(app)
+        .patch('/api/user/password')
+        .use(withCsrf(cookies))
+        .send({ currentPassword: 'password123', newPassword: 'newpassword456' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.revokedApiTokens).toBe(1);
+      expect((await request(app).get('/api/user').set('Authorization', auth)).status).toBe(401);
+      expect((await request(app).get('/api/user/tokens').set('Cookie', cookies)).body).toEqual([]);
+    });
+
     it('should reject weak new password', async () => {
       const { cookies } = await createAuthenticatedUser(app, 'weakpass');
 
       const response = await request(app)
         .patch('/api/user/password')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           currentPassword: 'password123',
           newPassword: 'weak'
@@ -1104,6 +2702,7 @@ describe('User Profile Operations (CRITICAL)', () => {
     it('should reject when not authenticated', async () => {
       const response = await request(app)
         .patch('/api/user/password')
+        .use(withCsrf())
         .send({
           currentPassword: 'old',
           newPassword: 'new123456'
@@ -1125,6 +2724,7 @@ describe('Security Tests (CRITICAL)', () => {
     it('should prevent SQL injection in username', async () => {
       const response = await request(app)
         .post('/api/register')
+        .use(withCsrf())
         .send({
           username: "admin'; DROP TABLE users; --",
           email: 'sqli@example.com',
@@ -1140,7 +2740,7 @@ describe('Security Tests (CRITICAL)', () => {
 
       const response = await request(app)
         .post('/api/recipes')
-        .set('Cookie', cookies)
+        .use(withCsrf(cookies))
         .send({
           name: "'; DROP TABLE recipes; --",
           heroIngredient: 'Chicken',
@@ -1167,7 +2767,7 @@ describe('Security Tests (CRITICAL)', () => {
       const response = await withEventualConsistencyRetry(
         () => request(app)
           .post('/api/recipes')
-          .set('Cookie', cookies)
+          .use(withCsrf(cookies))
           .send({
             name: xssPayload,
             heroIngredient: 'Chicken',
@@ -1193,7 +2793,7 @@ describe('Security Tests (CRITICAL)', () => {
       // User1 creates recipe
       const createResponse = await request(app)
         .post('/api/recipes')
-        .set('Cookie', user1.cookies)
+        .use(withCsrf(user1.cookies))
         .send({
           name: 'Victim Recipe',
           heroIngredient: 'Chicken',
@@ -1210,7 +2810,7 @@ describe('Security Tests (CRITICAL)', () => {
       const updateResponse = await withEventualConsistencyRetry(
         () => request(app)
           .patch(`/api/recipes/${recipeId}`)
-          .set('Cookie', user2.cookies)
+          .use(withCsrf(user2.cookies))
           .send({ name: 'Hacked' }),
         (response) => response.status === 404
       );
@@ -1222,7 +2822,7 @@ describe('Security Tests (CRITICAL)', () => {
       const deleteResponse = await withEventualConsistencyRetry(
         () => request(app)
           .delete(`/api/recipes/${recipeId}`)
-          .set('Cookie', user2.cookies),
+          .use(withCsrf(user2.cookies)),
         (response) => response.status === 404
       );
 
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { roundQuantity, scaleIngredients, scaleRecipe } from '@shared/scaling';
+import { parseIngredients } from '@shared/ingredients';
+import type { Recipe } from '@shared/schema';
+
+function makeRecipe(ingredients: string, servings: number): Recipe {
+  return {
+    id: 'recipe-id',
+    userId: 'user-id',
+    name: 'Test Recipe',
+    heroIngredient: 'Chicken',
+    cookTime: 30,
+    servings,
+    ingredients,
+    ingredientList: parseIngredients(ingredients),
+    instructions: 'Cook it',
+    rating: 0,
+    photo: null,
+    cookingLog: [],
+    environment: 'test',
+    createdAt: new Date(),
+  };
+}
+
+describe('Serving Size Scaling (HIGH)', () => {
+  describe('roundQuantity', () => {
+    it('should round countable items to whole numbers, never below one', () => {
+      expect(roundQuantity(2.6, null)).toBe(3);
+      expect(roundQuantity(0.3, null)).toBe(1);
+      expect(roundQuantity(1.4, 'clove')).toBe(1);
+    });
+
+    it('should round grams and millilitres to whole numbers', () => {
+      expect(roundQuantity(187.5, 'g')).toBe(188);
+      expect(roundQuantity(0.25, 'ml')).toBe(0.3);
+    });
+
+    it('should snap spoons and cups to eighths or thirds', () => {
+      expect(roundQuantity(0.333, 'cup')).toBeCloseTo(1 / 3);
+      expect(roundQuantity(0.74, 'tsp')).toBe(0.75);
+      expect(roundQuantity(0.01, 'tsp')).toBe(0.125);
+    });
+  });
+
+  describe('scaleIngredients', () => {
+    it('should leave unquantified ingredients alone', () => {
+      const [salt] = scaleIngredients(parseIngredients('Salt to taste'), 3);
+      expect(salt.quantity).toBeNull();
+    });
+
+    it('should collapse ranges that round to the same value', () => {
+      const [eggs] = scaleIngredients(parseIngredients('1-2 eggs'), 0.5);
+      expect(eggs.quantity).toBe(1);
+      expect(eggs.quantityMax).toBeNull();
+    });
+
+    it('should scale both ends of a range', () => {
+      const [garlic] = scaleIngredients(parseIngredients('2-3 cloves garlic'), 2);
+      expect(garlic.quantity).toBe(4);
+      expect(garlic.quantityMax).toBe(6);
+    });
+  });
+
+  describe('scaleRecipe', () => {
+    it('should scale from stored servings and render fractions', () => {
+      const scaled = scaleRecipe(makeRecipe('1 cup milk\n4 eggs', 4), 2);
+      expect(scaled.servings).toBe(2);
+      expect(scaled.originalServings).toBe(4);
+      expect(scaled.ingredients).toBe('1/2 cup milk\n2 eggs');
+    });
+
+    it('should render thirds rather than decimals', () => {
+      const scaled = scaleRecipe(makeRecipe('1 cup cream', 3), 1);
+      expect(scaled.ingredients).toBe('1/3 cup cream');
+    });
+
+    it('should return the recipe unchanged for its own servings', () => {
+      const recipe = makeRecipe('1 cup milk', 4);
+      const scaled = scaleRecipe(recipe, 4);
+      expect(scaled.ingredients).toBe(recipe.ingredients);
+      expect(scaled.originalServings).toBe(4);
+    });
+  });
+});
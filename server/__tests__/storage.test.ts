@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { storage } from '../storage';
 import { hashPassword } from '../auth';
+import { db } from '../db';
+import { recipes, type CookingLogEntry } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
 
 // Helper to create unique username for each test
 function uniqueUsername(base: string): string {
@@ -113,8 +117,8 @@ describe('User Storage Operations (HIGH)', () => {
       expect(user).toBeUndefined();
     });
 
-    it('should be case sensitive', async () => {
-      const username = uniqueUsername('CaseSensitive');
+    it('should be case insensitive', async () => {
+      const username = uniqueUsername('CaseInsensitive');
       const hashedPassword = await hashPassword('password123');
       await storage.createUser({
         username: username,
@@ -122,11 +126,20 @@ describe('User Storage Operations (HIGH)', () => {
         password: hashedPassword
       });
 
-      const exact = await storage.getUserByUsername(username);
-      const wrong = await storage.getUserByUsername(username.toLowerCase());
+      const lower = await storage.getUserByUsername(username.toLowerCase());
+      const upper = await storage.getUserByUsername(username.toUpperCase());
 
-      expect(exact).toBeDefined();
-      expect(wrong).toBeUndefined();
+      expect(lower!.username).toBe(username);
+      expect(upper!.username).toBe(username);
+    });
+
+    it('should refuse a second account whose username differs only by case', async () => {
+      const username = uniqueUsername('Twin');
+      const hashedPassword = await hashPassword('password123');
+      await storage.createUser({ username, email: `${username}-1@example.com`, password: hashedPassword });
+
+      await expect(storage.createUser({ username: username.toLowerCase(), email: `${username}-2@example.com`, password: hashedPassword }))
+        .rejects.toMatchObject({ code: '23505', constraint: 'users_username_lower_idx' });
     });
   });
 
@@ -151,6 +164,16 @@ describe('User Storage Operations (HIGH)', () => {
       expect(user!.username).toBe(username);
     });
 
+    it('should be case insensitive', async () => {
+      const username = uniqueUsername('emailcase');
+      const email = `${username}@example.com`;
+      await storage.createUser({ username, email, password: await hashPassword('password123') });
+
+      const user = await storage.getUserByEmail(email.toUpperCase());
+
+      expect(user!.username).toBe(username);
+    });
+
     it('should return undefined for non-existent email', async () => {
       const user = await storage.getUserByEmail('nonexistent@example.com');
       expect(user).toBeUndefined();
@@ -333,6 +356,23 @@ describe('Recipe Storage Operations (HIGH)', () => {
 
       expect(recipe.rating).toBe(0);
     });
+
+    it('should parse free-text ingredients into a structured list', async () => {
+      const recipe = await storage.createRecipe({
+        name: 'Structured Recipe',
+        heroIngredient: 'Vegetable',
+        cookTime: 15,
+        servings: 2,
+        ingredients: '2 tbsp olive oil\nFor the dressing:\n1 lemon, juiced',
+        instructions: 'Toss it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+
+      expect(recipe.ingredientList).toHaveLength(2);
+      expect(recipe.ingredientList![0]).toMatchObject({ quantity: 2, unit: 'tbsp', item: 'olive oil' });
+      expect(recipe.ingredientList![1]).toMatchObject({ item: 'lemon', note: 'juiced', group: 'For the dressing' });
+    });
   });
 
   describe('getRecipe', () => {
@@ -468,6 +508,149 @@ describe('Recipe Storage Operations (HIGH)', () => {
     });
   });
 
+  describe('listRecipes', () => {
+    async function createSearchRecipes() {
+      await waitForPropagation();
+      const base = { servings: 4, instructions: 'Cook it', cookingLog: [], environment: 'test' };
+      const curry = await storage.createRecipe({ ...base, name: 'Green Curry', heroIngredient: 'Chicken', cookTime: 40, ingredients: '1 cup coconut milk' }, userId);
+      const salad = await storage.createRecipe({ ...base, name: 'Tomato Salad', heroIngredient: 'Vegetable', cookTime: 10, ingredients: '2 tomatoes' }, userId);
+      const stew = await storage.createRecipe({ ...base, name: 'beef stew', heroIngredient: 'Beef', cookTime: 120, ingredients: '500 g beef' }, userId);
+      // Cooked after every recipe was added, salad most recently
+      await storage.addCookingLog(curry.id, { timestamp: new Date(Date.now() + 60_000).toISOString(), notes: 'Great', rating: 5 }, userId);
+      await storage.addCookingLog(salad.id, { timestamp: new Date(Date.now() + 120_000).toISOString(), notes: 'Fine', rating: 3 }, userId);
+      return { curry, salad, stew };
+    }
+
+    const defaults = { sort: 'recent' as const, limit: 20 };
+
+    it('should match the search term against name, hero ingredient and ingredients', async () => {
+      await createSearchRecipes();
+
+      const byIngredient = await storage.listRecipes(userId, { ...defaults, q: 'COCONUT' });
+      expect(byIngredient?.recipes.map(r => r.name)).toEqual(['Green Curry']);
+
+      const byHero = await storage.listRecipes(userId, { ...defaults, q: 'vegetable' });
+      expect(byHero?.recipes.map(r => r.name)).toEqual(['Tomato Salad']);
+
+      // LIKE wildcards in the term are matched literally
+      const wildcard = await storage.listRecipes(userId, { ...defaults, q: '%' });
+      expect(wildcard?.recipes).toEqual([]);
+    });
+
+    it('should apply hero ingredient, rating and cook time filters', async () => {
+      await createSearchRecipes();
+
+      const beef = await storage.listRecipes(userId, { ...defaults, heroIngredient: 'Beef' });
+      expect(beef?.recipes.map(r => r.name)).toEqual(['beef stew']);
+
+      const rated = await storage.listRecipes(userId, { ...defaults, minRating: 3 });
+      expect(rated?.recipes.map(r => r.name).sort()).toEqual(['Green Curry', 'Tomato Salad']);
+
+      const quick = await storage.listRecipes(userId, { ...defaults, maxCookTime: 40 });
+      expect(quick?.recipes.map(r => r.name).sort()).toEqual(['Green Curry', 'Tomato Salad']);
+    });
+
+    it('should order by the requested sort', async () => {
+      await createSearchRecipes();
+
+      const byRating = await storage.listRecipes(userId, { ...defaults, sort: 'rating' });
+      expect(byRating?.recipes.map(r => r.name)).toEqual(['Green Curry', 'Tomato Salad', 'beef stew']);
+
+      const quickest = await storage.listRecipes(userId, { ...defaults, sort: 'quickest' });
+      expect(quickest?.recipes.map(r => r.name)).toEqual(['Tomato Salad', 'Green Curry', 'beef stew']);
+
+      // Case-insensitive
+      const byName = await storage.listRecipes(userId, { ...defaults, sort: 'name' });
+      expect(byName?.recipes.map(r => r.name)).toEqual(['beef stew', 'Green Curry', 'Tomato Salad']);
+
+      const recent = await storage.listRecipes(userId, defaults);
+      expect(recent?.recipes.map(r => r.name)).toEqual(['Tomato Salad', 'Green Curry', 'beef stew']);
+    });
+
+    it('should page through results with cursors', async () => {
+      await createSearchRecipes();
+
+      for (const sort of ['recent', 'newest', 'rating', 'quickest', 'name'] as const) {
+        const all = await storage.listRecipes(userId, { sort, limit: 20 });
+        const first = await storage.listRecipes(userId, { sort, limit: 2 });
+        expect(first?.recipes).toHaveLength(2);
+        expect(first?.nextCursor).toBeTruthy();
+
+        const second = await storage.listRecipes(userId, { sort, limit: 2, cursor: first!.nextCursor! });
+        expect(second?.recipes).toHaveLength(1);
+        expect(second?.nextCursor).toBeNull();
+
+        expect([...first!.recipes, ...second!.recipes].map(r => r.id)).toEqual(all!.recipes.map(r => r.id));
+      }
+    });
+
+    it('should reject a cursor issued for another sort order', async () => {
+      await createSearchRecipes();
+
+      const first = await storage.listRecipes(userId, { sort: 'name', limit: 1 });
+      expect(await storage.listRecipes(userId, { sort: 'rating', limit: 1, cursor: first!.nextCursor! })).toBeUndefined();
+      expect(await storage.listRecipes(userId, { sort: 'name', limit: 1, cursor: 'not-a-cursor' })).toBeUndefined();
+    });
+  });
+
+  describe('searchRecipes', () => {
+    async function createSearchableRecipes() {
+      await waitForPropagation();
+      const base = { servings: 4, cookingLog: [], environment: 'test' };
+      const salad = await storage.createRecipe({ ...base, name: 'Summer Salad', heroIngredient: 'Vegetable', cookTime: 10, ingredients: '4 ripe tomatoes\n1 cucumber', instructions: 'Slice the tomatoes and dress with olive oil' }, userId);
+      const soup = await storage.createRecipe({ ...base, name: 'Tomato Soup', heroIngredient: 'Vegetable', cookTime: 40, ingredients: '1 kg tomatoes\n1 onion', instructions: 'Simmer and blend' }, userId);
+      const stew = await storage.createRecipe({ ...base, name: 'Beef Stew', heroIngredient: 'Beef', cookTime: 120, ingredients: '500 g beef', instructions: 'Brown the beef, then braise slowly' }, userId);
+      await storage.addCookingLog(stew.id, { timestamp: new Date().toISOString(), notes: 'Added smoked paprika, much better', rating: 4 }, userId);
+      return { salad, soup, stew };
+    }
+
+    it('should match stemmed words and rank name matches first', async () => {
+      await createSearchableRecipes();
+
+      const results = await storage.searchRecipes(userId, { q: 'tomato', limit: 20 });
+
+      expect(results.map(r => r.recipe.name)).toEqual(['Tomato Soup', 'Summer Salad']);
+      expect(results[0].rank).toBeGreaterThan(results[1].rank);
+    });
+
+    it('should support phrases and excluded words', async () => {
+      await createSearchableRecipes();
+
+      const phrase = await storage.searchRecipes(userId, { q: '"olive oil"', limit: 20 });
+      expect(phrase.map(r => r.recipe.name)).toEqual(['Summer Salad']);
+
+      const excluded = await storage.searchRecipes(userId, { q: 'tomatoes -soup', limit: 20 });
+      expect(excluded.map(r => r.recipe.name)).toEqual(['Summer Salad']);
+    });
+
+    it('should search cooking notes and highlight the match', async () => {
+      await createSearchableRecipes();
+
+      const results = await storage.searchRecipes(userId, { q: 'paprika', limit: 20 });
+
+      expect(results.map(r => r.recipe.name)).toEqual(['Beef Stew']);
+      expect(results[0].recipe.cookingLog).toHaveLength(1);
+      expect(results[0].snippet).toContainEqual({ text: 'paprika', highlighted: true });
+      expect(results[0].snippet.map(segment => segment.text).join('')).toContain('smoked paprika');
+    });
+
+    it('should apply listing filters to search results', async () => {
+      await createSearchableRecipes();
+
+      const results = await storage.searchRecipes(userId, { q: 'tomatoes', maxCookTime: 15, limit: 20 });
+
+      expect(results.map(r => r.recipe.name)).toEqual(['Summer Salad']);
+    });
+
+    it('should not search other collections', async () => {
+      await createSearchableRecipes();
+
+      const publicResults = await storage.searchRecipes(undefined, { q: 'paprika', limit: 20 });
+
+      expect(publicResults).toEqual([]);
+    });
+  });
+
   describe('updateRecipe', () => {
     // Skipped due to extreme Neon serverless eventual consistency lag
     // See docs/troubleshooting/neon_consistency.md
@@ -630,6 +813,7 @@ describe('Recipe Storage Operations (HIGH)', () => {
       expect(updated).toBeDefined();
       expect(updated!.cookingLog).toHaveLength(1);
       expect(updated!.cookingLog[0].notes).toBe('Delicious!');
+      expect(updated!.cookingLog[0].id).toEqual(expect.any(String));
       expect(updated!.cookingLog[0].rating).toBe(5);
       expect(updated!.rating).toBe(5);
     });
@@ -693,6 +877,35 @@ describe('Recipe Storage Operations (HIGH)', () => {
       // Most recent should be first
       expect(updated!.cookingLog[0].notes).toBe('Second');
       expect(updated!.cookingLog[1].notes).toBe('First');
+      expect(updated!.cookingLog[0].id).not.toBe(updated!.cookingLog[1].id);
+    });
+
+    it('should keep every entry when sessions are logged concurrently', async () => {
+      const recipe = await storage.createRecipe({
+        name: 'Busy Kitchen Recipe',
+        heroIngredient: 'Chicken',
+        cookTime: 30,
+        servings: 4,
+        ingredients: 'Chicken',
+        instructions: 'Roast it',
+        environment: 'test'
+      }, userId);
+
+      await waitForPropagation();
+
+      await Promise.all([1, 2, 3, 4, 5].map(rating =>
+        storage.addCookingLog(recipe.id, {
+          timestamp: new Date().toISOString(),
+          notes: `Attempt ${rating}`,
+          rating
+        }, userId)
+      ));
+
+      const updated = await storage.getRecipe(recipe.id);
+      expect(updated!.cookingLog).toHaveLength(5);
+      expect(new Set(updated!.cookingLog.map(entry => entry.id)).size).toBe(5);
+      // Average of 1-5 is 3
+      expect(updated!.rating).toBe(3);
     });
 
     it('should verify ownership', async () => {
@@ -728,8 +941,127 @@ describe('Recipe Storage Operations (HIGH)', () => {
     });
   });
 
+  describe('updateCookingLog', () => {
+    it('should update notes and rating and recalculate the recipe rating', async () => {
+      const recipe = await storage.createRecipe({
+        name: 'Update Log Recipe',
+        heroIngredient: 'Fish',
+        cookTime: 20,
+        servings: 2,
+        ingredients: 'Fish',
+        instructions: 'Fry it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+
+      await storage.addCookingLog(recipe.id, {
+        timestamp: new Date().toISOString(),
+        notes: 'Good',
+        rating: 5
+      }, userId);
+
+      const withBoth = await storage.addCookingLog(recipe.id, {
+        timestamp: new Date().toISOString(),
+        notes: 'Too salty',
+        rating: 5
+      }, userId);
+      const entryId = withBoth!.cookingLog[0].id;
+
+      const updated = await storage.updateCookingLog(recipe.id, entryId, {
+        notes: 'Too salty - halve the salt next time',
+        rating: 1
+      }, userId);
+
+      expect(updated!.cookingLog[0].id).toBe(entryId);
+      expect(updated!.cookingLog[0].notes).toBe('Too salty - halve the salt next time');
+      expect(updated!.cookingLog[0].rating).toBe(1);
+      // Average of 5 and 1 is 3
+      expect(updated!.rating).toBe(3);
+    });
+
+    it('should keep the log newest first when the date changes', async () => {
+      const recipe = await storage.createRecipe({
+        name: 'Redated Log Recipe',
+        heroIngredient: 'Beef',
+        cookTime: 60,
+        servings: 4,
+        ingredients: 'Beef',
+        instructions: 'Braise it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+
+      await storage.addCookingLog(recipe.id, {
+        timestamp: '2024-03-01T18:00:00.000Z',
+        notes: 'Older',
+        rating: 4
+      }, userId);
+
+      const withBoth = await storage.addCookingLog(recipe.id, {
+        timestamp: '2024-03-10T18:00:00.000Z',
+        notes: 'Logged late',
+        rating: 4
+      }, userId);
+
+      // The session actually happened before the older entry
+      const updated = await storage.updateCookingLog(recipe.id, withBoth!.cookingLog[0].id, {
+        timestamp: '2024-02-20T18:00:00.000Z'
+      }, userId);
+
+      expect(updated!.cookingLog.map(entry => entry.notes)).toEqual(['Older', 'Logged late']);
+    });
+
+    it('should return undefined for an unknown entry id', async () => {
+      const recipe = await storage.createRecipe({
+        name: 'Unknown Update Recipe',
+        heroIngredient: 'Pasta',
+        cookTime: 15,
+        servings: 2,
+        ingredients: 'Pasta',
+        instructions: 'Boil it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+
+      const updated = await storage.updateCookingLog(recipe.id, 'no-such-entry', { rating: 3 }, userId);
+
+      expect(updated).toBeUndefined();
+    });
+
+    it('should verify ownership', async () => {
+      const username = uniqueUsername('updateother');
+      const hashedPassword = await hashPassword('password123');
+      const otherUser = await storage.createUser({
+        username: username,
+        email: `${username}@example.com`,
+        password: hashedPassword
+      });
+
+      const recipe = await storage.createRecipe({
+        name: 'Protected Update Recipe',
+        heroIngredient: 'Seafood',
+        cookTime: 40,
+        servings: 4,
+        ingredients: 'Shrimp',
+        instructions: 'Cook it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+
+      const withLog = await storage.addCookingLog(recipe.id, {
+        timestamp: new Date().toISOString(),
+        notes: 'Test',
+        rating: 4
+      }, userId);
+
+      const updated = await storage.updateCookingLog(recipe.id, withLog!.cookingLog[0].id, { rating: 1 }, otherUser.id);
+
+      expect(updated).toBeUndefined();
+    });
+  });
+
   describe('removeCookingLog', () => {
-    it('should remove cooking log entry by index', async () => {
+    it('should remove cooking log entry by id', async () => {
       const recipe = await storage.createRecipe({
         name: 'Remove Log Recipe',
         heroIngredient: 'Pasta',
@@ -747,7 +1079,7 @@ describe('Recipe Storage Operations (HIGH)', () => {
         rating: 4
       }, userId);
 
-      await storage.addCookingLog(recipe.id, {
+      const second = await storage.addCookingLog(recipe.id, {
         timestamp: new Date().toISOString(),
         notes: 'Second',
         rating: 5
@@ -756,7 +1088,7 @@ describe('Recipe Storage Operations (HIGH)', () => {
       // Wait for cooking logs to propagate
       await waitForPropagation();
 
-      const updated = await storage.removeCookingLog(recipe.id, 0, userId);
+      const updated = await storage.removeCookingLog(recipe.id, second!.cookingLog[0].id, userId);
 
       expect(updated).toBeDefined();
       expect(updated!.cookingLog).toHaveLength(1);
@@ -784,14 +1116,14 @@ describe('Recipe Storage Operations (HIGH)', () => {
         rating: 3
       }, userId);
 
-      await storage.addCookingLog(recipe.id, {
+      const withBoth = await storage.addCookingLog(recipe.id, {
         timestamp: new Date().toISOString(),
         notes: 'Great',
         rating: 5
       }, userId);
 
-      // Remove rating 5 entry (index 0)
-      const updated = await storage.removeCookingLog(recipe.id, 0, userId);
+      // Remove rating 5 entry
+      const updated = await storage.removeCookingLog(recipe.id, withBoth!.cookingLog[0].id, userId);
 
       // Rating should now be 3
       expect(updated!.rating).toBe(3);
@@ -809,7 +1141,7 @@ describe('Recipe Storage Operations (HIGH)', () => {
         environment: 'test'
       }, userId);
 
-      await storage.addCookingLog(recipe.id, {
+      const withLog = await storage.addCookingLog(recipe.id, {
         timestamp: new Date().toISOString(),
         notes: 'Only one',
         rating: 4
@@ -818,7 +1150,7 @@ describe('Recipe Storage Operations (HIGH)', () => {
       // Wait for cooking log to propagate
       await waitForPropagation();
 
-      const updated = await storage.removeCookingLog(recipe.id, 0, userId);
+      const updated = await storage.removeCookingLog(recipe.id, withLog!.cookingLog[0].id, userId);
 
       expect(updated!.cookingLog).toHaveLength(0);
       expect(updated!.rating).toBe(0);
@@ -826,9 +1158,9 @@ describe('Recipe Storage Operations (HIGH)', () => {
 
     // Skipped due to extreme Neon serverless eventual consistency lag
     // See docs/troubleshooting/neon_consistency.md
-    it('should handle invalid index', async () => {
+    it('should return undefined for an unknown entry id', async () => {
       const recipe = await storage.createRecipe({
-        name: 'Invalid Index Recipe',
+        name: 'Unknown Entry Recipe',
         heroIngredient: 'Chicken',
         cookTime: 30,
         servings: 4,
@@ -838,9 +1170,49 @@ describe('Recipe Storage Operations (HIGH)', () => {
         environment: 'test'
       }, userId);
 
-      const updated = await storage.removeCookingLog(recipe.id, 0, userId);
+      await storage.addCookingLog(recipe.id, {
+        timestamp: new Date().toISOString(),
+        notes: 'Keep me',
+        rating: 4
+      }, userId);
+
+      const updated = await storage.removeCookingLog(recipe.id, 'no-such-entry', userId);
 
       expect(updated).toBeUndefined();
+      const unchanged = await storage.getRecipe(recipe.id);
+      expect(unchanged!.cookingLog).toHaveLength(1);
+    });
+
+    it('should not remove a different entry after the log shifts', async () => {
+      const recipe = await storage.createRecipe({
+        name: 'Shifting Log Recipe',
+        heroIngredient: 'Pork',
+        cookTime: 30,
+        servings: 4,
+        ingredients: 'Pork',
+        instructions: 'Roast it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+
+      const withFirst = await storage.addCookingLog(recipe.id, {
+        timestamp: new Date().toISOString(),
+        notes: 'Target',
+        rating: 3
+      }, userId);
+      const targetId = withFirst!.cookingLog[0].id;
+
+      // A newer entry is prepended, so the target is no longer at index 0
+      await storage.addCookingLog(recipe.id, {
+        timestamp: new Date().toISOString(),
+        notes: 'Newer',
+        rating: 5
+      }, userId);
+
+      const updated = await storage.removeCookingLog(recipe.id, targetId, userId);
+
+      expect(updated!.cookingLog).toHaveLength(1);
+      expect(updated!.cookingLog[0].notes).toBe('Newer');
     });
 
     it('should verify ownership', async () => {
@@ -863,15 +1235,78 @@ describe('Recipe Storage Operations (HIGH)', () => {
         environment: 'test'
       }, userId);
 
-      await storage.addCookingLog(recipe.id, {
+      const withLog = await storage.addCookingLog(recipe.id, {
         timestamp: new Date().toISOString(),
         notes: 'Test',
         rating: 4
       }, userId);
 
-      const updated = await storage.removeCookingLog(recipe.id, 0, otherUser.id);
+      const updated = await storage.removeCookingLog(recipe.id, withLog!.cookingLog[0].id, otherUser.id);
 
       expect(updated).toBeUndefined();
     });
   });
+
+  // Recipes whose log is still in the JSONB column, as before db:migrate-data has run
+  describe('legacy cooking logs', () => {
+    async function createLegacyRecipe(log: CookingLogEntry[], rating: number) {
+      const recipe = await storage.createRecipe({
+        name: 'Legacy Log Recipe',
+        heroIngredient: 'Beef',
+        cookTime: 90,
+        servings: 4,
+        ingredients: 'Beef',
+        instructions: 'Braise it',
+        cookingLog: [],
+        environment: 'test'
+      }, userId);
+      await db.update(recipes).set({ cookingLog: log, rating }).where(eq(recipes.id, recipe.id));
+      return recipe;
+    }
+
+    let legacyId: string;
+    let legacyLog: CookingLogEntry[];
+
+    beforeEach(() => {
+      legacyId = randomUUID();
+      legacyLog = [
+        { id: legacyId, timestamp: '2024-01-10T18:00:00.000Z', notes: 'Too salty', rating: 3, photos: ['/uploads/braise.jpg'] },
+        { timestamp: '2024-02-10T18:00:00.000Z', notes: 'Perfect', rating: 5 } as CookingLogEntry, // Logged before ids existed
+      ];
+    });
+
+    it('should show the legacy log, moved into cooking sessions', async () => {
+      const recipe = await createLegacyRecipe(legacyLog, 4);
+
+      const fetched = await storage.getRecipe(recipe.id);
+
+      expect(fetched?.cookingLog?.map(entry => entry.notes)).toEqual(['Perfect', 'Too salty']);
+      expect(fetched?.cookingLog?.[1]).toMatchObject({ id: legacyId, rating: 3, photos: ['/uploads/braise.jpg'] });
+      expect(fetched?.cookingLog?.[0].id).toEqual(expect.any(String));
+      expect(fetched?.rating).toBe(4);
+      const [row] = await db.select().from(recipes).where(eq(recipes.id, recipe.id));
+      expect(row.cookingLog).toEqual([]);
+
+      // The ids shown are the ones kept
+      expect((await storage.getRecipe(recipe.id))?.cookingLog).toEqual(fetched?.cookingLog);
+    });
+
+    it('should count legacy entries in the rating when a session is added', async () => {
+      const recipe = await createLegacyRecipe(legacyLog, 4);
+
+      const updated = await storage.addCookingLog(recipe.id, { timestamp: new Date().toISOString(), notes: 'Fine', rating: 1 }, userId);
+
+      expect(updated?.cookingLog).toHaveLength(3);
+      expect(updated?.rating).toBe(3);
+    });
+
+    it('should move the legacy log before changing it', async () => {
+      const recipe = await createLegacyRecipe(legacyLog, 4);
+
+      const updated = await storage.removeCookingLog(recipe.id, legacyId, userId);
+
+      expect(updated?.cookingLog?.map(entry => entry.notes)).toEqual(['Perfect']);
+      expect(updated?.rating).toBe(5);
+    });
+  });
 });
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { generateTotpSecret, totpCode, totpStep, verifyTotp, isTotpCode, totpUri, generateRecoveryCodes, hashRecoveryCode } from '../totp';
+
+// Base32 of the ASCII secret "12345678901234567890" from RFC 6238, appendix B
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP codes', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    // The RFC lists 8-digit codes; authenticator apps show the last 6
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+    expect(totpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+    expect(totpCode(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from the neighbouring steps only', () => {
+    const now = 1700000000 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('should generate distinct base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('should tell authenticator codes from recovery codes', () => {
+    expect(isTotpCode('123456')).toBe(true);
+    expect(isTotpCode('123 456')).toBe(true);
+    expect(isTotpCode('k3m9p-x2r7q')).toBe(false);
+  });
+
+  it('should build an otpauth link for authenticator apps', () => {
+    const uri = totpUri(RFC_SECRET, 'cook');
+
+    expect(uri).toBe(`otpauth://totp/My%20Recipe%20Kitchen%3Acook?secret=${RFC_SECRET}&issuer=My%20Recipe%20Kitchen&algorithm=SHA1&digits=6&period=30`);
+  });
+});
+
+describe('Recovery codes', () => {
+  it('should generate ten unique codes', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+  });
+
+  it('should hash codes however they are typed', () => {
+    expect(hashRecoveryCode('K3M9P X2R7Q')).toBe(hashRecoveryCode('k3m9p-x2r7q'));
+    expect(hashRecoveryCode('k3m9p-x2r7q')).not.toBe('k3m9p-x2r7q');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { convertIngredient, convertTemperatures, convertRecipe, measurementSystemOf } from '@shared/units';
+import { parseIngredientLine, parseIngredients } from '@shared/ingredients';
+import type { Recipe } from '@shared/schema';
+
+describe('Unit Conversion (HIGH)', () => {
+  describe('measurementSystemOf', () => {
+    it('should classify metric, imperial and shared units', () => {
+      expect(measurementSystemOf('g')).toBe('metric');
+      expect(measurementSystemOf('cup')).toBe('imperial');
+      expect(measurementSystemOf('tsp')).toBeNull();
+      expect(measurementSystemOf(null)).toBeNull();
+    });
+  });
+
+  describe('convertIngredient', () => {
+    it('should convert volumes to millilitres and litres', () => {
+      expect(convertIngredient(parseIngredientLine('1 cup milk'), 'metric')).toMatchObject({ quantity: 237, unit: 'ml' });
+      expect(convertIngredient(parseIngredientLine('2 quarts stock'), 'metric')).toMatchObject({ quantity: 1.89, unit: 'l' });
+    });
+
+    it('should convert weights both ways', () => {
+      expect(convertIngredient(parseIngredientLine('1 lb beef'), 'metric')).toMatchObject({ quantity: 454, unit: 'g' });
+      expect(convertIngredient(parseIngredientLine('225 g chicken'), 'imperial')).toMatchObject({ quantity: 8, unit: 'oz' });
+      expect(convertIngredient(parseIngredientLine('1 kg potatoes'), 'imperial')).toMatchObject({ unit: 'lb' });
+    });
+
+    it('should use density for dry baking ingredients', () => {
+      expect(convertIngredient(parseIngredientLine('2 cups flour'), 'metric')).toMatchObject({ quantity: 240, unit: 'g' });
+      expect(convertIngredient(parseIngredientLine('200 g sugar'), 'imperial')).toMatchObject({ quantity: 1, unit: 'cup' });
+      expect(convertIngredient(parseIngredientLine('1 cup brown sugar'), 'metric')).toMatchObject({ quantity: 213, unit: 'g' });
+      expect(convertIngredient(parseIngredientLine('1 cup unsalted butter, softened'), 'metric')).toMatchObject({ quantity: 227, unit: 'g' });
+    });
+
+    it('should only use density for whole-word ingredient names', () => {
+      expect(convertIngredient(parseIngredientLine('1 cup buttermilk'), 'metric')).toMatchObject({ quantity: 237, unit: 'ml' });
+      expect(convertIngredient(parseIngredientLine('1 cup rice vinegar'), 'metric')).toMatchObject({ quantity: 237, unit: 'ml' });
+      expect(convertIngredient(parseIngredientLine('1 cup goat cheese'), 'metric')).toMatchObject({ quantity: 237, unit: 'ml' });
+      expect(convertIngredient(parseIngredientLine('1 cup goats cheese'), 'metric')).toMatchObject({ quantity: 237, unit: 'ml' });
+      expect(convertIngredient(parseIngredientLine('2 cups sugar snap peas'), 'metric')).toMatchObject({ quantity: 473, unit: 'ml' });
+      expect(convertIngredient(parseIngredientLine('1 cup rolled oats'), 'metric')).toMatchObject({ quantity: 90, unit: 'g' });
+    });
+
+    it('should pick spoons for small imperial volumes', () => {
+      expect(convertIngredient(parseIngredientLine('30 ml lemon juice'), 'imperial')).toMatchObject({ quantity: 2, unit: 'tbsp' });
+      expect(convertIngredient(parseIngredientLine('5 ml vanilla'), 'imperial')).toMatchObject({ quantity: 1, unit: 'tsp' });
+    });
+
+    it('should leave spoons, countable and unitless ingredients alone', () => {
+      const tsp = parseIngredientLine('1 tsp salt');
+      const eggs = parseIngredientLine('3 eggs');
+      expect(convertIngredient(tsp, 'metric')).toBe(tsp);
+      expect(convertIngredient(eggs, 'imperial')).toBe(eggs);
+    });
+
+    it('should not convert ingredients already in the target system', () => {
+      const flour = parseIngredientLine('250 g flour');
+      expect(convertIngredient(flour, 'metric')).toBe(flour);
+    });
+  });
+
+  describe('convertTemperatures', () => {
+    it('should convert Fahrenheit to Celsius', () => {
+      expect(convertTemperatures('Preheat oven to 350°F.', 'metric')).toBe('Preheat oven to 180°C.');
+      expect(convertTemperatures('Bake at 425 degrees F', 'metric')).toBe('Bake at 220°C');
+    });
+
+    it('should convert Celsius to Fahrenheit', () => {
+      expect(convertTemperatures('Heat the oven to 180 °C', 'imperial')).toBe('Heat the oven to 350°F');
+      expect(convertTemperatures('Roast at 200C for 20 minutes', 'imperial')).toBe('Roast at 400°F for 20 minutes');
+    });
+
+    it('should leave temperatures already in the target system alone', () => {
+      expect(convertTemperatures('Bake at 180°C', 'metric')).toBe('Bake at 180°C');
+    });
+
+    it('should leave numbers longer than a temperature alone', () => {
+      expect(convertTemperatures('Kilns reach 1350°F', 'metric')).toBe('Kilns reach 1350°F');
+      expect(convertTemperatures('Fire at 1200C', 'imperial')).toBe('Fire at 1200C');
+    });
+  });
+
+  describe('convertRecipe', () => {
+    it('should convert ingredients and instructions together', () => {
+      const ingredients = '2 cups flour\n1 cup milk';
+      const recipe = {
+        ingredients,
+        ingredientList: parseIngredients(ingredients),
+        instructions: 'Bake at 350°F',
+      } as Recipe;
+
+      const converted = convertRecipe(recipe, 'metric');
+      expect(converted.ingredients).toBe('240 g flour\n237 ml milk');
+      expect(converted.instructions).toBe('Bake at 180°C');
+    });
+  });
+});
@@ -2,14 +2,16 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash, createHmac } from "crypto";
 import { promisify } from "util";
 import rateLimit from "express-rate-limit";
-import { storage } from "./storage";
-import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { storage, type SessionDevice } from "./storage";
+import { User as SelectUser, insertUserSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, twoFactorCodeSchema, confirmPasswordSchema, type TwoFactorSetup, type ApiTokenScope } from "@shared/schema";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 import { fromError } from "zod-validation-error";
+import { sendTemplatedMail } from "./mailer";
+import { generateTotpSecret, verifyTotp, isTotpCode, totpUri, totpQrCode, generateRecoveryCodes, hashRecoveryCode } from "./totp";
 
 // Strict rate limiter for authentication endpoints (prevent brute force)
 const authLimiter = rateLimit({
@@ -22,33 +24,108 @@ const authLimiter = rateLimit({
   skip: () => process.env.NODE_ENV === 'test', // Skip rate limiting in test environment
 });
 
-// CSRF protection middleware for state-changing requests
-// Uses double-submit cookie pattern with SameSite cookies
+// Password reset requests send email, so they are limited per IP on their own
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // Limit each IP to 5 reset requests per hour
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: "Too many password reset attempts, please try again later" },
+  skip: () => process.env.NODE_ENV === 'test', // Skip rate limiting in test environment
+});
+
+// Resending verification emails is limited the same way
+const emailVerificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // Limit each IP to 5 verification requests per hour
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: "Too many verification requests, please try again later" },
+  skip: () => process.env.NODE_ENV === 'test', // Skip rate limiting in test environment
+});
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // Reset links work for 1 hour
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000; // Time to enter the code after the password
+const MAX_TWO_FACTOR_ATTEMPTS = 5; // Wrong codes before the password must be entered again
+const SESSION_ACTIVITY_INTERVAL_MS = 5 * 60 * 1000; // Refresh a session's "last seen" at most this often
+const API_TOKEN_ACTIVITY_INTERVAL_MS = 60 * 1000; // Refresh a token's "last used" at most this often
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // Verification links work for 24 hours
+const CSRF_COOKIE = "csrf_token";
+const CSRF_HEADER = "X-CSRF-Token";
+
+function sessionSecret(): string {
+  return process.env.SESSION_SECRET || "your-secret-key-change-in-production";
+}
+
+// CSRF protection uses signed double-submit tokens. The server sets a readable csrf_token
+// cookie (see issueCsrfToken); the client echoes it in the X-CSRF-Token header on every
+// state-changing request. Another site can neither read the cookie nor set the header.
+// Tokens are an HMAC of a nonce and the session they were issued for, so a token planted
+// in the cookie, or kept from before signing in or out, is refused.
+
+// Before sign-in there is no lasting session to tie the token to
+function csrfBinding(req: Request): string {
+  return req.isAuthenticated() && !req.apiToken ? req.sessionID : "";
+}
+
+function signCsrfToken(nonce: string, binding: string): string {
+  return createHmac("sha256", sessionSecret()).update(`csrf.${nonce}.${binding}`).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+// A token for the given session id, or for requests before sign-in when there is none
+export function createCsrfToken(sessionId = ""): string {
+  const nonce = randomBytes(16).toString("base64url");
+  return `${nonce}.${signCsrfToken(nonce, sessionId)}`;
+}
+
+// Sets a fresh token cookie for the current session and returns the token. Called whenever the
+// session changes hands (sign-in, sign-out) so the client always holds a token that works.
+export function issueCsrfToken(req: Request, res: Response): string {
+  const token = createCsrfToken(csrfBinding(req));
+  res.cookie(CSRF_COOKIE, token, {
+    httpOnly: false, // The client reads it to send the header
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+  });
+  return token;
+}
+
 export const csrfProtection = (req: Request, res: Response, next: NextFunction) => {
   // Skip CSRF check for GET, HEAD, OPTIONS requests (safe methods)
-  if (['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+  if (SAFE_METHODS.includes(req.method)) {
     return next();
   }
 
-  // For API requests, verify the request has a valid origin
-  // This works because browsers enforce CORS and SameSite cookies
-  const origin = req.get('origin');
-  const host = req.get('host');
-
-  // Allow requests without origin header (same-origin requests from non-browser clients)
-  // or verify origin matches host for browser requests
-  if (origin) {
-    try {
-      const originUrl = new URL(origin);
-      const expectedHost = host?.split(':')[0]; // Remove port if present
-      const originHost = originUrl.hostname;
+  // Browsers never attach an Authorization header on their own, so API token requests can't be forged
+  if (req.apiToken) {
+    return next();
+  }
 
-      if (originHost !== expectedHost && originHost !== 'localhost' && expectedHost !== 'localhost') {
-        return res.status(403).json({ error: "CSRF validation failed" });
-      }
-    } catch {
-      return res.status(403).json({ error: "Invalid origin header" });
-    }
+  const header = req.get(CSRF_HEADER);
+  const cookie = readCookie(req, CSRF_COOKIE);
+  const [nonce, signature] = header?.split(".") ?? [];
+  if (!header || !cookie || !nonce || !signature
+    || !safeEqual(signature, signCsrfToken(nonce, csrfBinding(req)))
+    || !safeEqual(header, cookie)) {
+    return res.status(403).json({ error: "Invalid CSRF token" });
   }
 
   next();
@@ -57,6 +134,92 @@ export const csrfProtection = (req: Request, res: Response, next: NextFunction)
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      apiToken?: { id: string; scope: ApiTokenScope }; // Set when authenticated by a bearer token
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password checks out for an account with two-factor sign-in on
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    device?: SessionDevice;
+  }
+}
+
+function describeDevice(req: Request, createdAt: number | null): SessionDevice {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+    ip: req.ip ?? null,
+    createdAt,
+    lastSeenAt: Date.now(),
+  };
+}
+
+// Sign the user in and note which device the session belongs to, for the sessions list.
+// Signing in starts a new session, so the CSRF token is replaced too.
+function logInWithDevice(req: Request, res: Response, user: SelectUser, done: (err?: any) => void) {
+  req.logIn(user, (err) => {
+    if (err) return done(err);
+    req.session.device = describeDevice(req, Date.now());
+    issueCsrfToken(req, res);
+    done();
+  });
+}
+
+// Middleware to require authentication
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+};
+
+// Account and security settings need a signed-in session; an API token can't be used to
+// change the password, manage sessions or tokens, or turn off two-factor sign-in
+export const requireSessionAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (req.apiToken) {
+    return res.status(403).json({ error: "Not available with an API token" });
+  }
+  next();
+};
+
+// A new personal API token; "mrk_" marks it as ours if it turns up in a log or a repository
+export function generateApiToken() {
+  const token = `mrk_${randomBytes(24).toString("base64url")}`;
+  return { token, tokenHash: hashToken(token), tokenPrefix: token.slice(0, 12) };
+}
+
+// Scripts send `Authorization: Bearer <token>` instead of a session cookie. An invalid token is
+// rejected outright rather than falling back to the session.
+async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("authorization");
+  if (!header?.startsWith("Bearer ") || !req.path.startsWith("/api/")) {
+    return next();
+  }
+
+  try {
+    const found = await storage.getApiTokenByHash(hashToken(header.slice("Bearer ".length).trim()));
+    if (!found) {
+      return res.status(401).json({ error: "Invalid or expired API token" });
+    }
+    const { token, user } = found;
+    if (token.scope === "read" && !SAFE_METHODS.includes(req.method)) {
+      return res.status(403).json({ error: "This API token can only read" });
+    }
+
+    req.user = user;
+    req.apiToken = { id: token.id, scope: token.scope as ApiTokenScope };
+    if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > API_TOKEN_ACTIVITY_INTERVAL_MS) {
+      await storage.touchApiToken(token.id);
+    }
+    next();
+  } catch (error) {
+    next(error);
   }
 }
 
@@ -75,6 +238,50 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Tokens (emailed links and API tokens) are stored hashed, so a leaked database row can't be
+// used to reset a password, verify an address or call the API
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Links in emails point at APP_URL; set it in production so the Host header can't redirect them
+function appUrl(req: Request) {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+// Fields returned to the signed-in user about themselves (never the password or tokens)
+export function currentUserResponse(user: SelectUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    displayName: user.displayName,
+    measurementSystem: user.measurementSystem,
+    emailVerifiedAt: user.emailVerifiedAt,
+    totpEnabledAt: user.totpEnabledAt,
+  };
+}
+
+// Accepts a current authenticator code or an unused recovery code; either works only once
+async function checkSecondFactor(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  if (isTotpCode(code)) {
+    const step = verifyTotp(user.totpSecret, code);
+    return step !== null && await storage.useTotpStep(user.id, step);
+  }
+  return storage.useTotpRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+// Store a fresh verification token (replacing any earlier one) and email the link
+async function sendVerificationEmail(req: Request, user: SelectUser) {
+  const token = randomBytes(32).toString("hex");
+  await storage.setEmailVerificationToken(user.id, hashToken(token), new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS));
+  sendTemplatedMail(user.email, "emailVerification", {
+    name: user.displayName || user.username,
+    verifyUrl: `${appUrl(req)}/auth/verify-email?token=${token}`,
+  });
+}
+
 export function setupAuth(app: Express) {
   const PostgresSessionStore = connectPg(session);
 
@@ -84,7 +291,7 @@ export function setupAuth(app: Express) {
   }
 
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "your-secret-key-change-in-production",
+    secret: sessionSecret(),
     resave: false,
     saveUninitialized: false,
     store: new PostgresSessionStore({
@@ -104,10 +311,29 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Keep "last seen" roughly current without rewriting the session on every request
+  app.use((req, _res, next) => {
+    if (req.isAuthenticated()) {
+      const device = req.session.device;
+      if (!device) {
+        req.session.device = describeDevice(req, null);
+      } else if (Date.now() - device.lastSeenAt > SESSION_ACTIVITY_INTERVAL_MS) {
+        req.session.device = describeDevice(req, device.createdAt);
+      }
+    }
+    next();
+  });
+
+  // After the session activity above, so token requests never create or touch a session
+  app.use(authenticateApiToken);
+
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    // The "username" field takes a username or an email; usernames can't contain "@"
+    new LocalStrategy(async (identifier, password, done) => {
       try {
-        const user = await storage.getUserByUsername(username);
+        const user = identifier.includes("@")
+          ? await storage.getUserByEmail(identifier.trim())
+          : await storage.getUserByUsername(identifier.trim());
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
         }
@@ -159,10 +385,11 @@ export function setupAuth(app: Express) {
         password: hashedPassword,
         displayName,
       });
+      await sendVerificationEmail(req, user);
 
-      req.login(user, (err) => {
+      logInWithDevice(req, res, user, (err) => {
         if (err) return next(err);
-        res.status(201).json({ id: user.id, username: user.username, email: user.email, displayName: user.displayName });
+        res.status(201).json(currentUserResponse(user));
       });
     } catch (error) {
       // Database constraint violation (duplicate username/email)
@@ -191,26 +418,253 @@ export function setupAuth(app: Express) {
       if (!user) {
         return res.status(401).json({ error: "Invalid credentials" });
       }
-      req.logIn(user, (err: any) => {
+      // The session only becomes signed in once POST /api/login/2fa accepts a code
+      if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS, attempts: 0 };
+        return res.json({ twoFactorRequired: true });
+      }
+      logInWithDevice(req, res, user, (err) => {
         if (err) {
           return next(err);
         }
-        return res.json({ id: user.id, username: user.username, email: user.email, displayName: user.displayName });
+        return res.json(currentUserResponse(user));
       });
     })(req, res, next);
   });
 
+  // Second sign-in step for accounts with two-factor sign-in: an authenticator or recovery code
+  app.post("/api/login/2fa", authLimiter, csrfProtection, async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Please sign in again" });
+      }
+
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !(await checkSecondFactor(user, validationResult.data.code))) {
+        pending.attempts++;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ error: "Too many incorrect codes. Please sign in again" });
+        }
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      logInWithDevice(req, res, user, (err) => {
+        if (err) return next(err);
+        res.json(currentUserResponse(user));
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify code" });
+    }
+  });
+
+  // Request a password reset email. Always answers the same way so it can't be used
+  // to find out which emails have accounts.
+  app.post("/api/forgot-password", passwordResetLimiter, csrfProtection, async (req, res) => {
+    try {
+      const validationResult = forgotPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+
+      const user = await storage.getUserByEmail(validationResult.data.email);
+      if (user) {
+        const token = randomBytes(32).toString("hex");
+        await storage.setPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + PASSWORD_RESET_TTL_MS));
+        sendTemplatedMail(user.email, "passwordReset", {
+          name: user.displayName || user.username,
+          resetUrl: `${appUrl(req)}/auth?reset=${token}`,
+        });
+      }
+
+      res.json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      console.error('Password reset request failed:', error);
+      res.status(500).json({ error: "Failed to request password reset" });
+    }
+  });
+
+  // Set a new password with the token from the emailed link; each token works once
+  app.post("/api/reset-password", passwordResetLimiter, csrfProtection, async (req, res) => {
+    try {
+      const validationResult = resetPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+
+      const { token, password } = validationResult.data;
+      const user = await storage.resetPasswordWithToken(hashToken(token), await hashPassword(password));
+      if (!user) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      }
+      // Whoever knew the old password may still be signed in somewhere, or have made a token
+      await storage.deleteOtherUserSessions(user.id);
+      await storage.deleteUserApiTokens(user.id);
+
+      res.json({ message: "Password updated. You can now sign in" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  // Confirm an email address with the token from the emailed link. Works without a
+  // session, since the link may be opened on another device.
+  app.post("/api/verify-email", emailVerificationLimiter, csrfProtection, async (req, res) => {
+    try {
+      const validationResult = verifyEmailSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+
+      const user = await storage.verifyEmailWithToken(hashToken(validationResult.data.token));
+      if (!user) {
+        return res.status(400).json({ error: "This verification link is invalid or has expired" });
+      }
+
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  // Send a new verification link to the signed-in user
+  app.post("/api/resend-verification", emailVerificationLimiter, csrfProtection, requireAuth, async (req, res) => {
+    if (req.user!.emailVerifiedAt) {
+      return res.status(400).json({ error: "Email is already verified" });
+    }
+
+    try {
+      await sendVerificationEmail(req, req.user!);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error('Resending verification email failed:', error);
+      res.status(500).json({ error: "Failed to send verification email" });
+    }
+  });
+
+  // Start two-factor enrollment: a new secret to add to an authenticator app. Nothing changes
+  // for sign-in until POST /api/2fa/enable confirms a code from it.
+  app.post("/api/2fa/setup", authLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      if (req.user!.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is already on" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setPendingTotpSecret(req.user!.id, secret);
+      const otpauthUrl = totpUri(secret, req.user!.username);
+      const setup: TwoFactorSetup = { secret, otpauthUrl, qrCode: await totpQrCode(otpauthUrl) };
+      res.json(setup);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Finish enrollment with a code from the app; the recovery codes are only ever shown here
+  app.post("/api/2fa/enable", authLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+
+      const { totpEnabledAt, totpPendingSecret } = req.user!;
+      if (totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is already on" });
+      }
+      if (!totpPendingSecret) {
+        return res.status(400).json({ error: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(totpPendingSecret, validationResult.data.code);
+      if (step === null) {
+        return res.status(400).json({ error: "That code didn't match. Check the time on your device and try again" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const user = await storage.enableTotp(req.user!.id, totpPendingSecret, step, recoveryCodes.map(hashRecoveryCode));
+      if (!user) {
+        return res.status(409).json({ error: "Two-factor setup was restarted. Scan the new code and try again" });
+      }
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  app.post("/api/2fa/disable", authLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      const validationResult = confirmPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      if (!(await comparePasswords(validationResult.data.password, req.user!.password))) {
+        return res.status(400).json({ error: "Password is incorrect" });
+      }
+
+      await storage.disableTotp(req.user!.id);
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to turn off two-factor authentication" });
+    }
+  });
+
+  // Replace all recovery codes, e.g. after using some or losing the list
+  app.post("/api/2fa/recovery-codes", authLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      const validationResult = confirmPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      if (!req.user!.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is off" });
+      }
+      if (!(await comparePasswords(validationResult.data.password, req.user!.password))) {
+        return res.status(400).json({ error: "Password is incorrect" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.setTotpRecoveryCodes(req.user!.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create recovery codes" });
+    }
+  });
+
   // Logout endpoint
   app.post("/api/logout", csrfProtection, (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
+      issueCsrfToken(req, res);
       res.sendStatus(200);
     });
   });
 
+  // A CSRF token for this session, also set as the csrf_token cookie
+  app.get("/api/csrf-token", (req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json({ csrfToken: issueCsrfToken(req, res) });
+  });
+
   // Get current user
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json({ id: req.user.id, username: req.user.username, email: req.user.email, displayName: req.user.displayName });
+    res.json(currentUserResponse(req.user));
   });
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import archiver from "archiver";
+import fs from "fs";
+import path from "path";
+import type { Writable } from "stream";
+import type { Recipe } from "@shared/schema";
+import { getStorageDriver, objectKeyFromUrl } from "./object-storage";
+
+// A user's data as a zip: profile.json, recipes.json, cooking-log.json, and the full-size
+// photos under photos/, named as the last part of their URL. Photos hosted elsewhere
+// (external URLs) are listed in the JSON but not downloaded.
+
+async function readPhoto(photoUrl: string): Promise<Buffer | null> {
+  const key = objectKeyFromUrl(photoUrl);
+  if (key) {
+    return getStorageDriver().get(key).catch(() => null);
+  }
+  if (photoUrl.startsWith("/uploads/")) {
+    return fs.promises.readFile(path.join("uploads", path.basename(photoUrl))).catch(() => null);
+  }
+  return null;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+export async function writeDataExport(output: Writable, profile: object, recipes: Recipe[]): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const failed = new Promise<never>((_resolve, reject) => archive.on("error", reject));
+  archive.pipe(output);
+
+  const recipeData = recipes.map(({ cookingLog: _cookingLog, environment: _environment, photoVariants: _photoVariants, ...recipe }) => recipe);
+  const cookingLog = recipes.flatMap(recipe =>
+    (recipe.cookingLog ?? []).map(entry => ({ recipeId: recipe.id, recipeName: recipe.name, ...entry })),
+  );
+  archive.append(toJson(profile), { name: "profile.json" });
+  archive.append(toJson(recipeData), { name: "recipes.json" });
+  archive.append(toJson(cookingLog), { name: "cooking-log.json" });
+
+  const photoUrls = new Set(recipes.flatMap(recipe => [
+    recipe.photo,
+    ...(recipe.cookingLog ?? []).flatMap(entry => entry.photos ?? []),
+  ]));
+  for (const photoUrl of photoUrls) {
+    if (!photoUrl) continue;
+    const photo = await readPhoto(photoUrl);
+    if (photo) {
+      archive.append(photo, { name: `photos/${path.basename(photoUrl)}` });
+    } else if (photoUrl.startsWith("/")) {
+      console.warn(`Data export: photo ${photoUrl} could not be read`);
+    }
+  }
+
+  await Promise.race([archive.finalize(), failed]);
+}
@@ -0,0 +1,131 @@
+import sharp, { type Metadata, type Sharp } from "sharp";
+import { photoSizes, photoFormats, type PhotoSize, type PhotoFormat } from "@shared/schema";
+
+// Uploaded photos are re-encoded before they are stored: turned upright using their EXIF
+// orientation, stripped of all metadata (EXIF, GPS, XMP, camera details), and resized to
+// each of photoSizes in each of photoFormats. Nothing from the original upload is kept.
+
+export interface ImageVariant {
+  size: PhotoSize;
+  format: PhotoFormat;
+  width: number;
+  height: number;
+  contentType: string;
+  extension: string;
+  data: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number; // Of the upright original
+  height: number;
+  variants: ImageVariant[];
+}
+
+const encoders: Record<PhotoFormat, { contentType: string; extension: string; encode: (image: Sharp) => Sharp }> = {
+  avif: { contentType: "image/avif", extension: "avif", encode: image => image.avif({ quality: 50, effort: 2 }) },
+  webp: { contentType: "image/webp", extension: "webp", encode: image => image.webp({ quality: 80 }) },
+  jpeg: { contentType: "image/jpeg", extension: "jpg", encode: image => image.jpeg({ quality: 82, mozjpeg: true }) },
+};
+
+// Larger images are refused before they are decoded: a few kilobytes of compressed data can
+// claim enough pixels to exhaust memory
+export const MAX_IMAGE_PIXELS = 40_000_000;
+export const MAX_IMAGE_SIDE = 12_000;
+
+export const UPLOAD_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  return data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function ascii(data: Buffer, start: number, end: number): string {
+  return data.toString("latin1", start, end);
+}
+
+// The content type of image data, from its magic bytes; the name and declared type of an
+// upload say nothing about what it contains
+export function sniffImageType(data: Buffer): string | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(data, 4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(data, 8, 12))) return "image/avif";
+  return null;
+}
+
+// Markup that would make a browser treat the file as a page if it ever sniffed it
+const MARKUP_PATTERN = /<(script|html|body|iframe|object|embed)[\s>\/]|<!doctype\s+html|javascript:/i;
+
+// PNG is a sequence of chunks ending with IEND; anything after it is smuggled in
+function bytesAfterPng(data: Buffer): number {
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = ascii(data, offset + 4, offset + 8);
+    offset += 12 + length;
+    if (type === "IEND") return data.length - offset;
+  }
+  return 0; // Truncated; decoding will refuse it
+}
+
+// A WebP file is one RIFF chunk whose declared size covers the whole file
+function bytesAfterWebp(data: Buffer): number {
+  const riffSize = data.readUInt32LE(4);
+  return data.length - (8 + riffSize + (riffSize % 2));
+}
+
+// Why an upload is refused, or null when it is a JPEG, PNG or WebP image we can process.
+// JPEGs may carry data after the image (phones append depth maps and previews there), so
+// for them only the markup check applies.
+export async function validateImageUpload(data: Buffer): Promise<string | null> {
+  const contentType = sniffImageType(data);
+  if (!contentType || !UPLOAD_CONTENT_TYPES.includes(contentType)) {
+    return "Only JPEG, PNG and WebP images are allowed";
+  }
+  const trailing = contentType === "image/png" ? bytesAfterPng(data) : contentType === "image/webp" ? bytesAfterWebp(data) : 0;
+  if (trailing > 0 || MARKUP_PATTERN.test(data.toString("latin1"))) {
+    return "This file contains more than an image";
+  }
+
+  let metadata: Metadata;
+  try {
+    metadata = await sharp(data).metadata(); // Reads the header only
+  } catch {
+    return "Couldn't read that photo. Please upload a JPEG, PNG or WebP image.";
+  }
+  const { width = 0, height = 0, pages = 1 } = metadata;
+  if (width > MAX_IMAGE_SIDE || height > MAX_IMAGE_SIDE || width * height * pages > MAX_IMAGE_PIXELS) {
+    return `Photos can be at most ${MAX_IMAGE_PIXELS / 1_000_000} megapixels`;
+  }
+  return null;
+}
+
+// Returns null when the upload can't be decoded as an image. Uploads should have passed
+// validateImageUpload first.
+export async function processImage(input: Buffer): Promise<ProcessedImage | null> {
+  let upright: { width: number; height: number };
+  try {
+    const metadata = await sharp(input, { limitInputPixels: MAX_IMAGE_PIXELS }).metadata();
+    upright = metadata.autoOrient;
+  } catch {
+    return null;
+  }
+
+  const variants: ImageVariant[] = [];
+  for (const [size, longestSide] of Object.entries(photoSizes) as Array<[PhotoSize, number]>) {
+    // JPEG has no alpha channel, so transparent areas become white rather than black
+    const resized = sharp(input, { limitInputPixels: MAX_IMAGE_PIXELS })
+      .autoOrient()
+      .resize({ width: longestSide, height: longestSide, fit: "inside", withoutEnlargement: true });
+    for (const format of photoFormats) {
+      const { contentType, extension, encode } = encoders[format];
+      const image = format === "jpeg" ? resized.clone().flatten({ background: "#ffffff" }) : resized.clone();
+      try {
+        const { data, info } = await encode(image).toBuffer({ resolveWithObject: true });
+        variants.push({ size, format, width: info.width, height: info.height, contentType, extension, data });
+      } catch {
+        return null; // Truncated or corrupt images can fail only once decoding starts
+      }
+    }
+  }
+  return { width: upright.width, height: upright.height, variants };
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { schedulePhotoCleanup } from "./photo-cleanup";
+import { getMailTransport } from "./mailer";
 
 const app = express();
 app.use(express.json());
@@ -56,6 +58,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail at startup rather than on the first password reset when mail isn't configured
+  getMailTransport();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -86,4 +91,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Removes photos nothing refers to any more, when PHOTO_CLEANUP_SCHEDULE is set
+  schedulePhotoCleanup();
 })();
@@ -0,0 +1,44 @@
+import { randomUUID } from "crypto";
+import { eq } from "drizzle-orm";
+import { recipes, cookingSessions, type CookingLogEntry } from "@shared/schema";
+import { db } from "./db";
+
+// Cooking logs used to be kept as a JSONB array on the recipe (recipes.cooking_log). They
+// now live in cooking_sessions; `npm run db:migrate-data` moves them across, and until it
+// has run a recipe's log is moved the first time it is read or written.
+
+// Entries logged before ids existed
+export function withCookingLogIds(log: CookingLogEntry[]): CookingLogEntry[] {
+  return log.map(entry => (entry.id ? entry : { ...entry, id: randomUUID() }));
+}
+
+// Some early entries stored `date` instead of `timestamp`; fall back to when the recipe was created
+function cookedAtOf(entry: CookingLogEntry & { date?: string }, fallback: Date | null): Date {
+  const cookedAt = new Date(entry.timestamp ?? entry.date);
+  return isNaN(cookedAt.getTime()) ? fallback ?? new Date() : cookedAt;
+}
+
+// Moves a recipe's JSONB log into cooking_sessions and empties it, so deleted sessions never
+// come back. The recipe row is locked, so concurrent moves insert each entry once. The rating
+// is left as it is: it was already the average of these entries. Returns whether anything moved.
+export async function moveLegacyCookingLog(tx: typeof db, recipeId: string): Promise<boolean> {
+  const [row] = await tx.select().from(recipes).where(eq(recipes.id, recipeId)).for("update");
+  if (!row || !row.cookingLog || row.cookingLog.length === 0) return false;
+
+  const entries = withCookingLogIds(row.cookingLog);
+  await tx
+    .insert(cookingSessions)
+    .values(entries.map(entry => ({
+      id: entry.id,
+      recipeId: row.id,
+      userId: row.userId,
+      cookedAt: cookedAtOf(entry, row.createdAt),
+      notes: entry.notes ?? "",
+      rating: entry.rating,
+      photos: entry.photos ?? [],
+      environment: row.environment,
+    })))
+    .onConflictDoNothing();
+  await tx.update(recipes).set({ cookingLog: [] }).where(eq(recipes.id, row.id));
+  return true;
+}
@@ -0,0 +1,85 @@
+// Email templates. Each renders a subject plus text and HTML bodies from the same data;
+// the text body is what console and plain-text mail clients show.
+
+interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Shared HTML frame; paragraphs are escaped here, so templates pass plain text
+function htmlLayout({ paragraphs, action, footer }: {
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+}): string {
+  const body = paragraphs.map(p => `<p style="margin:0 0 16px">${escapeHtml(p)}</p>`).join("\n");
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#2f6b3a;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;display:inline-block">${escapeHtml(action.label)}</a></p>
+<p style="margin:0 0 16px;font-size:13px;color:#6b6b6b">Or paste this link into your browser:<br>${escapeHtml(action.url)}</p>`
+    : "";
+  const footnote = footer ? `<p style="margin:24px 0 0;font-size:13px;color:#6b6b6b">${escapeHtml(footer)}</p>` : "";
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#faf7f2;font-family:Georgia,serif;color:#3d2f22">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px">
+<h1 style="margin:0 0 24px;font-size:20px;color:#2f6b3a">🌿 My Recipe Kitchen</h1>
+${body}
+${button}
+${footnote}
+</div>
+</body>
+</html>`;
+}
+
+function passwordReset({ name, resetUrl }: { name: string; resetUrl: string }): RenderedMail {
+  const intro = `Hi ${name},`;
+  const request = "Someone asked to reset the password for your account. To choose a new password, open this link within the next hour:";
+  const footer = "If it wasn't you, you can ignore this email; your password hasn't changed.";
+  return {
+    subject: "Reset your My Recipe Kitchen password",
+    text: `${intro}\n\n${request}\n\n${resetUrl}\n\n${footer}`,
+    html: htmlLayout({
+      paragraphs: [intro, request],
+      action: { label: "Choose a new password", url: resetUrl },
+      footer,
+    }),
+  };
+}
+
+function emailVerification({ name, verifyUrl }: { name: string; verifyUrl: string }): RenderedMail {
+  const intro = `Welcome, ${name}!`;
+  const request = "Please confirm this is your email address, so you can recover your account if you ever lose your password. The link works for 24 hours:";
+  const footer = "If you didn't create an account, you can ignore this email.";
+  return {
+    subject: "Confirm your email for My Recipe Kitchen",
+    text: `${intro}\n\n${request}\n\n${verifyUrl}\n\n${footer}`,
+    html: htmlLayout({
+      paragraphs: [intro, request],
+      action: { label: "Confirm my email", url: verifyUrl },
+      footer,
+    }),
+  };
+}
+
+const mailTemplates = {
+  passwordReset,
+  emailVerification,
+};
+
+export type MailTemplateName = keyof typeof mailTemplates;
+export type MailTemplateData<T extends MailTemplateName> = Parameters<typeof mailTemplates[T]>[0];
+
+export function renderMailTemplate<T extends MailTemplateName>(template: T, data: MailTemplateData<T>): RenderedMail {
+  return (mailTemplates[template] as (data: MailTemplateData<T>) => RenderedMail)(data);
+}
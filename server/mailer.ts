@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { Transporter } from "nodemailer";
+import { renderMailTemplate, type MailTemplateName, type MailTemplateData } from "./mail-templates";
+
+// Outbound email. The transport is picked from the environment:
+// SendGrid when SENDGRID_API_KEY is set, SMTP when SMTP_URL is set, an in-memory
+// outbox in tests and the console otherwise. MAIL_TRANSPORT overrides the choice.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = "My Recipe Kitchen <no-reply@myrecipekitchen.app>";
+
+function mailFrom() {
+  return process.env.MAIL_FROM || defaultFrom;
+}
+
+const sendgridTransport: MailTransport = {
+  name: "sendgrid",
+  async send(message) {
+    const apiKey = process.env.SENDGRID_API_KEY;
+    if (!apiKey) {
+      throw new Error('SENDGRID_API_KEY environment variable not set');
+    }
+    const { default: sgMail } = await import('@sendgrid/mail');
+    sgMail.setApiKey(apiKey);
+    await sgMail.send({ ...message, from: mailFrom() });
+  },
+};
+
+// One pooled connection per process, created on first use
+let smtpTransporter: Transporter | null = null;
+
+const smtpTransport: MailTransport = {
+  name: "smtp",
+  async send(message) {
+    if (!smtpTransporter) {
+      const smtpUrl = process.env.SMTP_URL;
+      if (!smtpUrl) {
+        throw new Error('SMTP_URL environment variable not set');
+      }
+      const { default: nodemailer } = await import('nodemailer');
+      smtpTransporter = nodemailer.createTransport(smtpUrl);
+    }
+    await smtpTransporter.sendMail({ ...message, from: mailFrom() });
+  },
+};
+
+// Development: print the message so links can be followed without a mail account
+const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+// Offline: write each message as an .eml file that any mail client can open
+const outboxDirectoryTransport: MailTransport = {
+  name: "outbox",
+  async send(message) {
+    const { default: nodemailer } = await import('nodemailer');
+    const builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    const built = await builder.sendMail({ ...message, from: mailFrom() });
+
+    const outboxDir = process.env.MAIL_OUTBOX_DIR || 'mail-outbox';
+    await fs.promises.mkdir(outboxDir, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`;
+    await fs.promises.writeFile(path.join(outboxDir, filename), built.message as Buffer);
+  },
+};
+
+// Tests: keep messages in memory so they can be asserted on (see __tests__/mail-helpers.ts)
+export const outbox: MailMessage[] = [];
+
+const memoryTransport: MailTransport = {
+  name: "memory",
+  async send(message) {
+    outbox.push(message);
+  },
+};
+
+const transports: Record<string, MailTransport> = {
+  sendgrid: sendgridTransport,
+  smtp: smtpTransport,
+  console: consoleTransport,
+  outbox: outboxDirectoryTransport,
+  memory: memoryTransport,
+};
+
+// Lets tests swap in a transport of their own (e.g. one that fails); null restores the default
+let transportOverride: MailTransport | null = null;
+
+export function setMailTransport(transport: MailTransport | null): void {
+  transportOverride = transport;
+}
+
+// Console and in-memory mail never reaches anyone, and would put reset and verification
+// links in the logs, so they are for development and tests only
+const UNDELIVERED_TRANSPORTS = new Set([consoleTransport, memoryTransport]);
+
+export function getMailTransport(): MailTransport {
+  if (transportOverride) return transportOverride;
+  const transport = configuredMailTransport();
+  if (process.env.NODE_ENV === 'production' && UNDELIVERED_TRANSPORTS.has(transport)) {
+    throw new Error(`Mail can't be sent with the ${transport.name} transport in production; set SENDGRID_API_KEY or SMTP_URL`);
+  }
+  return transport;
+}
+
+function configuredMailTransport(): MailTransport {
+  const configured = process.env.MAIL_TRANSPORT;
+  if (configured) {
+    const transport = transports[configured];
+    if (!transport) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}" (expected ${Object.keys(transports).join(', ')})`);
+    }
+    return transport;
+  }
+  if (process.env.SENDGRID_API_KEY) return sendgridTransport;
+  if (process.env.SMTP_URL) return smtpTransport;
+  if (process.env.NODE_ENV === 'test') return memoryTransport;
+  return consoleTransport;
+}
+
+// Retry queue. Deliveries happen in the background so requests never wait on the
+// mail provider; failures are retried with backoff (1s, 2s, 4s, 8s) and then logged.
+// The queue lives in memory, so messages still waiting when the process exits are lost.
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const pendingDeliveries = new Set<Promise<void>>();
+
+async function deliver(message: MailMessage): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await getMailTransport().send(message);
+      return;
+    } catch (error) {
+      if (attempt >= MAX_DELIVERY_ATTEMPTS) {
+        console.error(`Mail to ${message.to} ("${message.subject}") failed after ${attempt} attempts:`, error);
+        return;
+      }
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+      await new Promise(resolve => setTimeout(resolve, delay).unref());
+    }
+  }
+}
+
+export function queueMail(message: MailMessage): void {
+  const delivery = deliver(message).finally(() => pendingDeliveries.delete(delivery));
+  pendingDeliveries.add(delivery);
+}
+
+export function sendTemplatedMail<T extends MailTemplateName>(to: string, template: T, data: MailTemplateData<T>): void {
+  queueMail({ to, ...renderMailTemplate(template, data) });
+}
+
+// Resolves once every queued message has been delivered or given up on
+export async function flushMailQueue(): Promise<void> {
+  while (pendingDeliveries.size > 0) {
+    await Promise.all(pendingDeliveries);
+  }
+}
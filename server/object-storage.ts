@@ -1,30 +1,383 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 import multer from 'multer';
 import { nanoid } from 'nanoid';
+import type { S3Client } from '@aws-sdk/client-s3';
+import type { Bucket } from '@google-cloud/storage';
+import type { Client as ReplitClient } from '@replit/object-storage';
+import type { NewPhoto, PhotoVariant } from '@shared/schema';
+import { processImage, sniffImageType } from './image-processing';
 
-// Initialize Replit Object Storage client lazily
-let client: any = null;
-let objectStorageAvailable = false;
+// Photo storage. Files are kept by a driver picked from the environment: STORAGE_DRIVER is
+// "local" (a directory on disk), "s3" (any S3-compatible service), "gcs" (Google Cloud
+// Storage) or "replit" (Replit Object Storage). Without it, Replit is used when its bucket
+// is configured and local disk otherwise. Whichever driver keeps them, photos are served
+// by the app at /objects/<key>.
 
-async function initializeObjectStorage() {
-  if (!client) {
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string | null;
+  lastModified: Date | null;
+  etag: string; // Quoted, ready for the ETag header
+}
+
+// Inclusive byte offsets, as in a Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when there is no such object
+  delete(key: string): Promise<void>; // Deleting a missing object is not an error
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  list(prefix: string): Promise<string[]>; // Keys starting with the prefix
+  stream(key: string, range?: ByteRange): Promise<Readable | null>; // The whole object without a range
+}
+
+// Keys come from request URLs, so anything that could climb out of the store is refused
+export function isValidObjectKey(key: string): boolean {
+  return key.length > 0 && key.length <= 1024 && !key.includes('\\') && !key.includes('\0')
+    && key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+// Local disk: STORAGE_LOCAL_DIR, or uploads/ in the working directory
+function localPath(key: string): string {
+  const root = path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads');
+  const filePath = path.resolve(root, key);
+  if (!isValidObjectKey(key) || !filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid object key "${key}"`);
+  }
+  return filePath;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+const localDriver: StorageDriver = {
+  name: 'local',
+  async put(key, data) {
+    const filePath = localPath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  },
+  async get(key) {
     try {
-      const { Client } = await import('@replit/object-storage');
-      // Use the bucket ID from environment variables for proper initialization
-      const bucketId = process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
-      if (!bucketId) {
-        throw new Error('DEFAULT_OBJECT_STORAGE_BUCKET_ID environment variable not set');
+      return await fs.promises.readFile(localPath(key));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+  async delete(key) {
+    await fs.promises.rm(localPath(key), { force: true });
+  },
+  // Files carry no content type, so it is read from their first bytes rather than their name
+  async stat(key) {
+    try {
+      const file = await fs.promises.open(localPath(key));
+      try {
+        const stats = await file.stat();
+        if (!stats.isFile()) return null;
+        const { buffer, bytesRead } = await file.read(Buffer.alloc(16), 0, 16, 0);
+        return {
+          size: stats.size,
+          contentType: sniffImageType(buffer.subarray(0, bytesRead)),
+          lastModified: stats.mtime,
+          etag: `"${stats.size.toString(16)}-${stats.mtimeMs.toString(16)}"`,
+        };
+      } finally {
+        await file.close();
       }
-      // Pass bucket ID as an option object to the Client constructor
-      client = new Client({ bucketId });
-      objectStorageAvailable = true;
-      console.log('Object Storage initialized successfully with bucket:', bucketId);
     } catch (error) {
-      console.error('Object Storage initialization failed:', error);
-      objectStorageAvailable = false;
-      throw error; // Re-throw to make the error visible
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+  async list(prefix) {
+    const root = path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads');
+    try {
+      const entries = await fs.promises.readdir(root, { recursive: true, withFileTypes: true });
+      return entries
+        .filter(entry => entry.isFile())
+        .map(entry => path.relative(root, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+        .filter(key => key.startsWith(prefix))
+        .sort();
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+  },
+  async stream(key, range) {
+    return (await this.stat(key)) ? fs.createReadStream(localPath(key), range) : null;
+  },
+};
+
+// S3 and compatible services (MinIO, Cloudflare R2, Backblaze B2, ...). S3_ENDPOINT and
+// S3_FORCE_PATH_STYLE=true point it at a self-hosted one. One client per process.
+let s3Client: S3Client | null = null;
+
+async function s3() {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET environment variable not set');
+  }
+  const sdk = await import('@aws-sdk/client-s3');
+  if (!s3Client) {
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    s3Client = new sdk.S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      // Otherwise the SDK's default chain (environment, shared config, instance role) is used
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+      // Not every S3-compatible service accepts the newer default checksums
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+    });
+  }
+  return { sdk, client: s3Client, bucket };
+}
+
+function isS3NotFound(error: unknown): boolean {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404;
+}
+
+const s3Driver: StorageDriver = {
+  name: 's3',
+  async put(key, data, contentType) {
+    const { sdk, client, bucket } = await s3();
+    await client.send(new sdk.PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: contentType }));
+  },
+  async get(key) {
+    const stream = await this.stream(key);
+    if (!stream) return null;
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  },
+  async delete(key) {
+    const { sdk, client, bucket } = await s3();
+    await client.send(new sdk.DeleteObjectCommand({ Bucket: bucket, Key: key }));
+  },
+  async stat(key) {
+    const { sdk, client, bucket } = await s3();
+    try {
+      const head = await client.send(new sdk.HeadObjectCommand({ Bucket: bucket, Key: key }));
+      return {
+        size: head.ContentLength ?? 0,
+        contentType: head.ContentType ?? null,
+        lastModified: head.LastModified ?? null,
+        etag: head.ETag ?? `"${head.ContentLength}-${head.LastModified?.getTime()}"`,
+      };
+    } catch (error) {
+      if (isS3NotFound(error)) return null;
+      throw error;
+    }
+  },
+  async list(prefix) {
+    const { sdk, client, bucket } = await s3();
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await client.send(new sdk.ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: continuationToken }));
+      keys.push(...(page.Contents ?? []).map(object => object.Key!).filter(Boolean));
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return keys;
+  },
+  async stream(key, range) {
+    const { sdk, client, bucket } = await s3();
+    try {
+      const object = await client.send(new sdk.GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range && `bytes=${range.start}-${range.end}`,
+      }));
+      return object.Body as Readable;
+    } catch (error) {
+      if (isS3NotFound(error)) return null;
+      throw error;
+    }
+  },
+};
+
+// Google Cloud Storage: GCS_BUCKET, with credentials from GOOGLE_APPLICATION_CREDENTIALS or
+// the environment the app runs in
+let gcsBucket: Bucket | null = null;
+
+async function gcs(): Promise<Bucket> {
+  if (!gcsBucket) {
+    const bucketName = process.env.GCS_BUCKET;
+    if (!bucketName) {
+      throw new Error('GCS_BUCKET environment variable not set');
+    }
+    const { Storage } = await import('@google-cloud/storage');
+    gcsBucket = new Storage().bucket(bucketName);
+  }
+  return gcsBucket;
+}
+
+function isGcsNotFound(error: unknown): boolean {
+  return (error as { code?: number })?.code === 404;
+}
+
+const gcsDriver: StorageDriver = {
+  name: 'gcs',
+  async put(key, data, contentType) {
+    await (await gcs()).file(key).save(data, { contentType, resumable: false });
+  },
+  async get(key) {
+    try {
+      const [data] = await (await gcs()).file(key).download();
+      return data;
+    } catch (error) {
+      if (isGcsNotFound(error)) return null;
+      throw error;
+    }
+  },
+  async delete(key) {
+    await (await gcs()).file(key).delete({ ignoreNotFound: true });
+  },
+  async stat(key) {
+    try {
+      const [metadata] = await (await gcs()).file(key).getMetadata();
+      return {
+        size: Number(metadata.size ?? 0),
+        contentType: metadata.contentType ?? null,
+        lastModified: metadata.updated ? new Date(metadata.updated) : null,
+        etag: `"${metadata.etag ?? metadata.generation}"`,
+      };
+    } catch (error) {
+      if (isGcsNotFound(error)) return null;
+      throw error;
+    }
+  },
+  async list(prefix) {
+    const [files] = await (await gcs()).getFiles({ prefix });
+    return files.map(file => file.name);
+  },
+  async stream(key, range) {
+    return (await this.stat(key)) ? (await gcs()).file(key).createReadStream(range ?? {}) : null;
+  },
+};
+
+// Replit Object Storage, for the app's Replit deployment (DEFAULT_OBJECT_STORAGE_BUCKET_ID)
+let replitClient: ReplitClient | null = null;
+
+async function replit(): Promise<ReplitClient> {
+  if (!replitClient) {
+    const bucketId = process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
+    if (!bucketId) {
+      throw new Error('DEFAULT_OBJECT_STORAGE_BUCKET_ID environment variable not set');
+    }
+    const { Client } = await import('@replit/object-storage');
+    replitClient = new Client({ bucketId });
+  }
+  return replitClient;
+}
+
+// Replit's client reports failures as results rather than throwing
+function replitValue<T>(result: { ok: true; value: T } | { ok: false; error: { message: string; statusCode?: number } }, key: string): T | null {
+  if (result.ok) return result.value;
+  if (result.error.statusCode === 404) return null;
+  throw new Error(`Replit Object Storage request for "${key}" failed: ${result.error.message}`);
+}
+
+// The client has no metadata call, so an object's size and ETag can only come from its
+// bytes. Keys are never reused for different contents, so they are worked out once per
+// object (when this process stores it, or on its first lookup) and kept for the most
+// recently used objects; later lookups only check that the object still exists.
+const REPLIT_INFO_CACHE_SIZE = 10_000;
+const replitInfoCache = new Map<string, StoredObjectInfo>();
+
+function rememberReplitInfo(key: string, data: Buffer): StoredObjectInfo {
+  const etag = `"${createHash('sha256').update(data).digest('base64url').slice(0, 27)}"`;
+  const info = { size: data.length, contentType: sniffImageType(data), lastModified: null, etag };
+  replitInfoCache.delete(key);
+  replitInfoCache.set(key, info);
+  if (replitInfoCache.size > REPLIT_INFO_CACHE_SIZE) {
+    replitInfoCache.delete(replitInfoCache.keys().next().value!);
+  }
+  return info;
+}
+
+const replitDriver: StorageDriver = {
+  name: 'replit',
+  async put(key, data) {
+    replitValue(await (await replit()).uploadFromBytes(key, data), key);
+    rememberReplitInfo(key, data);
+  },
+  async get(key) {
+    return replitValue(await (await replit()).downloadAsBytes(key), key)?.[0] ?? null;
+  },
+  async delete(key) {
+    replitInfoCache.delete(key);
+    replitValue(await (await replit()).delete(key, { ignoreNotFound: true }), key);
+  },
+  async stat(key) {
+    const cached = replitInfoCache.get(key);
+    if (cached) {
+      if (replitValue(await (await replit()).exists(key), key)) {
+        replitInfoCache.delete(key); // Most recently used last
+        replitInfoCache.set(key, cached);
+        return cached;
+      }
+      replitInfoCache.delete(key);
+      return null;
     }
+    const data = await this.get(key);
+    return data && rememberReplitInfo(key, data);
+  },
+  async list(prefix) {
+    return (replitValue(await (await replit()).list({ prefix }), prefix) ?? []).map(object => object.name);
+  },
+  // Nor can it download part of an object
+  async stream(key, range) {
+    const client = await replit();
+    if (range) {
+      const data = await this.get(key);
+      return data && Readable.from([data.subarray(range.start, range.end + 1)]);
+    }
+    return replitValue(await client.exists(key), key) ? client.downloadAsStream(key) : null;
+  },
+};
+
+const drivers: Record<string, StorageDriver> = {
+  local: localDriver,
+  s3: s3Driver,
+  gcs: gcsDriver,
+  replit: replitDriver,
+};
+
+// Lets tests swap in a driver of their own; null restores the configured one
+let driverOverride: StorageDriver | null = null;
+
+export function setStorageDriver(driver: StorageDriver | null): void {
+  driverOverride = driver;
+}
+
+export function getStorageDriver(): StorageDriver {
+  if (driverOverride) return driverOverride;
+  const configured = process.env.STORAGE_DRIVER;
+  if (configured) {
+    const driver = drivers[configured];
+    if (!driver) {
+      throw new Error(`Unknown STORAGE_DRIVER "${configured}" (expected ${Object.keys(drivers).join(', ')})`);
+    }
+    return driver;
   }
-  return client;
+  if (process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID) return replitDriver;
+  return localDriver;
 }
 
 // Configure multer to use memory storage for cloud uploads
@@ -37,7 +390,7 @@ export const upload = multer({
     const allowedTypes = /jpeg|jpg|png|webp/;
     const extname = allowedTypes.test(file.originalname.toLowerCase());
     const mimetype = allowedTypes.test(file.mimetype);
-    
+
     if (mimetype && extname) {
       return cb(null, true);
     } else {
@@ -46,115 +399,54 @@ export const upload = multer({
   }
 });
 
-// Upload file to local storage (fallback)
-export async function uploadToMemory(file: Express.Multer.File): Promise<string> {
-  const fs = await import('fs');
-  const path = await import('path');
-  
-  // Create uploads directory if it doesn't exist
-  const uploadsDir = 'uploads';
-  if (!fs.existsSync(uploadsDir)) {
-    fs.mkdirSync(uploadsDir, { recursive: true });
-  }
-  
-  // Generate unique filename
-  const fileName = `${nanoid()}-${file.originalname}`;
-  const filePath = path.join(uploadsDir, fileName);
-  
-  // Write file to local storage
-  fs.writeFileSync(filePath, file.buffer);
-  
-  // Return URL path
-  return `/uploads/${fileName}`;
-}
-
-// Upload file to Replit Object Storage
-export async function uploadToObjectStorage(file: Express.Multer.File): Promise<string> {
-  try {
-    const storageClient = await initializeObjectStorage();
-    if (!storageClient) {
-      throw new Error('Object Storage is not available');
-    }
-    
-    const fileName = `recipe-photos/${nanoid()}-${file.originalname}`;
-    console.log(`Uploading file to Object Storage: ${fileName}`);
-    
-    // Upload the file buffer to Replit Object Storage
-    await storageClient.uploadFromBytes(fileName, file.buffer);
-    console.log(`Successfully uploaded: ${fileName}`);
-    
-    // Return the path that can be served via our API
-    return `/objects/${fileName}`;
-  } catch (error) {
-    console.error('Upload to Object Storage failed:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to upload to Object Storage: ${errorMessage}`);
-  }
+// The object key behind a photo URL, or null for photos stored elsewhere (external URLs and
+// files from the old uploads/ fallback)
+export function objectKeyFromUrl(photoUrl: string): string | null {
+  if (!photoUrl.startsWith('/objects/')) return null;
+  const key = photoUrl.slice('/objects/'.length);
+  return isValidObjectKey(key) ? key : null;
 }
 
-// Delete file from Replit Object Storage
-export async function deleteFromObjectStorage(filePath: string): Promise<void> {
-  const storageClient = await initializeObjectStorage();
-  if (!storageClient) {
-    return; // Skip deletion if Object Storage not available
-  }
-  
+// Process an uploaded photo (see image-processing.ts) and store every variant. The full-size
+// JPEG is the photo's URL; the others sit beside it as <name>.<size>.<format>. Returns null
+// when the upload isn't a readable image.
+export async function storePhoto(file: Express.Multer.File): Promise<NewPhoto | null> {
+  const processed = await processImage(file.buffer);
+  if (!processed) return null;
+
+  const name = path.basename(file.originalname, path.extname(file.originalname)).replace(/[^\w.-]/g, '_') || 'photo';
+  const stem = `recipe-photos/${nanoid()}-${name}`;
+  const driver = getStorageDriver();
+  const variants: PhotoVariant[] = [];
   try {
-    // Extract the actual file name from the path (remove /objects/ prefix)
-    const fileName = filePath.startsWith('/objects/') ? filePath.substring(9) : filePath;
-    await storageClient.delete(fileName);
+    for (const { size, format, width, height, extension, contentType, data } of processed.variants) {
+      const key = size === 'full' && format === 'jpeg' ? `${stem}.jpg` : `${stem}.${size}.${extension}`;
+      await driver.put(key, data, contentType);
+      variants.push({ size, format, width, height, url: `/objects/${key}` });
+    }
   } catch (error) {
-    // Log but don't throw - file might already be deleted
-    console.warn(`Failed to delete ${filePath} from Object Storage:`, error);
+    // Don't leave half a photo behind
+    for (const variant of variants) {
+      await deleteFromObjectStorage(variant.url);
+    }
+    throw error;
   }
+  return { url: `/objects/${stem}.jpg`, width: processed.width, height: processed.height, variants };
 }
 
-// Check if Object Storage is available
-export function isObjectStorageConfigured(): boolean {
-  return true; // Always try to use Object Storage first
-}
-
-// Serve file from Object Storage
-export async function serveFromObjectStorage(filePath: string): Promise<Buffer | null> {
+// Delete a stored photo and its variants. Failures are logged rather than thrown, since the
+// photo's record is usually gone already.
+export async function deleteFromObjectStorage(photoUrl: string): Promise<void> {
+  const key = objectKeyFromUrl(photoUrl);
+  if (!key) return;
   try {
-    const storageClient = await initializeObjectStorage();
-    if (!storageClient) {
-      console.warn('Object Storage client not available');
-      return null;
-    }
-    
-    console.log(`Attempting to download file from Object Storage: ${filePath}`);
-    
-    // Use downloadAsBytes - this returns an object with { ok: boolean, value: Buffer[] }
-    const result = await storageClient.downloadAsBytes(filePath);
-    
-    if (!result) {
-      console.warn(`No result returned for file: ${filePath}`);
-      return null;
+    const driver = getStorageDriver();
+    const stem = key.slice(0, key.length - path.posix.extname(key).length);
+    const variantKeys = stem === key ? [] : await driver.list(`${stem}.`);
+    for (const variantKey of new Set([key, ...variantKeys])) {
+      await driver.delete(variantKey);
     }
-    
-    // Handle the response structure from Replit Object Storage SDK
-    if (typeof result === 'object' && result.ok && result.value) {
-      const bufferArray = result.value;
-      if (Array.isArray(bufferArray) && bufferArray.length > 0) {
-        const buffer = bufferArray[0]; // Get the first (and usually only) buffer
-        if (Buffer.isBuffer(buffer)) {
-          console.log(`Successfully downloaded file: ${filePath}, size: ${buffer.length} bytes`);
-          return buffer;
-        }
-      }
-    }
-    
-    // Direct buffer fallback
-    if (Buffer.isBuffer(result)) {
-      console.log(`Direct buffer download: ${filePath}, size: ${result.length} bytes`);
-      return result;
-    }
-    
-    console.error(`Unexpected result structure for ${filePath}:`, typeof result, result);
-    return null;
   } catch (error) {
-    console.error(`Failed to serve ${filePath} from Object Storage:`, error);
-    return null;
+    console.warn(`Failed to delete ${photoUrl} from object storage:`, error);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,238 @@
+import fs from "fs";
+import path from "path";
+import { inArray, sql } from "drizzle-orm";
+import { photos, type PhotoVariant } from "@shared/schema";
+import { db } from "./db";
+import { getStorageDriver, type StorageDriver } from "./object-storage";
+import { sniffImageType } from "./image-processing";
+
+// Photos can outlive whatever referred to them: a recipe that failed to save after its photo
+// was stored, a cooking session photo uploaded after its session was created, files left by
+// the old uploads/ fallback. The cleanup lists stored photos and legacy uploads, compares them
+// with the photos that recipes and cooking sessions refer to in any environment, and removes
+// the rest once they are older than a grace period, so uploads still on their way to a
+// recipe are left alone. Run it with `npm run photos:cleanup` (a dry run unless told
+// otherwise), or on a schedule with PHOTO_CLEANUP_SCHEDULE.
+
+export type PhotoCleanupAction = "report" | "quarantine" | "delete";
+
+const photoCleanupActions: PhotoCleanupAction[] = ["report", "quarantine", "delete"];
+
+export function isPhotoCleanupAction(value: string): value is PhotoCleanupAction {
+  return (photoCleanupActions as string[]).includes(value);
+}
+
+// Quarantined photos are moved here (in photo storage, or within uploads/) rather than deleted
+export const QUARANTINE_PREFIX = "quarantine/";
+
+export interface PhotoCleanupOptions {
+  action: PhotoCleanupAction;
+  gracePeriodHours?: number; // Defaults to PHOTO_CLEANUP_GRACE_HOURS, or 24
+  includeUndated?: boolean; // Remove files whose age can't be told instead of skipping them
+  uploadsDir?: string; // Legacy uploads; defaults to uploads/ in the working directory
+}
+
+export interface UnreferencedFile {
+  location: "storage" | "uploads";
+  key: string; // Object key, or file name within uploads/
+  lastModified: Date | null;
+}
+
+export interface PhotoCleanupReport {
+  action: PhotoCleanupAction;
+  checked: number; // Stored objects and uploads looked at
+  removed: UnreferencedFile[]; // Deleted or quarantined; for a report, those that would be
+  failed: UnreferencedFile[];
+  recent: UnreferencedFile[]; // Still within the grace period
+  undated: UnreferencedFile[]; // Of unknown age, so left alone without includeUndated
+  records: string[]; // Records of photos with no files left once these are removed; only deleting drops them
+}
+
+function hoursFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(`${name} must be a number of hours, not "${value}"`);
+  }
+  return hours;
+}
+
+// Every photo URL a recipe or cooking session refers to, in every environment, since they
+// may share one bucket. Cooking log entries not yet moved to cooking_sessions count too.
+async function referencedPhotoUrls(): Promise<Set<string>> {
+  const { rows } = await db.execute(sql`
+    select photo as url from recipes where photo is not null
+    union
+    select jsonb_array_elements_text(photos) from cooking_sessions
+    union
+    select jsonb_array_elements_text(entry -> 'photos')
+      from recipes, jsonb_array_elements(coalesce(cooking_log, '[]'::jsonb)) entry
+      where jsonb_typeof(entry -> 'photos') = 'array'
+  `);
+  return new Set(rows.map((row: { url: string }) => row.url));
+}
+
+// Legacy uploads are the files directly in uploads/; anything in a subdirectory (such as the
+// local driver's recipe-photos/ when it shares the directory) is not one
+async function listUploads(uploadsDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(uploadsDir, { withFileTypes: true });
+    return entries.filter(entry => entry.isFile()).map(entry => entry.name).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function quarantineObject(driver: StorageDriver, key: string): Promise<void> {
+  const data = await driver.get(key);
+  if (!data) return;
+  await driver.put(`${QUARANTINE_PREFIX}${key}`, data, sniffImageType(data) ?? "application/octet-stream");
+  await driver.delete(key);
+}
+
+async function removeFile(file: UnreferencedFile, action: PhotoCleanupAction, driver: StorageDriver, uploadsDir: string): Promise<void> {
+  if (file.location === "storage") {
+    if (action === "quarantine") {
+      await quarantineObject(driver, file.key);
+    } else {
+      await driver.delete(file.key);
+    }
+    return;
+  }
+  const filePath = path.join(uploadsDir, file.key);
+  if (action === "quarantine") {
+    const quarantined = path.join(uploadsDir, QUARANTINE_PREFIX, file.key);
+    await fs.promises.mkdir(path.dirname(quarantined), { recursive: true });
+    await fs.promises.rename(filePath, quarantined);
+  } else {
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+export async function cleanUpPhotos(options: PhotoCleanupOptions): Promise<PhotoCleanupReport> {
+  const { action, includeUndated = false, uploadsDir = "uploads" } = options;
+  const gracePeriodHours = options.gracePeriodHours ?? hoursFromEnv("PHOTO_CLEANUP_GRACE_HOURS", 24);
+  const cutoff = Date.now() - gracePeriodHours * 60 * 60 * 1000;
+  const driver = getStorageDriver();
+
+  // Files are listed before references are read, so a photo stored and then referenced while
+  // this runs is seen as referenced
+  const objectKeys = await driver.list("recipe-photos/");
+  const uploadNames = await listUploads(uploadsDir);
+  const referenced = await referencedPhotoUrls();
+  const records: Array<{ url: string; variants: PhotoVariant[]; createdAt: Date | null }> = await db
+    .select({ url: photos.url, variants: photos.variants, createdAt: photos.createdAt })
+    .from(photos);
+
+  // A photo's variants are referenced along with it. Its record also dates its files for
+  // drivers that don't say when an object was written.
+  const recordedAt = new Map<string, Date | null>();
+  for (const record of records) {
+    for (const url of [record.url, ...record.variants.map(variant => variant.url)]) {
+      if (referenced.has(record.url)) referenced.add(url);
+      recordedAt.set(url, record.createdAt);
+    }
+  }
+
+  const unreferenced: UnreferencedFile[] = [];
+  for (const key of objectKeys) {
+    const url = `/objects/${key}`;
+    if (referenced.has(url)) continue;
+    const info = await driver.stat(key);
+    if (!info) continue; // Gone since it was listed
+    unreferenced.push({ location: "storage", key, lastModified: info.lastModified ?? recordedAt.get(url) ?? null });
+  }
+  for (const name of uploadNames) {
+    if (referenced.has(`/uploads/${name}`)) continue;
+    const stats = await fs.promises.stat(path.join(uploadsDir, name)).catch(() => null);
+    if (!stats) continue;
+    unreferenced.push({ location: "uploads", key: name, lastModified: stats.mtime });
+  }
+
+  const report: PhotoCleanupReport = {
+    action,
+    checked: objectKeys.length + uploadNames.length,
+    removed: [],
+    failed: [],
+    recent: [],
+    undated: [],
+    records: [],
+  };
+
+  for (const file of unreferenced) {
+    if (!file.lastModified && !includeUndated) {
+      report.undated.push(file);
+    } else if (file.lastModified && file.lastModified.getTime() >= cutoff) {
+      report.recent.push(file);
+    } else if (action === "report") {
+      report.removed.push(file);
+    } else {
+      try {
+        await removeFile(file, action, driver, uploadsDir);
+        report.removed.push(file);
+      } catch (error) {
+        console.warn(`Failed to ${action} ${file.location === "storage" ? "object" : "upload"} ${file.key}:`, error);
+        report.failed.push(file);
+      }
+    }
+  }
+
+  // A record goes only once none of its files is left: one kept back (recent, undated or
+  // failed) still needs it to be dated or put back. Records whose files were all gone already
+  // go once they are past the grace period.
+  const stored = new Set(objectKeys.map(key => `/objects/${key}`));
+  const removed = new Set(report.removed.filter(file => file.location === "storage").map(file => `/objects/${file.key}`));
+  report.records = records
+    .filter(record => {
+      const urls = [record.url, ...record.variants.map(variant => variant.url)];
+      if (referenced.has(record.url) || urls.some(url => stored.has(url) && !removed.has(url))) return false;
+      return urls.some(url => removed.has(url)) || (!!record.createdAt && record.createdAt.getTime() < cutoff);
+    })
+    .map(record => record.url);
+
+  // Quarantined photos keep their records, so they can be put back as they were
+  if (action === "delete" && report.records.length > 0) {
+    await db.delete(photos).where(inArray(photos.url, report.records));
+  }
+  return report;
+}
+
+export function formatPhotoCleanupReport(report: PhotoCleanupReport): string {
+  const verb = { report: "Would remove", quarantine: "Quarantined", delete: "Deleted" }[report.action];
+  const files = (list: UnreferencedFile[]) => list.map(file => `  ${file.location === "storage" ? "objects" : "uploads"}/${file.key}`);
+  return [
+    `Checked ${report.checked} stored photos and uploads`,
+    `${verb} ${report.removed.length} unreferenced files`,
+    ...files(report.removed),
+    ...(report.failed.length > 0 ? [`Failed to remove ${report.failed.length} files`, ...files(report.failed)] : []),
+    `Kept ${report.recent.length} unreferenced files still within the grace period`,
+    ...(report.undated.length > 0 ? [`Skipped ${report.undated.length} unreferenced files of unknown age`, ...files(report.undated)] : []),
+    `${report.action === "delete" ? "Dropped" : "Unreferenced"} photo records: ${report.records.length}`,
+  ].join("\n");
+}
+
+// Runs the cleanup every PHOTO_CLEANUP_INTERVAL_HOURS (default 24) when PHOTO_CLEANUP_SCHEDULE
+// names an action. Each server runs its own; running twice at once removes nothing extra.
+export function schedulePhotoCleanup(): NodeJS.Timeout | null {
+  const action = process.env.PHOTO_CLEANUP_SCHEDULE;
+  if (!action) return null;
+  if (!isPhotoCleanupAction(action)) {
+    throw new Error(`Unknown PHOTO_CLEANUP_SCHEDULE "${action}" (expected ${photoCleanupActions.join(", ")})`);
+  }
+  const intervalHours = hoursFromEnv("PHOTO_CLEANUP_INTERVAL_HOURS", 24);
+  if (intervalHours === 0) {
+    throw new Error("PHOTO_CLEANUP_INTERVAL_HOURS must be more than 0");
+  }
+
+  const run = async () => {
+    try {
+      const report = await cleanUpPhotos({ action });
+      console.log(formatPhotoCleanupReport(report));
+    } catch (error) {
+      console.error("Photo cleanup failed:", error);
+    }
+  };
+  return setInterval(run, intervalHours * 60 * 60 * 1000).unref();
+}
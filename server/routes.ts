@@ -1,14 +1,20 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
+import type { Readable } from "stream";
+import { createHash } from "crypto";
 import multer from "multer";
 import path from "path";
 import rateLimit from "express-rate-limit";
-import { upload, uploadToMemory, uploadToObjectStorage, deleteFromObjectStorage, isObjectStorageConfigured, serveFromObjectStorage } from "./object-storage";
-import { storage } from "./storage";
-import { insertRecipeSchema } from "@shared/schema";
+import { validateImageUpload } from "./image-processing";
+import { upload, storePhoto, deleteFromObjectStorage, getStorageDriver, objectKeyFromUrl, type StoredObjectInfo, type ByteRange } from "./object-storage";
+import { storage, type StoredSession } from "./storage";
+import { insertRecipeSchema, updateRecipeSchema, updateCookingLogSchema, recipeListQuerySchema, recipeSearchQuerySchema, measurementSystemOptions, createApiTokenSchema, confirmPasswordSchema, type Recipe, type User, type ActiveSession } from "@shared/schema";
+import { scaleRecipe } from "@shared/scaling";
+import { convertRecipe } from "@shared/units";
 import { z } from "zod";
-import { setupAuth, csrfProtection } from "./auth";
+import { setupAuth, csrfProtection, issueCsrfToken, requireAuth, requireSessionAuth, currentUserResponse, generateApiToken, comparePasswords } from "./auth";
+import { writeDataExport } from "./data-export";
 import { fromError } from "zod-validation-error";
 
 // Rate limiting configuration
@@ -34,6 +40,45 @@ const writeOperationLimiter = rateLimit({
 
 // Multer upload middleware is imported from object-storage.ts
 
+// Same bounds as the stored servings field in insertRecipeSchema
+const servingsQuerySchema = z.coerce.number().int().min(1).max(50).optional();
+
+// ?units=metric|imperial renders ingredients and oven temperatures in that system
+const unitsQuerySchema = z.enum(["metric", "imperial"]).optional();
+
+// Recipes are returned as stored unless the caller asks for converted units
+function withRequestedUnits<T extends Recipe>(req: Request, recipe: T): T {
+  const units = unitsQuerySchema.parse(req.query.units);
+  return units ? convertRecipe(recipe, units) : recipe;
+}
+
+// Reject an unknown ?units value up front so handlers can rely on it
+const validateUnitsQuery = (req: Request, res: Response, next: NextFunction) => {
+  if (!unitsQuerySchema.safeParse(req.query.units).success) {
+    return res.status(400).json({ error: "Units must be either metric or imperial" });
+  }
+  next();
+};
+
+// Listings take ?q=&heroIngredient=&minRating=&maxCookTime=&sort=&limit=&cursor=.
+// The body stays a plain array; the next page's cursor is sent in X-Next-Cursor.
+async function sendRecipePage(req: Request, res: Response, userId?: string) {
+  const queryResult = recipeListQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    return res.status(400).json({ error: fromError(queryResult.error).message });
+  }
+
+  const page = await storage.listRecipes(userId, queryResult.data);
+  if (!page) {
+    return res.status(400).json({ error: "Invalid cursor" });
+  }
+
+  if (page.nextCursor) {
+    res.set("X-Next-Cursor", page.nextCursor);
+  }
+  res.json(page.recipes.map(recipe => withRequestedUnits(req, recipe)));
+}
+
 // Middleware to check if user owns a recipe
 const requireRecipeOwnership = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -57,117 +102,323 @@ const requireRecipeOwnership = async (req: Request, res: Response, next: NextFun
   }
 };
 
-// Middleware to require authentication
-const requireAuth = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ error: "Authentication required" });
+// Multipart form submissions carry structured fields (e.g. ingredientList) as JSON strings
+function parseJsonField(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value; // Leave as-is so schema validation reports it
   }
-  next();
-};
+}
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Setup authentication routes
-  setupAuth(app);
+const UNREADABLE_PHOTO_ERROR = "Couldn't read that photo. Please upload a JPEG, PNG or WebP image.";
+const FOREIGN_PHOTO_ERROR = "Photo must be one of your own uploads";
+
+// Store uploaded photos with their resized variants and record them. Returns null, with
+// nothing left behind, if any upload isn't a readable image.
+async function savePhotos(files: Express.Multer.File[], userId: string): Promise<string[] | null> {
+  const saved: string[] = [];
+  for (const file of files) {
+    const photo = await storePhoto(file);
+    if (!photo) {
+      await deleteUnreferencedPhotos(userId, saved);
+      return null;
+    }
+    await storage.createPhoto(userId, photo);
+    saved.push(photo.url);
+  }
+  return saved;
+}
 
-  // Serve uploaded files statically
-  app.use('/uploads', express.static('uploads'));
-  
-  // Serve files from Object Storage
-  app.get('/objects/:path(*)', async (req, res) => {
-    try {
-      const objectPath = req.params.path;
-      console.log('Serving object from Object Storage:', objectPath);
-      
-      // Try to serve from Object Storage first
-      const buffer = await serveFromObjectStorage(objectPath);
-      
-      if (!buffer) {
-        console.log('File not found in Object Storage:', objectPath);
-        return res.status(404).json({ error: 'File not found' });
+// Every photo a recipe points at: the cover plus each cooking session's photos
+function recipePhotos(recipe: Recipe): string[] {
+  const sessionPhotos = (recipe.cookingLog ?? []).flatMap(entry => entry.photos ?? []);
+  return recipe.photo ? [recipe.photo, ...sessionPhotos] : sessionPhotos;
+}
+
+// Photo URLs that point into this app's storage rather than elsewhere
+function isStoredPhotoUrl(photoUrl: string): boolean {
+  return photoUrl.startsWith('/objects/') || photoUrl.startsWith('/uploads/');
+}
+
+// A stored photo can only be put on a recipe by its owner: one they uploaded, or one already
+// on one of their recipes (photos stored before uploads were recorded have no owner on record).
+// External URLs are anyone's to use.
+async function isOwnPhoto(userId: string, photoUrl: string): Promise<boolean> {
+  if (!isStoredPhotoUrl(photoUrl)) return true;
+  if ((await storage.getOwnedPhotoUrls(userId, [photoUrl])).length > 0) return true;
+  return (await storage.getRecipes(userId)).some(recipe => recipePhotos(recipe).includes(photoUrl));
+}
+
+// Delete stored photos with their variants and records
+async function deleteStoredPhotos(photoUrls: string[]) {
+  for (const photoUrl of photoUrls) {
+    await deleteFromObjectStorage(photoUrl);
+  }
+  await storage.deletePhotos(photoUrls);
+}
+
+// The cover can be one of the session photos, so an object is only deleted once
+// the (updated) recipe no longer references it. Only photos the user uploaded are deleted;
+// external URLs, legacy uploads and photos of unknown owner are left to the photo cleanup.
+async function deleteUnreferencedPhotos(userId: string, photoUrls: Array<string | null | undefined>, recipe?: Recipe) {
+  const stillReferenced = new Set(recipe ? recipePhotos(recipe) : []);
+  const unreferenced = [...new Set(photoUrls)].filter((photoUrl): photoUrl is string =>
+    !!photoUrl && photoUrl.startsWith('/objects/') && !stillReferenced.has(photoUrl));
+  await deleteStoredPhotos(await storage.getOwnedPhotoUrls(userId, unreferenced));
+}
+
+// Cooking sessions accept several photos; `photo` is still accepted from older clients
+const MAX_SESSION_PHOTOS = 5;
+const sessionPhotoUpload = upload.fields([
+  { name: 'photos', maxCount: MAX_SESSION_PHOTOS },
+  { name: 'photo', maxCount: 1 },
+]);
+
+// Multer's fileFilter only sees an upload's name and declared type, so the bytes are
+// checked once it has arrived
+async function checkPhotoUploads(req: Request, res: Response, next: NextFunction) {
+  try {
+    const files = req.file ? [req.file] : Object.values((req.files ?? {}) as Record<string, Express.Multer.File[]>).flat();
+    for (const file of files) {
+      const problem = await validateImageUpload(file.buffer);
+      if (problem) {
+        return res.status(400).json({ error: problem });
       }
-      
-      // Determine content type based on file extension
-      const ext = objectPath.toLowerCase().split('.').pop();
-      let contentType = 'image/jpeg'; // default
-      if (ext === 'png') contentType = 'image/png';
-      else if (ext === 'webp') contentType = 'image/webp';
-      else if (ext === 'gif') contentType = 'image/gif';
-      
-      // Set appropriate headers
-      res.set({
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-        'Content-Length': buffer ? buffer.length.toString() : '0',
-      });
-      
-      console.log('Successfully served object:', objectPath, 'Size:', buffer.length);
-      res.send(buffer);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// A Range request made with If-Range only gets a part if the photo hasn't changed since
+function isRangeCurrent(req: Request, info: StoredObjectInfo): boolean {
+  const ifRange = req.get('If-Range');
+  if (!ifRange || ifRange === info.etag) return true;
+  return !!info.lastModified && Date.parse(ifRange) === Math.floor(info.lastModified.getTime() / 1000) * 1000;
+}
+
+// Errors must not carry the photo's validators or caching, or a browser or CDN would keep
+// the error as the photo
+function sendPhotoError(res: Response, status: number, error: string) {
+  res.removeHeader('ETag');
+  res.removeHeader('Last-Modified');
+  return res.status(status).set('Cache-Control', 'no-store').json({ error });
+}
+
+// Photos are streamed from storage, never buffered. Every upload gets a new key, so a
+// photo can be cached for a year and revalidated by its ETag. Storage failures are 503s,
+// so they can't be mistaken for a photo that doesn't exist.
+async function serveStoredObject(req: Request, res: Response) {
+  const key = objectKeyFromUrl(`/objects/${req.params.path}`);
+  if (!key) {
+    return sendPhotoError(res, 404, 'File not found');
+  }
+
+  const driver = getStorageDriver();
+  let info: StoredObjectInfo | null;
+  try {
+    info = await driver.stat(key);
+  } catch (error) {
+    console.error(`Photo storage failed to look up ${key}:`, error);
+    return sendPhotoError(res, 503, 'Photo storage is unavailable');
+  }
+  if (!info) {
+    return sendPhotoError(res, 404, 'File not found');
+  }
+
+  const photoHeaders = {
+    // Only types verified when the photo was stored are served; the rest download as bytes
+    'Content-Type': info.contentType || 'application/octet-stream',
+    'X-Content-Type-Options': 'nosniff',
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'Accept-Ranges': 'bytes',
+  };
+  // If-None-Match and If-Modified-Since are checked against the validators set on the response
+  res.set('ETag', info.etag);
+  if (info.lastModified) {
+    res.set('Last-Modified', info.lastModified.toUTCString());
+  }
+  if (req.fresh) {
+    return res.status(304).set(photoHeaders).end();
+  }
+
+  // A single byte range is served as a part; several ranges, or a malformed header, get the whole photo
+  const ranges = req.headers.range && isRangeCurrent(req, info) ? req.range(info.size, { combine: true }) : undefined;
+  if (ranges === -1) {
+    res.set('Content-Range', `bytes */${info.size}`);
+    return sendPhotoError(res, 416, 'Range not satisfiable');
+  }
+  const range: ByteRange | undefined = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : undefined;
+
+  let stream: Readable | null = null;
+  if (req.method !== 'HEAD') {
+    try {
+      stream = await driver.stream(key, range);
     } catch (error) {
-      console.error('Error serving object:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      console.error(`Photo storage failed to read ${key}:`, error);
+      return sendPhotoError(res, 503, 'Photo storage is unavailable');
+    }
+    if (!stream) {
+      return sendPhotoError(res, 404, 'File not found'); // Deleted since the lookup
     }
+  }
+
+  res.set(photoHeaders);
+  if (range) {
+    res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+  }
+  res.set('Content-Length', String(range ? range.end - range.start + 1 : info.size));
+  if (!stream) {
+    return res.end();
+  }
+  stream.on('error', error => {
+    console.error(`Photo storage failed while sending ${key}:`, error);
+    res.destroy();
   });
+  stream.pipe(res);
+}
+
+// With REQUIRE_VERIFIED_EMAIL_TO_SHARE=true, a user's profile and recipes stay private
+// (404 to everyone else) until they verify their email address
+function isSharedPublicly(owner: User, req: Request): boolean {
+  if (process.env.REQUIRE_VERIFIED_EMAIL_TO_SHARE !== 'true') return true;
+  return !!owner.emailVerifiedAt || req.user?.id === owner.id;
+}
+
+// Sessions are listed and revoked by a hash of their id (see storage.listUserSessions)
+function currentSessionHash(req: Request): string {
+  return createHash("sha256").update(req.sessionID).digest("hex");
+}
+
+function toActiveSession(session: StoredSession, req: Request): ActiveSession {
+  const { device } = session;
+  return {
+    id: session.id,
+    userAgent: device?.userAgent ?? null,
+    ip: device?.ip ?? null,
+    createdAt: device?.createdAt ? new Date(device.createdAt).toISOString() : null,
+    lastSeenAt: device?.lastSeenAt ? new Date(device.lastSeenAt).toISOString() : null,
+    expiresAt: session.expiresAt.toISOString(),
+    current: session.id === currentSessionHash(req),
+  };
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Setup authentication routes
+  setupAuth(app);
+
+  // Photos saved before photo storage existed were written to uploads/. They were never
+  // checked, so browsers must not guess a type other than the one from the extension.
+  app.use('/uploads', express.static('uploads', {
+    setHeaders: res => res.setHeader('X-Content-Type-Options', 'nosniff'),
+  }));
+
+  // Serve photos from the configured storage driver
+  app.get('/objects/:path(*)', serveStoredObject);
 
   // Get user data by username (public)
   app.get("/api/users/:username", async (req, res) => {
     try {
       const user = await storage.getUserByUsername(req.params.username);
-      if (!user) {
+      if (!user || !isSharedPublicly(user, req)) {
         return res.status(404).json({ error: "User not found" });
       }
       // Return public user data (exclude sensitive fields)
-      const { password, passwordResetToken, passwordResetExpires, ...publicUser } = user;
+      const {
+        password, passwordResetToken, passwordResetExpires, emailVerificationToken, emailVerificationExpires,
+        totpSecret, totpPendingSecret, totpEnabledAt, totpLastUsedStep, totpRecoveryCodes,
+        ...publicUser
+      } = user;
       res.json(publicUser);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch user" });
     }
   });
 
-  // Get recipes for a specific user (public)
-  app.get("/api/users/:username/recipes", async (req, res) => {
+  // Get recipes for a specific user (public), one page at a time
+  app.get("/api/users/:username/recipes", validateUnitsQuery, async (req, res) => {
     try {
       const user = await storage.getUserByUsername(req.params.username);
-      if (!user) {
+      if (!user || !isSharedPublicly(user, req)) {
         return res.status(404).json({ error: "User not found" });
       }
-      const recipes = await storage.getRecipes(user.id);
-      res.json(recipes);
+      await sendRecipePage(req, res, user.id);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch recipes" });
     }
   });
 
-  // Get all recipes (legacy endpoint - now returns all public recipes)
-  app.get("/api/recipes", async (req, res) => {
+  // Get public recipes (static recipes with no owner), one page at a time
+  app.get("/api/recipes", validateUnitsQuery, async (req, res) => {
     try {
-      const recipes = await storage.getRecipes();
-      res.json(recipes);
+      await sendRecipePage(req, res);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch recipes" });
     }
   });
 
-  // Get single recipe
-  app.get("/api/recipes/:id", async (req, res) => {
+  // Full-text search over public recipes, or one user's collection with ?username=
+  app.get("/api/search", validateUnitsQuery, async (req, res) => {
+    try {
+      const queryResult = recipeSearchQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({ error: fromError(queryResult.error).message });
+      }
+
+      let userId: string | undefined;
+      if (queryResult.data.username) {
+        const user = await storage.getUserByUsername(queryResult.data.username);
+        if (!user || !isSharedPublicly(user, req)) {
+          return res.status(404).json({ error: "User not found" });
+        }
+        userId = user.id;
+      }
+
+      const results = await storage.searchRecipes(userId, queryResult.data);
+      res.json(results.map(result => ({ ...result, recipe: withRequestedUnits(req, result.recipe) })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to search recipes" });
+    }
+  });
+
+  // Get single recipe, optionally rescaled with ?servings=N and converted with ?units=
+  app.get("/api/recipes/:id", validateUnitsQuery, async (req, res) => {
     try {
+      const servingsResult = servingsQuerySchema.safeParse(req.query.servings);
+      if (!servingsResult.success) {
+        return res.status(400).json({ error: "Servings must be a whole number between 1 and 50" });
+      }
+
       const recipe = await storage.getRecipe(req.params.id);
       if (!recipe) {
         return res.status(404).json({ error: "Recipe not found" });
       }
-      res.json(recipe);
+      if (recipe.userId) {
+        const owner = await storage.getUser(recipe.userId);
+        if (!owner || !isSharedPublicly(owner, req)) {
+          return res.status(404).json({ error: "Recipe not found" });
+        }
+      }
+
+      const servings = servingsResult.data;
+      res.json(withRequestedUnits(req, servings === undefined ? recipe : scaleRecipe(recipe, servings)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch recipe" });
     }
   });
 
   // Create new recipe (requires authentication)
-  app.post("/api/recipes", writeOperationLimiter, csrfProtection, requireAuth, upload.single('photo'), async (req, res) => {
+  app.post("/api/recipes", writeOperationLimiter, csrfProtection, requireAuth, upload.single('photo'), checkPhotoUploads, async (req, res) => {
     try {
       // Ensure numbers are properly typed (handles both JSON numbers and form data strings)
       const formData = {
         ...req.body,
         cookTime: typeof req.body.cookTime === 'number' ? req.body.cookTime : parseInt(req.body.cookTime),
         servings: typeof req.body.servings === 'number' ? req.body.servings : parseInt(req.body.servings),
+        ingredientList: parseJsonField(req.body.ingredientList),
       };
 
       // Validate input
@@ -180,24 +431,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const recipeData = validationResult.data;
 
-      // If photo was uploaded, try Object Storage first, fallback to local storage
-      if (req.file) {
-        try {
-          recipeData.photo = await uploadToObjectStorage(req.file);
-          console.log('Successfully uploaded to Object Storage:', recipeData.photo);
-        } catch (objectStorageError) {
-          console.error('Object Storage upload failed, falling back to local storage:', objectStorageError);
-          recipeData.photo = await uploadToMemory(req.file);
-          console.log('Fallback upload successful:', recipeData.photo);
-        }
-      }
-
       // Ensure req.user exists (should be guaranteed by requireAuth, but be defensive)
       if (!req.user || !req.user.id) {
         console.error('User authentication issue: req.user =', req.user);
         return res.status(401).json({ error: "Authentication required" });
       }
 
+      if (recipeData.photo && !(await isOwnPhoto(req.user.id, recipeData.photo))) {
+        return res.status(400).json({ error: FOREIGN_PHOTO_ERROR });
+      }
+
+      // If photo was uploaded, keep it and its resized variants in the configured photo storage
+      if (req.file) {
+        const [photo] = await savePhotos([req.file], req.user.id) ?? [];
+        if (!photo) {
+          return res.status(400).json({ error: UNREADABLE_PHOTO_ERROR });
+        }
+        recipeData.photo = photo;
+      }
+
       const recipe = await storage.createRecipe(recipeData, req.user.id);
       res.status(201).json(recipe);
     } catch (error) {
@@ -209,42 +461,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update recipe (requires ownership)
-  app.patch("/api/recipes/:id", writeOperationLimiter, csrfProtection, requireRecipeOwnership, upload.single('photo'), async (req, res) => {
+  app.patch("/api/recipes/:id", writeOperationLimiter, csrfProtection, requireRecipeOwnership, upload.single('photo'), checkPhotoUploads, async (req, res) => {
     try {
+      // Form data sends numbers as strings; only coerce the fields that were sent
+      const { removePhoto, ...fields } = req.body;
+      const formData = {
+        ...fields,
+        ...(fields.cookTime !== undefined && {
+          cookTime: typeof fields.cookTime === 'number' ? fields.cookTime : parseInt(fields.cookTime),
+        }),
+        ...(fields.servings !== undefined && {
+          servings: typeof fields.servings === 'number' ? fields.servings : parseInt(fields.servings),
+        }),
+        ingredientList: parseJsonField(fields.ingredientList),
+      };
+
       // Validate input
-      const validationResult = insertRecipeSchema.partial().safeParse(req.body);
+      const validationResult = updateRecipeSchema.safeParse(formData);
       if (!validationResult.success) {
         const validationError = fromError(validationResult.error);
         return res.status(400).json({ error: validationError.message });
       }
 
       const updates = validationResult.data;
+      const shouldRemovePhoto = removePhoto === true || removePhoto === 'true';
+      if (updates.photo && !(await isOwnPhoto(req.user!.id, updates.photo))) {
+        return res.status(400).json({ error: FOREIGN_PHOTO_ERROR });
+      }
 
-      // If photo was uploaded, store in Object Storage and delete old photo
+      // Get the existing recipe so a replaced or removed photo can be cleaned up
+      const existingRecipe = await storage.getRecipe(req.params.id);
       if (req.file) {
-        // Get the existing recipe to check for old photo
-        const existingRecipe = await storage.getRecipe(req.params.id);
-
-        // Upload new photo - try Object Storage first, fallback to local storage
-        try {
-          updates.photo = await uploadToObjectStorage(req.file);
-          console.log('Successfully uploaded to Object Storage:', updates.photo);
-        } catch (objectStorageError) {
-          console.error('Object Storage upload failed, falling back to local storage:', objectStorageError);
-          updates.photo = await uploadToMemory(req.file);
-          console.log('Fallback upload successful:', updates.photo);
-        }
-
-        // Delete old photo from Object Storage if it exists (not from external URLs or uploads)
-        if (existingRecipe?.photo && existingRecipe.photo.startsWith('/objects/')) {
-          await deleteFromObjectStorage(existingRecipe.photo);
+        const [photo] = await savePhotos([req.file], req.user!.id) ?? [];
+        if (!photo) {
+          return res.status(400).json({ error: UNREADABLE_PHOTO_ERROR });
         }
+        updates.photo = photo;
+      } else if (shouldRemovePhoto) {
+        updates.photo = null;
       }
 
       const recipe = await storage.updateRecipe(req.params.id, updates, req.user!.id);
       if (!recipe) {
         return res.status(404).json({ error: "Recipe not found" });
       }
+
+      // Delete the old cover unless a cooking session still shows it
+      if (updates.photo !== undefined && existingRecipe?.photo !== updates.photo) {
+        await deleteUnreferencedPhotos(req.user!.id, [existingRecipe?.photo], recipe);
+      }
       res.json(recipe);
     } catch (error) {
       console.error('Recipe update error:', error);
@@ -264,9 +529,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Recipe not found" });
       }
       
-      // Delete photo from Object Storage if it exists (not from external URLs or uploads)
-      if (recipe?.photo && recipe.photo.startsWith('/objects/')) {
-        await deleteFromObjectStorage(recipe.photo);
+      // Delete the cover and session photos from photo storage (not external URLs or uploads)
+      if (recipe) {
+        await deleteUnreferencedPhotos(req.user!.id, recipePhotos(recipe));
       }
       
       res.status(204).send();
@@ -276,7 +541,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add cooking log entry (requires ownership)
-  app.post("/api/recipes/:id/cooking-log", writeOperationLimiter, csrfProtection, requireRecipeOwnership, upload.single('photo'), async (req, res) => {
+  app.post("/api/recipes/:id/cooking-log", writeOperationLimiter, csrfProtection, requireRecipeOwnership, sessionPhotoUpload, checkPhotoUploads, async (req, res) => {
     try {
       const { date, timestamp, notes, rating } = req.body;
       // Accept either 'timestamp' (new format) or 'date' (legacy format)
@@ -285,33 +550,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!logTimestamp || !notes || rating === undefined) {
         return res.status(400).json({ error: "Timestamp/date, notes, and rating are required" });
       }
+      if (isNaN(Date.parse(logTimestamp))) {
+        return res.status(400).json({ error: "Timestamp/date must be a valid date" });
+      }
 
-      // Store as timestamp for new entries, maintain backward compatibility
-      const logEntry = { timestamp: logTimestamp, notes, rating };
-      
-      // If photo was uploaded, update the recipe photo in Object Storage
-      if (req.file) {
-        // Get the existing recipe to check for old photo
-        const existingRecipe = await storage.getRecipe(req.params.id);
-        
-        // Upload new photo - try Object Storage first, fallback to local storage
-        let photoUrl;
-        try {
-          photoUrl = await uploadToObjectStorage(req.file);
-          console.log('Successfully uploaded to Object Storage:', photoUrl);
-        } catch (objectStorageError) {
-          console.error('Object Storage upload failed, falling back to local storage:', objectStorageError);
-          photoUrl = await uploadToMemory(req.file);
-          console.log('Fallback upload successful:', photoUrl);
-        }
-        
-        // Delete old photo from Object Storage if it exists (not from external URLs or uploads)
-        if (existingRecipe?.photo && existingRecipe.photo.startsWith('/objects/')) {
-          await deleteFromObjectStorage(existingRecipe.photo);
-        }
-        
-        await storage.updateRecipe(req.params.id, { photo: photoUrl }, req.user!.id);
+      // Form data sends the rating as a string
+      const logRating = typeof rating === 'number' ? rating : parseInt(rating, 10);
+      if (!Number.isInteger(logRating) || logRating < 1 || logRating > 5) {
+        return res.status(400).json({ error: "Rating must be a whole number from 1 to 5" });
+      }
+
+      // Photos belong to this session; the recipe's cover only changes via PUT /api/recipes/:id/cover
+      const uploadedFiles = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const photoFiles = [...(uploadedFiles?.photos ?? []), ...(uploadedFiles?.photo ?? [])];
+      const photos = await savePhotos(photoFiles, req.user!.id);
+      if (!photos) {
+        return res.status(400).json({ error: UNREADABLE_PHOTO_ERROR });
       }
+
+      // Store as timestamp for new entries, maintain backward compatibility
+      const logEntry = {
+        timestamp: logTimestamp,
+        notes,
+        rating: logRating,
+        ...(photos.length > 0 && { photos }),
+      };
       
       const recipe = await storage.addCookingLog(req.params.id, logEntry, req.user!.id);
       if (!recipe) {
@@ -324,36 +587,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Remove cooking log entry (requires ownership)
-  app.delete("/api/recipes/:id/cooking-log/:index", writeOperationLimiter, csrfProtection, requireRecipeOwnership, async (req, res) => {
+  // Correct a cooking log entry's date, notes or rating (requires ownership)
+  app.patch("/api/recipes/:id/cooking-log/:entryId", writeOperationLimiter, csrfProtection, requireRecipeOwnership, async (req, res) => {
     try {
-      const logIndex = parseInt(req.params.index, 10);
-      if (isNaN(logIndex)) {
-        return res.status(400).json({ error: "Invalid log index" });
+      const validationResult = updateCookingLogSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
       }
 
-      const recipe = await storage.removeCookingLog(req.params.id, logIndex, req.user!.id);
+      const recipe = await storage.updateCookingLog(req.params.id, req.params.entryId, validationResult.data, req.user!.id);
       if (!recipe) {
-        return res.status(404).json({ error: "Recipe not found or invalid log index" });
+        // requireRecipeOwnership has already found the recipe, so the entry is gone
+        return res.status(409).json({ error: "Cooking log entry no longer exists" });
       }
       res.json(recipe);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update cooking log entry" });
+    }
+  });
+
+  // Remove cooking log entry (requires ownership)
+  app.delete("/api/recipes/:id/cooking-log/:entryId", writeOperationLimiter, csrfProtection, requireRecipeOwnership, async (req, res) => {
+    try {
+      const existingRecipe = await storage.getRecipe(req.params.id);
+      const entry = existingRecipe?.cookingLog?.find(logEntry => logEntry.id === req.params.entryId);
+
+      const recipe = await storage.removeCookingLog(req.params.id, req.params.entryId, req.user!.id);
+      if (!recipe) {
+        // requireRecipeOwnership has already found the recipe, so the entry is gone
+        return res.status(409).json({ error: "Cooking log entry no longer exists" });
+      }
+
+      // Keep a session photo that is still the recipe's cover
+      await deleteUnreferencedPhotos(req.user!.id, entry?.photos ?? [], recipe);
+      res.json(recipe);
     } catch (error) {
       res.status(500).json({ error: "Failed to remove cooking log entry" });
     }
   });
 
+  // Use one of the cooking session photos as the recipe's cover (requires ownership)
+  app.put("/api/recipes/:id/cover", writeOperationLimiter, csrfProtection, requireRecipeOwnership, async (req, res) => {
+    try {
+      const validationResult = z.object({ photo: z.string().min(1) }).safeParse(req.body);
+      if (!validationResult.success) {
+        const validationError = fromError(validationResult.error);
+        return res.status(400).json({ error: validationError.message });
+      }
+      const { photo } = validationResult.data;
+
+      const existingRecipe = await storage.getRecipe(req.params.id);
+      if (!existingRecipe) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+
+      const sessionPhotos = (existingRecipe.cookingLog ?? []).flatMap(entry => entry.photos ?? []);
+      if (!sessionPhotos.includes(photo)) {
+        return res.status(400).json({ error: "Cover must be one of this recipe's cooking session photos" });
+      }
+
+      const recipe = await storage.updateRecipe(req.params.id, { photo }, req.user!.id);
+      if (!recipe) {
+        return res.status(404).json({ error: "Recipe not found" });
+      }
+
+      // The previous cover is deleted unless it came from a cooking session too
+      if (existingRecipe.photo !== photo) {
+        await deleteUnreferencedPhotos(req.user!.id, [existingRecipe.photo], recipe);
+      }
+      res.json(recipe);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update cover photo" });
+    }
+  });
+
   // User profile update endpoints
-  app.patch("/api/user", writeOperationLimiter, csrfProtection, requireAuth, async (req, res) => {
+  app.patch("/api/user", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
     try {
       const updates = z.object({
         username: z.string().min(3).max(50).regex(/^[a-zA-Z0-9_-]+$/).optional(),
         displayName: z.string().min(1).optional(),
+        measurementSystem: z.enum(measurementSystemOptions).optional(),
       }).parse(req.body);
 
       // Check if username is already taken (if being changed)
       if (updates.username && updates.username !== req.user!.username) {
+        // Lookups ignore case, so changing only the case of your own username is allowed
         const existingUser = await storage.getUserByUsername(updates.username);
-        if (existingUser) {
+        if (existingUser && existingUser.id !== req.user!.id) {
           return res.status(400).json({ error: "Username already taken" });
         }
       }
@@ -362,17 +684,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedUser) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(updatedUser);
+      res.json(currentUserResponse(updatedUser));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid user data", details: error.errors });
+      } else if ((error as { code?: string })?.code === '23505') { // Taken since the check above
+        res.status(400).json({ error: "Username already taken" });
       } else {
         res.status(500).json({ error: "Failed to update user" });
       }
     }
   });
 
-  app.patch("/api/user/password", writeOperationLimiter, csrfProtection, requireAuth, async (req, res) => {
+  app.patch("/api/user/password", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
     try {
       const { currentPassword, newPassword } = req.body;
       
@@ -388,13 +712,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!success) {
         return res.status(400).json({ error: "Current password is incorrect" });
       }
-      
-      res.json({ message: "Password updated successfully" });
+
+      // Anyone else signed in with the old password is signed out, and any token they made revoked
+      const signedOutSessions = await storage.deleteOtherUserSessions(req.user!.id, req.sessionID);
+      const revokedApiTokens = await storage.deleteUserApiTokens(req.user!.id);
+      res.json({ message: "Password updated successfully", signedOutSessions, revokedApiTokens });
     } catch (error) {
       res.status(500).json({ error: "Failed to update password" });
     }
   });
 
+  // Where the user is signed in, most recently active first
+  app.get("/api/user/sessions", requireSessionAuth, async (req, res) => {
+    try {
+      const sessions = (await storage.listUserSessions(req.user!.id))
+        .map(session => toActiveSession(session, req))
+        .sort((a, b) => (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out every other session, e.g. after using a shared computer
+  app.post("/api/user/sessions/revoke-others", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      const signedOutSessions = await storage.deleteOtherUserSessions(req.user!.id, req.sessionID);
+      res.json({ signedOutSessions });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sign out other sessions" });
+    }
+  });
+
+  // Sign out one session; for the current one this is the same as logging out
+  app.delete("/api/user/sessions/:id", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res, next) => {
+    try {
+      if (req.params.id === currentSessionHash(req)) {
+        return req.logout((err) => {
+          if (err) return next(err);
+          issueCsrfToken(req, res);
+          res.sendStatus(204);
+        });
+      }
+
+      const deleted = await storage.deleteUserSession(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sign out session" });
+    }
+  });
+
+  // Personal API tokens, newest first; the tokens themselves are never shown again
+  app.get("/api/user/tokens", requireSessionAuth, async (req, res) => {
+    try {
+      res.json(await storage.listApiTokens(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch API tokens" });
+    }
+  });
+
+  // The response is the only time the token itself is returned
+  app.post("/api/user/tokens", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      const { name, scope, expiresInDays } = createApiTokenSchema.parse(req.body);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const expiresAt = expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+
+      const created = await storage.createApiToken(req.user!.id, { name, scope, tokenHash, tokenPrefix, expiresAt });
+      res.status(201).json({ ...created, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to create API token" });
+      }
+    }
+  });
+
+  app.delete("/api/user/tokens/:id", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiToken(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "API token not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke API token" });
+    }
+  });
+
+  // Everything the user has added, as a zip download
+  app.get("/api/user/export", requireSessionAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const recipes = await storage.getRecipes(user.id);
+      const profile = { ...currentUserResponse(user), bio: user.bio, createdAt: user.createdAt };
+
+      res.attachment(`my-recipe-kitchen-${user.username}-${new Date().toISOString().slice(0, 10)}.zip`);
+      res.set("Cache-Control", "no-store");
+      await writeDataExport(res, profile, recipes);
+    } catch (error) {
+      console.error("Data export failed:", error);
+      if (res.headersSent) {
+        return res.destroy(); // Part of the zip has been sent; a broken download beats a corrupt file
+      }
+      res.status(500).json({ error: "Failed to export data" });
+    }
+  });
+
+  // Delete the account with its recipes, cooking log, photos, API tokens and sessions.
+  // The current password confirms it.
+  app.delete("/api/user", writeOperationLimiter, csrfProtection, requireSessionAuth, async (req, res, next) => {
+    try {
+      const validationResult = confirmPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: fromError(validationResult.error).message });
+      }
+      if (!(await comparePasswords(validationResult.data.password, req.user!.password))) {
+        return res.status(400).json({ error: "Password is incorrect" });
+      }
+
+      const userId = req.user!.id;
+      // Looked up first, since the account's photo records go with it
+      const photos = await storage.getOwnedPhotoUrls(userId, (await storage.getRecipes(userId)).flatMap(recipePhotos));
+      const deleted = await storage.deleteUser(userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // The account is already gone, so a photo that can't be deleted is only logged
+      await deleteStoredPhotos(photos).catch(error => {
+        console.error("Failed to delete photos of deleted account:", error);
+      });
+      await storage.deleteOtherUserSessions(userId, req.sessionID);
+      req.logout((err) => {
+        if (err) return next(err);
+        issueCsrfToken(req, res);
+        res.sendStatus(204);
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete account" });
+    }
+  });
+
   // Generate recipe images endpoint
   app.get("/api/generate-image/:recipe", (req, res) => {
     const recipe = req.params.recipe;
@@ -481,9 +944,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.send(svg);
   });
 
-  // Serve uploaded files
-  app.use('/uploads', express.static('uploads'));
-
   const httpServer = createServer(app);
   return httpServer;
 }
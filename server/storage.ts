@@ -1,6 +1,195 @@
-import { type Recipe, type InsertRecipe, type CookingLogEntry, type User, type InsertUser, recipes, users } from "@shared/schema";
+import { type Recipe, type InsertRecipe, type CookingLogEntry, type NewCookingLogEntry, type UpdateCookingLogEntry, type CookingSession, type Ingredient, type RecipeListQuery, type RecipeSort, type RecipeSearchQuery, type RecipeSearchResult, type SearchSnippetSegment, type User, type InsertUser, type ApiToken, type ApiTokenInfo, type ApiTokenScope, type NewPhoto, type PhotoVariant, recipes, users, cookingSessions, apiTokens, photos, recipeSearchVector, cookingNotesSearchVector } from "@shared/schema";
+import { parseIngredients, formatIngredients } from "@shared/ingredients";
 import { db, getEnvironment } from "./db";
-import { eq, and, isNull } from "drizzle-orm";
+import { moveLegacyCookingLog } from "./legacy-cooking-log";
+import { eq, and, or, isNull, inArray, desc, asc, gt, gte, lt, lte, ilike, getTableColumns, sql, type SQL } from "drizzle-orm";
+
+// Keep the free-text and structured ingredient columns in step: a structured
+// list is rendered to text, free text is parsed into a structured list
+function resolveIngredients(
+  data: Pick<Partial<InsertRecipe>, "ingredients" | "ingredientList">,
+): { ingredients: string; ingredientList: Ingredient[] } | undefined {
+  if (data.ingredientList !== undefined) {
+    return { ingredients: formatIngredients(data.ingredientList), ingredientList: data.ingredientList };
+  }
+  if (data.ingredients !== undefined) {
+    return { ingredients: data.ingredients, ingredientList: parseIngredients(data.ingredients) };
+  }
+  return undefined;
+}
+
+// Recorded in each session when someone signs in (see setupAuth), for the sessions list
+export interface SessionDevice {
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number | null; // Null for sessions that were already signed in when this was added
+  lastSeenAt: number;
+}
+
+export interface StoredSession {
+  id: string; // SHA-256 of the session id
+  device: SessionDevice | null;
+  expiresAt: Date;
+}
+
+// Everything about a token except its hash and owner
+const { tokenHash: _tokenHash, userId: _userId, environment: _environment, ...apiTokenInfoColumns } = getTableColumns(apiTokens);
+
+// Sessions live in connect-pg-simple's "session" table; passport keeps the user id at sess.passport.user
+const sessionIdHash = sql`encode(sha256(convert_to(sid, 'UTF8')), 'hex')`;
+const sessionUserId = sql`sess->'passport'->>'user'`;
+
+// Rows written before ingredient_list existed are parsed on read until the data migration has run
+function withIngredientList(recipe: Recipe): Recipe {
+  if (recipe.ingredientList) return recipe;
+  return { ...recipe, ingredientList: parseIngredients(recipe.ingredients) };
+}
+
+function toCookingLogEntry(session: CookingSession): CookingLogEntry {
+  return {
+    id: session.id,
+    timestamp: session.cookedAt.toISOString(),
+    notes: session.notes,
+    rating: session.rating,
+    ...(session.photos.length > 0 && { photos: session.photos }),
+  };
+}
+
+// Resized copies of each photo that has them; photos stored before variants existed have none
+async function photoVariantsByUrl(photoUrls: string[]): Promise<Map<string, PhotoVariant[]>> {
+  if (photoUrls.length === 0) return new Map();
+  const rows: Array<{ url: string; variants: PhotoVariant[] }> = await db
+    .select({ url: photos.url, variants: photos.variants })
+    .from(photos)
+    .where(and(inArray(photos.url, photoUrls), eq(photos.environment, getEnvironment())));
+  return new Map(rows.map(row => [row.url, row.variants]));
+}
+
+// Recipes keep their API shape: cooking sessions are attached as cookingLog, newest first,
+// and photoVariants lists the resized copies of the cover and session photos
+async function withCookingLogs(recipeList: Recipe[]): Promise<Recipe[]> {
+  if (recipeList.length === 0) return [];
+
+  // Logs still in the legacy JSONB column are moved before anyone sees (and holds ids from) them
+  for (const recipe of recipeList) {
+    if (recipe.cookingLog && recipe.cookingLog.length > 0) {
+      await db.transaction((tx: typeof db) => moveLegacyCookingLog(tx, recipe.id));
+    }
+  }
+
+  const currentEnv = getEnvironment();
+  const sessions: CookingSession[] = await db
+    .select()
+    .from(cookingSessions)
+    .where(and(
+      inArray(cookingSessions.recipeId, recipeList.map(recipe => recipe.id)),
+      eq(cookingSessions.environment, currentEnv),
+    ))
+    .orderBy(desc(cookingSessions.cookedAt), desc(cookingSessions.createdAt));
+
+  const logsByRecipe = new Map<string, CookingLogEntry[]>();
+  for (const session of sessions) {
+    const log = logsByRecipe.get(session.recipeId) ?? [];
+    log.push(toCookingLogEntry(session));
+    logsByRecipe.set(session.recipeId, log);
+  }
+
+  const recipePhotos = (recipe: Recipe) => [
+    ...(recipe.photo ? [recipe.photo] : []),
+    ...(logsByRecipe.get(recipe.id) ?? []).flatMap(entry => entry.photos ?? []),
+  ];
+  const variants = await photoVariantsByUrl([...new Set(recipeList.flatMap(recipePhotos))]);
+
+  return recipeList.map(recipe => ({
+    ...withIngredientList(recipe),
+    cookingLog: logsByRecipe.get(recipe.id) ?? [],
+    photoVariants: Object.fromEntries(recipePhotos(recipe).flatMap(url => variants.has(url) ? [[url, variants.get(url)!]] : [])),
+  }));
+}
+
+// Serialises log writes per recipe so each rating refresh sees every committed session
+async function lockRecipe(tx: typeof db, recipeId: string): Promise<void> {
+  await tx.select({ id: recipes.id }).from(recipes).where(eq(recipes.id, recipeId)).for("update");
+}
+
+// A recipe's rating is the rounded average of its session ratings (0 when never cooked)
+async function refreshRating(tx: typeof db, recipeId: string): Promise<void> {
+  await tx
+    .update(recipes)
+    .set({
+      rating: sql`coalesce((select round(avg(${cookingSessions.rating})) from ${cookingSessions} where ${cookingSessions.recipeId} = ${recipeId}), 0)`,
+    })
+    .where(eq(recipes.id, recipeId));
+}
+
+// Latest cooking session, or when the recipe was added if it has never been cooked
+const lastActivityAt = sql`coalesce((select max(${cookingSessions.cookedAt}) from ${cookingSessions} where ${cookingSessions.recipeId} = ${recipes.id}), ${recipes.createdAt})`;
+
+// Each listing order is a single key with the recipe id as tie-breaker, so a
+// cursor only has to carry the last row's key and id
+const recipeSortKeys: Record<RecipeSort, { key: SQL; direction: "asc" | "desc"; type: "timestamp" | "integer" | "text" }> = {
+  recent: { key: lastActivityAt, direction: "desc", type: "timestamp" },
+  newest: { key: sql`${recipes.createdAt}`, direction: "desc", type: "timestamp" },
+  rating: { key: sql`coalesce(${recipes.rating}, 0)`, direction: "desc", type: "integer" },
+  quickest: { key: sql`${recipes.cookTime}`, direction: "asc", type: "integer" },
+  name: { key: sql`lower(${recipes.name})`, direction: "asc", type: "text" },
+};
+
+// Cursors are opaque to clients: base64url JSON of [sort, last key as Postgres text, last id].
+// Keys travel as text so timestamps keep their microseconds.
+function encodeRecipeCursor(sort: RecipeSort, key: string, id: string): string {
+  return Buffer.from(JSON.stringify([sort, key, id])).toString("base64url");
+}
+
+function decodeRecipeCursor(cursor: string, sort: RecipeSort): { key: string; id: string } | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded) || decoded.length !== 3 || decoded[0] !== sort) return undefined;
+    const [, key, id] = decoded;
+    return typeof key === "string" && typeof id === "string" ? { key, id } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// LIKE treats % and _ as wildcards; search terms are matched literally
+function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// A user's collection (or the public recipes) narrowed by the listing filters
+function collectionFilters(
+  userId: string | undefined,
+  filters: Pick<RecipeListQuery, "heroIngredient" | "minRating" | "maxCookTime">,
+): (SQL | undefined)[] {
+  const conditions: (SQL | undefined)[] = [
+    userId ? eq(recipes.userId, userId) : isNull(recipes.userId),
+    eq(recipes.environment, getEnvironment()),
+  ];
+  if (filters.heroIngredient) conditions.push(eq(recipes.heroIngredient, filters.heroIngredient));
+  if (filters.minRating) conditions.push(gte(recipes.rating, filters.minRating));
+  if (filters.maxCookTime) conditions.push(lte(recipes.cookTime, filters.maxCookTime));
+  return conditions;
+}
+
+// ts_headline wraps matches in these; neither can appear in stored recipe text
+const HIGHLIGHT_START = "\u0001";
+const HIGHLIGHT_STOP = "\u0002";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "`;
+
+function toSnippet(headline: string): SearchSnippetSegment[] {
+  return headline
+    .split(new RegExp(`(${HIGHLIGHT_START}[^${HIGHLIGHT_STOP}]*${HIGHLIGHT_STOP})`))
+    .filter(text => text.length > 0)
+    .map(text => text.startsWith(HIGHLIGHT_START)
+      ? { text: text.slice(1, -1), highlighted: true }
+      : { text, highlighted: false });
+}
+
+export interface RecipePage {
+  recipes: Recipe[];
+  nextCursor: string | null; // null on the last page
+}
 
 export interface IStorage {
   // User operations
@@ -10,15 +199,41 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
   updateUserPassword(id: string, currentPassword: string, newPassword: string): Promise<boolean>;
+  deleteUser(id: string): Promise<boolean>;
+  setPasswordResetToken(id: string, tokenHash: string, expires: Date): Promise<void>;
+  resetPasswordWithToken(tokenHash: string, hashedPassword: string): Promise<User | undefined>;
+  setEmailVerificationToken(id: string, tokenHash: string, expires: Date): Promise<void>;
+  verifyEmailWithToken(tokenHash: string): Promise<User | undefined>;
+  setPendingTotpSecret(id: string, secret: string): Promise<void>;
+  enableTotp(id: string, secret: string, step: number, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTotp(id: string): Promise<void>;
+  setTotpRecoveryCodes(id: string, recoveryCodeHashes: string[]): Promise<void>;
+  useTotpStep(id: string, step: number): Promise<boolean>;
+  useTotpRecoveryCode(id: string, codeHash: string): Promise<boolean>;
+  listUserSessions(userId: string): Promise<StoredSession[]>;
+  deleteUserSession(userId: string, id: string): Promise<boolean>;
+  deleteOtherUserSessions(userId: string, keepSessionId?: string): Promise<number>;
+  createApiToken(userId: string, token: { name: string; scope: ApiTokenScope; tokenHash: string; tokenPrefix: string; expiresAt: Date | null }): Promise<ApiTokenInfo>;
+  listApiTokens(userId: string): Promise<ApiTokenInfo[]>;
+  deleteApiToken(userId: string, id: string): Promise<boolean>;
+  deleteUserApiTokens(userId: string): Promise<number>;
+  getApiTokenByHash(tokenHash: string): Promise<{ token: ApiToken; user: User } | undefined>;
+  touchApiToken(id: string): Promise<void>;
+  createPhoto(userId: string, photo: NewPhoto): Promise<void>;
+  deletePhotos(urls: string[]): Promise<void>;
+  getOwnedPhotoUrls(userId: string, urls: string[]): Promise<string[]>;
   
   // Recipe operations
   getRecipes(userId?: string): Promise<Recipe[]>;
+  listRecipes(userId: string | undefined, query: RecipeListQuery): Promise<RecipePage | undefined>;
+  searchRecipes(userId: string | undefined, query: RecipeSearchQuery): Promise<RecipeSearchResult[]>;
   getRecipe(id: string): Promise<Recipe | undefined>;
   createRecipe(recipe: InsertRecipe, userId: string): Promise<Recipe>;
   updateRecipe(id: string, updates: Partial<InsertRecipe>, userId: string): Promise<Recipe | undefined>;
   deleteRecipe(id: string, userId: string): Promise<boolean>;
-  addCookingLog(id: string, logEntry: CookingLogEntry, userId: string): Promise<Recipe | undefined>;
-  removeCookingLog(id: string, logIndex: number, userId: string): Promise<Recipe | undefined>;
+  addCookingLog(id: string, logEntry: NewCookingLogEntry, userId: string): Promise<Recipe | undefined>;
+  updateCookingLog(id: string, entryId: string, updates: UpdateCookingLogEntry, userId: string): Promise<Recipe | undefined>;
+  removeCookingLog(id: string, entryId: string, userId: string): Promise<Recipe | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -29,15 +244,23 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Usernames and emails match case-insensitively; the unique lower() indexes on both mean at
+  // most one account matches
   async getUserByUsername(username: string): Promise<User | undefined> {
     const currentEnv = getEnvironment();
-    const [user] = await db.select().from(users).where(and(eq(users.username, username), eq(users.environment, currentEnv)));
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(sql`lower(${users.username})`, username.toLowerCase()), eq(users.environment, currentEnv)));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     const currentEnv = getEnvironment();
-    const [user] = await db.select().from(users).where(and(eq(users.email, email), eq(users.environment, currentEnv)));
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(sql`lower(${users.email})`, email.toLowerCase()), eq(users.environment, currentEnv)));
     return user || undefined;
   }
 
@@ -88,37 +311,361 @@ export class DatabaseStorage implements IStorage {
     return !!updatedUser;
   }
 
+  // Recipes, cooking sessions and API tokens go with the user (foreign keys cascade)
+  async deleteUser(id: string): Promise<boolean> {
+    const currentEnv = getEnvironment();
+    const [deleted] = await db
+      .delete(users)
+      .where(and(eq(users.id, id), eq(users.environment, currentEnv)))
+      .returning({ id: users.id });
+    return !!deleted;
+  }
+
+  // Only the token's hash is stored; a new request replaces any earlier token
+  async setPasswordResetToken(id: string, tokenHash: string, expires: Date): Promise<void> {
+    const currentEnv = getEnvironment();
+    await db
+      .update(users)
+      .set({ passwordResetToken: tokenHash, passwordResetExpires: expires })
+      .where(and(eq(users.id, id), eq(users.environment, currentEnv)));
+  }
+
+  // Sets the password and clears the token in one statement, so a token works once.
+  // Returns undefined when no unexpired token matches.
+  async resetPasswordWithToken(tokenHash: string, hashedPassword: string): Promise<User | undefined> {
+    const currentEnv = getEnvironment();
+    const [user] = await db
+      .update(users)
+      .set({ password: hashedPassword, passwordResetToken: null, passwordResetExpires: null, updatedAt: new Date() })
+      .where(and(
+        eq(users.passwordResetToken, tokenHash),
+        gt(users.passwordResetExpires, new Date()),
+        eq(users.environment, currentEnv),
+      ))
+      .returning();
+    return user || undefined;
+  }
+
+  // As with reset tokens, only the hash is stored and a new link replaces the old one
+  async setEmailVerificationToken(id: string, tokenHash: string, expires: Date): Promise<void> {
+    const currentEnv = getEnvironment();
+    await db
+      .update(users)
+      .set({ emailVerificationToken: tokenHash, emailVerificationExpires: expires })
+      .where(and(eq(users.id, id), eq(users.environment, currentEnv)));
+  }
+
+  // Returns undefined when no unexpired token matches
+  async verifyEmailWithToken(tokenHash: string): Promise<User | undefined> {
+    const currentEnv = getEnvironment();
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), emailVerificationToken: null, emailVerificationExpires: null, updatedAt: new Date() })
+      .where(and(
+        eq(users.emailVerificationToken, tokenHash),
+        gt(users.emailVerificationExpires, new Date()),
+        eq(users.environment, currentEnv),
+      ))
+      .returning();
+    return user || undefined;
+  }
+
+  // Two-factor sign-in. A new secret waits in totpPendingSecret until the user proves their
+  // authenticator app has it, so abandoning enrollment never locks anyone out.
+  async setPendingTotpSecret(id: string, secret: string): Promise<void> {
+    const currentEnv = getEnvironment();
+    await db
+      .update(users)
+      .set({ totpPendingSecret: secret })
+      .where(and(eq(users.id, id), eq(users.environment, currentEnv)));
+  }
+
+  // Returns undefined if the pending secret changed in the meantime (enrollment restarted elsewhere)
+  async enableTotp(id: string, secret: string, step: number, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    const currentEnv = getEnvironment();
+    const [user] = await db
+      .update(users)
+      .set({
+        totpSecret: secret,
+        totpPendingSecret: null,
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodeHashes,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.id, id), eq(users.totpPendingSecret, secret), eq(users.environment, currentEnv)))
+      .returning();
+    return user || undefined;
+  }
+
+  async disableTotp(id: string): Promise<void> {
+    const currentEnv = getEnvironment();
+    await db
+      .update(users)
+      .set({
+        totpSecret: null,
+        totpPendingSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.id, id), eq(users.environment, currentEnv)));
+  }
+
+  async setTotpRecoveryCodes(id: string, recoveryCodeHashes: string[]): Promise<void> {
+    const currentEnv = getEnvironment();
+    await db
+      .update(users)
+      .set({ totpRecoveryCodes: recoveryCodeHashes })
+      .where(and(eq(users.id, id), eq(users.environment, currentEnv)));
+  }
+
+  // Records the step of an accepted code; false if that step (or a later one) was already used,
+  // which stops a code that was seen over someone's shoulder from being replayed
+  async useTotpStep(id: string, step: number): Promise<boolean> {
+    const currentEnv = getEnvironment();
+    const [user] = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, id),
+        eq(users.environment, currentEnv),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step)),
+      ))
+      .returning({ id: users.id });
+    return !!user;
+  }
+
+  // Removes the code in the same statement that checks it, so each works once
+  async useTotpRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const currentEnv = getEnvironment();
+    const [user] = await db
+      .update(users)
+      .set({ totpRecoveryCodes: sql`${users.totpRecoveryCodes} - ${codeHash}::text` })
+      .where(and(
+        eq(users.id, id),
+        eq(users.environment, currentEnv),
+        sql`${users.totpRecoveryCodes} ? ${codeHash}`,
+      ))
+      .returning({ id: users.id });
+    return !!user;
+  }
+
+  // Session ids are unique across environments, so these don't filter on environment
+  async listUserSessions(userId: string): Promise<StoredSession[]> {
+    const { rows } = await db.execute(sql`
+      select ${sessionIdHash} as id, sess->'device' as device, expire
+      from session
+      where ${sessionUserId} = ${userId} and expire > now()
+    `);
+    return rows.map((row: { id: string; device: SessionDevice | null; expire: Date | string }) => ({
+      id: row.id,
+      device: row.device,
+      expiresAt: new Date(row.expire),
+    }));
+  }
+
+  async deleteUserSession(userId: string, id: string): Promise<boolean> {
+    const { rows } = await db.execute(sql`
+      delete from session where ${sessionUserId} = ${userId} and ${sessionIdHash} = ${id} returning sid
+    `);
+    return rows.length > 0;
+  }
+
+  // Signs the user out everywhere except the given session (or everywhere, without one)
+  async deleteOtherUserSessions(userId: string, keepSessionId?: string): Promise<number> {
+    const { rows } = await db.execute(sql`
+      delete from session
+      where ${sessionUserId} = ${userId} ${keepSessionId ? sql`and sid <> ${keepSessionId}` : sql``}
+      returning sid
+    `);
+    return rows.length;
+  }
+
+  // Personal API tokens
+  async createApiToken(userId: string, token: { name: string; scope: ApiTokenScope; tokenHash: string; tokenPrefix: string; expiresAt: Date | null }): Promise<ApiTokenInfo> {
+    const currentEnv = getEnvironment();
+    const [created] = await db
+      .insert(apiTokens)
+      .values({ ...token, userId, environment: currentEnv })
+      .returning(apiTokenInfoColumns);
+    return created;
+  }
+
+  async listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+    const currentEnv = getEnvironment();
+    return await db
+      .select(apiTokenInfoColumns)
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), eq(apiTokens.environment, currentEnv)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    const currentEnv = getEnvironment();
+    const [deleted] = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), eq(apiTokens.environment, currentEnv)))
+      .returning({ id: apiTokens.id });
+    return !!deleted;
+  }
+
+  // Revokes all of the user's tokens, as setting a new password does
+  async deleteUserApiTokens(userId: string): Promise<number> {
+    const currentEnv = getEnvironment();
+    const deleted = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), eq(apiTokens.environment, currentEnv)))
+      .returning({ id: apiTokens.id });
+    return deleted.length;
+  }
+
+  // Expired tokens are not returned
+  async getApiTokenByHash(tokenHash: string): Promise<{ token: ApiToken; user: User } | undefined> {
+    const currentEnv = getEnvironment();
+    const [row] = await db
+      .select({ token: apiTokens, user: users })
+      .from(apiTokens)
+      .innerJoin(users, eq(apiTokens.userId, users.id))
+      .where(and(
+        eq(apiTokens.tokenHash, tokenHash),
+        eq(apiTokens.environment, currentEnv),
+        or(isNull(apiTokens.expiresAt), gt(apiTokens.expiresAt, new Date())),
+      ));
+    return row || undefined;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  // Records of stored photos and their variants
+  async createPhoto(userId: string, photo: NewPhoto): Promise<void> {
+    const currentEnv = getEnvironment();
+    await db.insert(photos).values({ ...photo, userId, environment: currentEnv });
+  }
+
+  async deletePhotos(urls: string[]): Promise<void> {
+    if (urls.length === 0) return;
+    const currentEnv = getEnvironment();
+    await db.delete(photos).where(and(inArray(photos.url, urls), eq(photos.environment, currentEnv)));
+  }
+
+  // The URLs among these of photos the user uploaded
+  async getOwnedPhotoUrls(userId: string, urls: string[]): Promise<string[]> {
+    if (urls.length === 0) return [];
+    const currentEnv = getEnvironment();
+    const rows: Array<{ url: string }> = await db
+      .select({ url: photos.url })
+      .from(photos)
+      .where(and(inArray(photos.url, urls), eq(photos.userId, userId), eq(photos.environment, currentEnv)));
+    return rows.map(row => row.url);
+  }
+
   // Recipe operations
   async getRecipes(userId?: string): Promise<Recipe[]> {
     const currentEnv = getEnvironment();
-    const query = userId 
-      ? db.select().from(recipes).where(and(eq(recipes.userId, userId), eq(recipes.environment, currentEnv)))
-      : db.select().from(recipes).where(and(isNull(recipes.userId), eq(recipes.environment, currentEnv))); // Only return static recipes (null user_id) for home page
-    
-    const allRecipes = await query;
-    
+    const ownerFilter = userId
+      ? eq(recipes.userId, userId)
+      : isNull(recipes.userId); // Only return static recipes (null user_id) for home page
+
     // Sort recipes by latest cooking activity, then by creation date
-    return allRecipes.sort((a: Recipe, b: Recipe) => {
-      const aLatestLog = (a.cookingLog && a.cookingLog.length > 0)
-        ? new Date(a.cookingLog[0].timestamp).getTime()  // Index 0 is newest (entries added at beginning)
-        : new Date(a.createdAt!).getTime();
+    const allRecipes: Recipe[] = await db
+      .select()
+      .from(recipes)
+      .where(and(ownerFilter, eq(recipes.environment, currentEnv)))
+      .orderBy(desc(lastActivityAt), desc(recipes.id));
 
-      const bLatestLog = (b.cookingLog && b.cookingLog.length > 0)
-        ? new Date(b.cookingLog[0].timestamp).getTime()  // Index 0 is newest (entries added at beginning)
-        : new Date(b.createdAt!).getTime();
+    return withCookingLogs(allRecipes);
+  }
 
-      return bLatestLog - aLatestLog;
-    });
+  // One page of a listing, filtered and ordered in SQL. Returns undefined when the
+  // cursor wasn't issued for this sort order.
+  async listRecipes(userId: string | undefined, query: RecipeListQuery): Promise<RecipePage | undefined> {
+    const { key, direction, type } = recipeSortKeys[query.sort];
+    const order = direction === "desc" ? desc : asc;
+
+    const conditions = collectionFilters(userId, query);
+    if (query.q) {
+      const pattern = `%${escapeLikePattern(query.q)}%`;
+      conditions.push(or(
+        ilike(recipes.name, pattern),
+        ilike(recipes.heroIngredient, pattern),
+        ilike(recipes.ingredients, pattern),
+      ));
+    }
+    if (query.cursor) {
+      const after = decodeRecipeCursor(query.cursor, query.sort);
+      if (!after) return undefined;
+      const comparison = sql.raw(direction === "desc" ? "<" : ">");
+      conditions.push(sql`(${key}, ${recipes.id}) ${comparison} (cast(${after.key} as ${sql.raw(type)}), ${after.id})`);
+    }
+
+    // One extra row tells us whether another page follows
+    const rows: (Recipe & { sortKey: string })[] = await db
+      .select({ ...getTableColumns(recipes), sortKey: sql<string>`cast(${key} as text)` })
+      .from(recipes)
+      .where(and(...conditions))
+      .orderBy(order(key), order(recipes.id))
+      .limit(query.limit + 1);
+
+    const hasMore = rows.length > query.limit;
+    const pageRows = rows.slice(0, query.limit);
+    const last = pageRows[pageRows.length - 1];
+    const page = await withCookingLogs(pageRows.map(({ sortKey, ...recipe }) => recipe));
+
+    return {
+      recipes: page,
+      nextCursor: hasMore && last ? encodeRecipeCursor(query.sort, last.sortKey, last.id) : null,
+    };
+  }
+
+  // Ranked full-text search over a collection. Words are stemmed, so "tomato" finds "tomatoes".
+  async searchRecipes(userId: string | undefined, query: RecipeSearchQuery): Promise<RecipeSearchResult[]> {
+    const currentEnv = getEnvironment();
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.q})`;
+    const recipeVector = recipeSearchVector(recipes);
+    const sessionsOfRecipe = and(eq(cookingSessions.recipeId, recipes.id), eq(cookingSessions.environment, currentEnv));
+    const allNotes = sql`(select string_agg(${cookingSessions.notes}, ' ') from ${cookingSessions} where ${sessionsOfRecipe})`;
+
+    const rank = sql<number>`ts_rank(${recipeVector} || coalesce(${cookingNotesSearchVector(allNotes)}, ''::tsvector), ${tsQuery})`;
+    const headline = sql<string>`ts_headline('english', concat_ws(' ', ${recipes.ingredients}, ${recipes.instructions}, ${allNotes}), ${tsQuery}, ${HEADLINE_OPTIONS})`;
+    // Each side can use its own GIN index
+    const matches = or(
+      sql`${recipeVector} @@ ${tsQuery}`,
+      sql`exists (select 1 from ${cookingSessions} where ${sessionsOfRecipe} and ${cookingNotesSearchVector(cookingSessions.notes)} @@ ${tsQuery})`,
+    );
+
+    const rows: (Recipe & { rank: number; headline: string })[] = await db
+      .select({ ...getTableColumns(recipes), rank, headline })
+      .from(recipes)
+      .where(and(...collectionFilters(userId, query), matches))
+      .orderBy(desc(rank), desc(recipes.id))
+      .limit(query.limit);
+
+    const withLogs = await withCookingLogs(rows.map(({ rank, headline, ...recipe }) => recipe));
+    return rows.map((row, index) => ({
+      recipe: withLogs[index],
+      rank: row.rank,
+      snippet: toSnippet(row.headline),
+    }));
   }
 
   async getRecipe(id: string): Promise<Recipe | undefined> {
     const currentEnv = getEnvironment();
     const [recipe] = await db.select().from(recipes).where(and(eq(recipes.id, id), eq(recipes.environment, currentEnv)));
-    return recipe || undefined;
+    if (!recipe) return undefined;
+    const [withLog] = await withCookingLogs([recipe]);
+    return withLog;
   }
 
   async createRecipe(insertRecipe: InsertRecipe, userId: string): Promise<Recipe> {
     const currentEnv = getEnvironment();
+    const ingredients = resolveIngredients(insertRecipe);
+    if (!ingredients) {
+      throw new Error('Recipe ingredients are required');
+    }
 
     // Retry logic for foreign key constraint violations (Neon serverless eventual consistency)
     // Increased to 15 attempts to handle extreme cases in serverless environment
@@ -129,6 +676,7 @@ export class DatabaseStorage implements IStorage {
           .insert(recipes)
           .values({
             ...insertRecipe,
+            ...ingredients,
             userId,
             rating: 0,
             cookingLog: [],
@@ -136,7 +684,8 @@ export class DatabaseStorage implements IStorage {
           })
           .returning();
 
-        return recipe;
+        const [withLog] = await withCookingLogs([recipe]);
+        return withLog;
       } catch (error: any) {
         // Only retry on foreign key constraint violations
         if (error?.code === '23503' && attempt < 14) {
@@ -157,10 +706,12 @@ export class DatabaseStorage implements IStorage {
     const currentEnv = getEnvironment();
     const [updatedRecipe] = await db
       .update(recipes)
-      .set(updates as any)
+      .set({ ...updates, ...resolveIngredients(updates) } as any)
       .where(and(eq(recipes.id, id), eq(recipes.userId, userId), eq(recipes.environment, currentEnv)))
       .returning();
-    return updatedRecipe || undefined;
+    if (!updatedRecipe) return undefined;
+    const [withLog] = await withCookingLogs([updatedRecipe]);
+    return withLog;
   }
 
   async deleteRecipe(id: string, userId: string): Promise<boolean> {
@@ -171,58 +722,80 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
-  async addCookingLog(id: string, logEntry: CookingLogEntry, userId: string): Promise<Recipe | undefined> {
+  async addCookingLog(id: string, logEntry: NewCookingLogEntry, userId: string): Promise<Recipe | undefined> {
     const recipe = await this.getRecipe(id);
     if (!recipe || recipe.userId !== userId) return undefined;
 
-    const currentLog = recipe.cookingLog || [];
-    const updatedLog = [logEntry, ...currentLog];
-
-    // Calculate new average rating from all cooking log entries
-    const totalRatings = updatedLog.reduce((sum, entry) => sum + entry.rating, 0);
-    const averageRating = Math.round(totalRatings / updatedLog.length);
-
     const currentEnv = getEnvironment();
-    const [updatedRecipe] = await db
-      .update(recipes)
-      .set({
-        cookingLog: updatedLog,
-        rating: averageRating
-      })
-      .where(and(eq(recipes.id, id), eq(recipes.userId, userId), eq(recipes.environment, currentEnv)))
-      .returning();
+    await db.transaction(async (tx: typeof db) => {
+      await lockRecipe(tx, id);
+      await moveLegacyCookingLog(tx, id); // So the rating below counts the legacy entries
+      await tx.insert(cookingSessions).values({
+        recipeId: id,
+        userId,
+        cookedAt: new Date(logEntry.timestamp),
+        notes: logEntry.notes,
+        rating: logEntry.rating,
+        photos: logEntry.photos ?? [],
+        environment: currentEnv,
+      });
+      await refreshRating(tx, id);
+    });
 
-    return updatedRecipe || undefined;
+    return this.getRecipe(id);
   }
 
-  async removeCookingLog(id: string, logIndex: number, userId: string): Promise<Recipe | undefined> {
-    const recipe = await this.getRecipe(id);
-    if (!recipe || recipe.userId !== userId || !recipe.cookingLog) return undefined;
-
-    const currentLog = [...recipe.cookingLog];
-    if (logIndex < 0 || logIndex >= currentLog.length) return undefined;
+  // Returns undefined when the recipe or the entry doesn't exist (e.g. removed in another tab)
+  async updateCookingLog(id: string, entryId: string, updates: UpdateCookingLogEntry, userId: string): Promise<Recipe | undefined> {
+    const currentEnv = getEnvironment();
+    const updated = await db.transaction(async (tx: typeof db) => {
+      await lockRecipe(tx, id);
+      await moveLegacyCookingLog(tx, id); // So the rating below counts the legacy entries
+      const sessions = await tx
+        .update(cookingSessions)
+        .set({
+          notes: updates.notes,
+          rating: updates.rating,
+          cookedAt: updates.timestamp ? new Date(updates.timestamp) : undefined,
+        })
+        .where(and(
+          eq(cookingSessions.id, entryId),
+          eq(cookingSessions.recipeId, id),
+          eq(cookingSessions.userId, userId),
+          eq(cookingSessions.environment, currentEnv),
+        ))
+        .returning();
+      if (sessions.length === 0) return false;
 
-    // Remove the log entry at the specified index
-    currentLog.splice(logIndex, 1);
+      await refreshRating(tx, id);
+      return true;
+    });
 
-    // Recalculate average rating from remaining entries
-    let averageRating = 0;
-    if (currentLog.length > 0) {
-      const totalRatings = currentLog.reduce((sum, entry) => sum + entry.rating, 0);
-      averageRating = Math.round(totalRatings / currentLog.length);
-    }
+    return updated ? this.getRecipe(id) : undefined;
+  }
 
+  // Returns undefined when the recipe or the entry doesn't exist (e.g. already removed in another tab)
+  async removeCookingLog(id: string, entryId: string, userId: string): Promise<Recipe | undefined> {
     const currentEnv = getEnvironment();
-    const [updatedRecipe] = await db
-      .update(recipes)
-      .set({
-        cookingLog: currentLog,
-        rating: averageRating
-      })
-      .where(and(eq(recipes.id, id), eq(recipes.userId, userId), eq(recipes.environment, currentEnv)))
-      .returning();
+    const removed = await db.transaction(async (tx: typeof db) => {
+      await lockRecipe(tx, id);
+      await moveLegacyCookingLog(tx, id); // So the rating below counts the legacy entries
+      const sessions = await tx
+        .delete(cookingSessions)
+        .where(and(
+          eq(cookingSessions.id, entryId),
+          eq(cookingSessions.recipeId, id),
+          eq(cookingSessions.userId, userId),
+          eq(cookingSessions.environment, currentEnv),
+        ))
+        .returning();
+      if (sessions.length === 0) return false;
+
+      await refreshRating(tx, id);
+      return true;
+    });
 
-    return updatedRecipe || undefined;
+    return removed ? this.getRecipe(id) : undefined;
   }
 }
 
@@ -0,0 +1,253 @@
+import type { Ingredient } from "./schema";
+
+// Canonical unit names mapped from the spellings people actually type.
+// Lookups are done on the lowercased word with any trailing period removed.
+const UNIT_ALIASES: Record<string, string> = {
+  tsp: "tsp", tsps: "tsp", teaspoon: "tsp", teaspoons: "tsp",
+  tbsp: "tbsp", tbsps: "tbsp", tbs: "tbsp", tbl: "tbsp", tablespoon: "tbsp", tablespoons: "tbsp",
+  cup: "cup", cups: "cup",
+  "fl oz": "fl oz", "fluid ounce": "fl oz", "fluid ounces": "fl oz",
+  ml: "ml", milliliter: "ml", milliliters: "ml", millilitre: "ml", millilitres: "ml",
+  l: "l", liter: "l", liters: "l", litre: "l", litres: "l",
+  pint: "pint", pints: "pint", pt: "pint",
+  quart: "quart", quarts: "quart", qt: "quart",
+  gallon: "gallon", gallons: "gallon", gal: "gallon",
+  mg: "mg", milligram: "mg", milligrams: "mg",
+  g: "g", gr: "g", gram: "g", grams: "g", gramme: "g", grammes: "g",
+  kg: "kg", kilogram: "kg", kilograms: "kg",
+  oz: "oz", ounce: "oz", ounces: "oz",
+  lb: "lb", lbs: "lb", pound: "lb", pounds: "lb",
+  pinch: "pinch", pinches: "pinch",
+  dash: "dash", dashes: "dash",
+  clove: "clove", cloves: "clove",
+  can: "can", cans: "can",
+  jar: "jar", jars: "jar",
+  package: "package", packages: "package", pkg: "package",
+  slice: "slice", slices: "slice",
+  piece: "piece", pieces: "piece",
+  bunch: "bunch", bunches: "bunch",
+  sprig: "sprig", sprigs: "sprig",
+  stick: "stick", sticks: "stick",
+  stalk: "stalk", stalks: "stalk",
+  head: "head", heads: "head",
+  handful: "handful", handfuls: "handful",
+};
+
+// Units written out in full get pluralised when rendering; abbreviations never do
+const PLURAL_UNITS: Record<string, string> = {
+  cup: "cups", pint: "pints", quart: "quarts", gallon: "gallons",
+  pinch: "pinches", dash: "dashes", clove: "cloves", can: "cans", jar: "jars",
+  package: "packages", slice: "slices", piece: "pieces", bunch: "bunches",
+  sprig: "sprigs", stick: "sticks", stalk: "stalks", head: "heads", handful: "handfuls",
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": "1/2", "⅓": "1/3", "⅔": "2/3", "¼": "1/4", "¾": "3/4",
+  "⅕": "1/5", "⅖": "2/5", "⅗": "3/5", "⅘": "4/5", "⅙": "1/6", "⅚": "5/6",
+  "⅛": "1/8", "⅜": "3/8", "⅝": "5/8", "⅞": "7/8",
+};
+
+// Fractions a cook would actually write, used when rendering quantities
+const COMMON_FRACTIONS: Array<[number, string]> = [
+  [1 / 8, "1/8"], [1 / 4, "1/4"], [1 / 3, "1/3"], [3 / 8, "3/8"], [1 / 2, "1/2"],
+  [5 / 8, "5/8"], [2 / 3, "2/3"], [3 / 4, "3/4"], [7 / 8, "7/8"],
+];
+
+const NUMBER_PATTERN = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d*\.\d+|\d+)`;
+const QUANTITY_REGEX = new RegExp(
+  String.raw`^(${NUMBER_PATTERN})(?:\s*(?:-|–|to)\s*(${NUMBER_PATTERN}))?(?=\s|[a-zA-Z]|$)\s*`,
+);
+
+function parseNumber(token: string): number {
+  const trimmed = token.trim();
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+  }
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+  }
+  return parseFloat(trimmed);
+}
+
+function replaceUnicodeFractions(line: string): string {
+  // "1½" becomes "1 1/2", a lone "½" becomes "1/2"
+  return line.replace(/(\d?)\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string, fraction: string) => {
+    const replacement = UNICODE_FRACTIONS[fraction];
+    return whole ? `${whole} ${replacement}` : replacement;
+  });
+}
+
+export function normalizeUnit(word: string): string | null {
+  const key = word.toLowerCase().replace(/\.$/, "").replace(/\.\s*/g, " ").trim();
+  return UNIT_ALIASES[key] ?? null;
+}
+
+function isGroupHeading(line: string): string | null {
+  const markdown = line.match(/^#+\s*(.+)$/);
+  if (markdown) return markdown[1].replace(/:$/, "").trim();
+  if (line.endsWith(":") && !QUANTITY_REGEX.test(line)) {
+    return line.slice(0, -1).trim();
+  }
+  return null;
+}
+
+/**
+ * Parse a single ingredient line such as "1 1/2 cups flour, sifted" into
+ * its quantity, unit, item and preparation note. Never throws: anything
+ * that can't be understood ends up in `item` unchanged.
+ */
+export function parseIngredientLine(rawLine: string, group: string | null = null): Ingredient {
+  let rest = replaceUnicodeFractions(rawLine.trim());
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  let unit: string | null = null;
+
+  const quantityMatch = rest.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    quantity = parseNumber(quantityMatch[1]);
+    quantityMax = quantityMatch[2] ? parseNumber(quantityMatch[2]) : null;
+    rest = rest.slice(quantityMatch[0].length);
+
+    // Two-word units first ("fl oz", "fluid ounces"), then single words ("cups", "g")
+    const twoWords = rest.match(/^([a-zA-Z.]+\s+[a-zA-Z.]+)(?=\s|$)/);
+    const oneWord = rest.match(/^([a-zA-Z.]+)(?=\s|$)/);
+    if (twoWords && normalizeUnit(twoWords[1])) {
+      unit = normalizeUnit(twoWords[1]);
+      rest = rest.slice(twoWords[0].length);
+    } else if (oneWord && normalizeUnit(oneWord[1])) {
+      unit = normalizeUnit(oneWord[1]);
+      rest = rest.slice(oneWord[0].length);
+    }
+    rest = rest.trim().replace(/^of\s+/i, "");
+  }
+
+  const notes: string[] = [];
+  const parenthetical = rest.match(/\(([^)]*)\)/);
+  if (parenthetical) {
+    if (parenthetical[1].trim()) notes.push(parenthetical[1].trim());
+    rest = (rest.slice(0, parenthetical.index) + rest.slice(parenthetical.index! + parenthetical[0].length))
+      .replace(/\s{2,}/g, " ");
+  }
+
+  const commaIndex = rest.indexOf(",");
+  if (commaIndex > 0) {
+    notes.push(rest.slice(commaIndex + 1).trim());
+    rest = rest.slice(0, commaIndex);
+  }
+
+  const item = rest.trim() || rawLine.trim();
+
+  return {
+    quantity,
+    quantityMax: quantityMax !== null && quantity !== null && quantityMax > quantity ? quantityMax : null,
+    unit,
+    item,
+    note: notes.filter(Boolean).join(", ") || null,
+    group,
+  };
+}
+
+/**
+ * Parse the free-text ingredients blob that recipes have always stored
+ * (one ingredient per line, optional "For the sauce:" style headings) into
+ * a structured list. Legacy single-line entries like "Chicken, Salt, Pepper"
+ * are treated as a comma-separated list of items.
+ */
+export function parseIngredients(text: string): Ingredient[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/^(?:[-*•]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean);
+
+  if (lines.length === 1 && lines[0].includes(",") && !QUANTITY_REGEX.test(replaceUnicodeFractions(lines[0]))) {
+    return lines[0]
+      .split(",")
+      .map(part => part.trim())
+      .filter(Boolean)
+      .map(part => parseIngredientLine(part));
+  }
+
+  const ingredients: Ingredient[] = [];
+  let group: string | null = null;
+  for (const line of lines) {
+    const heading = isGroupHeading(line);
+    if (heading !== null) {
+      group = heading || null;
+      continue;
+    }
+    ingredients.push(parseIngredientLine(line, group));
+  }
+  return ingredients;
+}
+
+/**
+ * Render a quantity the way it would be written in a recipe: whole numbers
+ * as-is, common fractions as "1 1/2", anything else to two decimal places.
+ */
+export function formatQuantity(value: number): string {
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  if (remainder < 0.01) return String(whole);
+  if (remainder > 0.99) return String(whole + 1);
+
+  for (const [fractionValue, label] of COMMON_FRACTIONS) {
+    if (Math.abs(remainder - fractionValue) < 0.01) {
+      return whole > 0 ? `${whole} ${label}` : label;
+    }
+  }
+  return String(Math.round(value * 100) / 100);
+}
+
+export function formatUnit(unit: string, quantity: number | null): string {
+  if (quantity !== null && quantity > 1 && PLURAL_UNITS[unit]) {
+    return PLURAL_UNITS[unit];
+  }
+  return unit;
+}
+
+export function formatIngredient(ingredient: Ingredient): string {
+  const parts: string[] = [];
+  if (ingredient.quantity !== null) {
+    parts.push(ingredient.quantityMax
+      ? `${formatQuantity(ingredient.quantity)}-${formatQuantity(ingredient.quantityMax)}`
+      : formatQuantity(ingredient.quantity));
+  }
+  if (ingredient.unit) {
+    parts.push(formatUnit(ingredient.unit, ingredient.quantityMax ?? ingredient.quantity));
+  }
+  parts.push(ingredient.item);
+
+  const line = parts.join(" ");
+  return ingredient.note ? `${line}, ${ingredient.note}` : line;
+}
+
+export interface IngredientGroup {
+  group: string | null;
+  ingredients: Ingredient[];
+}
+
+// Consecutive ingredients sharing a heading are kept together in their original order
+export function groupIngredients(ingredients: Ingredient[]): IngredientGroup[] {
+  const groups: IngredientGroup[] = [];
+  for (const ingredient of ingredients) {
+    const last = groups[groups.length - 1];
+    if (last && last.group === ingredient.group) {
+      last.ingredients.push(ingredient);
+    } else {
+      groups.push({ group: ingredient.group, ingredients: [ingredient] });
+    }
+  }
+  return groups;
+}
+
+// Inverse of parseIngredients: one line per ingredient with "Heading:" lines between groups
+export function formatIngredients(ingredients: Ingredient[]): string {
+  return groupIngredients(ingredients)
+    .map(({ group, ingredients: items }) => {
+      const lines = items.map(formatIngredient);
+      return group ? [`${group}:`, ...lines].join("\n") : lines.join("\n");
+    })
+    .join("\n\n");
+}
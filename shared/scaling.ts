@@ -0,0 +1,75 @@
+import type { Ingredient, Recipe } from "./schema";
+import { parseIngredients, formatIngredients } from "./ingredients";
+
+// Units that are counted rather than measured: 2.6 cloves of garlic is 3 cloves
+const COUNTABLE_UNITS = new Set([
+  "clove", "can", "jar", "package", "slice", "piece", "bunch", "sprig",
+  "stick", "stalk", "head", "handful", "pinch", "dash",
+]);
+
+// Metric units are rounded to whole numbers rather than fractions
+const WHOLE_METRIC_UNITS = new Set(["g", "ml", "mg"]);
+const LARGE_METRIC_UNITS = new Set(["kg", "l"]);
+
+export type ScaledRecipe = Recipe & { originalServings: number };
+
+/**
+ * Round a scaled quantity to something a cook can measure: whole items for
+ * countable things (eggs, cloves), whole grams/millilitres, and the nearest
+ * eighth or third for cups, spoons, ounces and pounds (quarters above 4).
+ */
+export function roundQuantity(value: number, unit: string | null): number {
+  if (unit === null || COUNTABLE_UNITS.has(unit)) {
+    return Math.max(1, Math.round(value));
+  }
+  if (WHOLE_METRIC_UNITS.has(unit)) {
+    return value >= 1 ? Math.round(value) : Math.round(value * 10) / 10;
+  }
+  if (LARGE_METRIC_UNITS.has(unit)) {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Nobody measures 7 7/8 oz; larger amounts only need quarter precision
+  if (value >= 4) {
+    return Math.round(value * 4) / 4;
+  }
+
+  const eighths = Math.round(value * 8) / 8;
+  const thirds = Math.round(value * 3) / 3;
+  const nearest = Math.abs(value - thirds) < Math.abs(value - eighths) ? thirds : eighths;
+  return nearest > 0 ? nearest : 1 / 8;
+}
+
+export function scaleIngredients(ingredients: Ingredient[], factor: number): Ingredient[] {
+  if (factor === 1) return ingredients;
+  return ingredients.map(ingredient => {
+    if (ingredient.quantity === null) return ingredient;
+    const quantity = roundQuantity(ingredient.quantity * factor, ingredient.unit);
+    const quantityMax = ingredient.quantityMax !== null
+      ? roundQuantity(ingredient.quantityMax * factor, ingredient.unit)
+      : null;
+    return {
+      ...ingredient,
+      quantity,
+      // A range can collapse after rounding ("1-2 eggs" halved is just "1 egg")
+      quantityMax: quantityMax !== null && quantityMax > quantity ? quantityMax : null,
+    };
+  });
+}
+
+// Rescale a recipe's ingredients from its stored servings to the requested number
+export function scaleRecipe(recipe: Recipe, servings: number): ScaledRecipe {
+  const ingredientList = recipe.ingredientList ?? parseIngredients(recipe.ingredients);
+  if (servings === recipe.servings) {
+    return { ...recipe, ingredientList, originalServings: recipe.servings };
+  }
+
+  const scaled = scaleIngredients(ingredientList, servings / recipe.servings);
+  return {
+    ...recipe,
+    servings,
+    ingredientList: scaled,
+    ingredients: formatIngredients(scaled),
+    originalServings: recipe.servings,
+  };
+}
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, integer, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -13,10 +13,41 @@ export const users = pgTable("users", {
   bio: text("bio"),
   passwordResetToken: text("password_reset_token"),
   passwordResetExpires: timestamp("password_reset_expires"),
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the emailed link is followed
+  emailVerificationToken: text("email_verification_token"),
+  emailVerificationExpires: timestamp("email_verification_expires"),
+  totpSecret: text("totp_secret"), // Base32; set once two-factor sign-in is enabled
+  totpPendingSecret: text("totp_pending_secret"), // Awaiting a first code from the authenticator app
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Each code is accepted once
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(), // SHA-256 hashes of unused codes
+  measurementSystem: varchar("measurement_system", { length: 20 }).notNull().default('original'),
   environment: varchar("environment", { length: 20 }).notNull().default('development'),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Usernames and emails are unique regardless of case, as sign-in and registration look them up
+  uniqueIndex("users_username_lower_idx").on(sql`lower(${table.username})`),
+  uniqueIndex("users_email_lower_idx").on(sql`lower(${table.email})`),
+]);
+
+// Full-text search document for a recipe: name and hero ingredient rank highest, then
+// ingredients, then instructions. Queries must use this same expression for the GIN index to apply.
+export function recipeSearchVector(columns: {
+  name: AnyPgColumn; heroIngredient: AnyPgColumn; ingredients: AnyPgColumn; instructions: AnyPgColumn;
+}): SQL {
+  return sql`(
+    setweight(to_tsvector('english', ${columns.name}), 'A') ||
+    setweight(to_tsvector('english', ${columns.heroIngredient}), 'A') ||
+    setweight(to_tsvector('english', ${columns.ingredients}), 'B') ||
+    setweight(to_tsvector('english', ${columns.instructions}), 'C')
+  )`;
+}
+
+// Cooking notes are searched too, at the lowest weight
+export function cookingNotesSearchVector(notes: AnyPgColumn | SQL): SQL {
+  return sql`setweight(to_tsvector('english', ${notes}), 'D')`;
+}
 
 export const recipes = pgTable("recipes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -26,36 +57,188 @@ export const recipes = pgTable("recipes", {
   cookTime: integer("cook_time").notNull(),
   servings: integer("servings").notNull(),
   ingredients: text("ingredients").notNull(),
+  ingredientList: jsonb("ingredient_list").$type<Ingredient[]>(),
   instructions: text("instructions").notNull(),
   rating: integer("rating").default(0),
   photo: text("photo"),
+  // Legacy: superseded by cooking_sessions. Kept until every environment has run
+  // `npm run db:migrate-data`; API responses build cookingLog from cooking_sessions.
   cookingLog: jsonb("cooking_log").$type<CookingLogEntry[]>().default([]),
   environment: varchar("environment", { length: 20 }).notNull().default('development'),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("recipes_search_idx").using("gin", recipeSearchVector(table)),
+]);
+
+export const cookingSessions = pgTable("cooking_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recipeId: varchar("recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // Mirrors recipes.user_id
+  cookedAt: timestamp("cooked_at").notNull(),
+  notes: text("notes").notNull(),
+  rating: integer("rating").notNull(),
+  photos: jsonb("photos").$type<string[]>().notNull().default([]),
+  environment: varchar("environment", { length: 20 }).notNull().default('development'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("cooking_sessions_recipe_cooked_at_idx").on(table.recipeId, table.cookedAt),
+  index("cooking_sessions_user_cooked_at_idx").on(table.userId, table.cookedAt),
+  index("cooking_sessions_notes_search_idx").using("gin", cookingNotesSearchVector(table.notes)),
+]);
+
+// Personal access tokens for scripts, sent as `Authorization: Bearer <token>`.
+// Only a SHA-256 hash is stored; the token itself is shown once, when it is created.
+export const apiTokenScopes = ["read", "write"] as const; // write includes read
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: varchar("token_prefix", { length: 20 }).notNull(), // Start of the token, to tell them apart
+  scope: varchar("scope", { length: 10 }).notNull().default('read'),
+  expiresAt: timestamp("expires_at"), // Null for tokens that never expire
+  lastUsedAt: timestamp("last_used_at"),
+  environment: varchar("environment", { length: 20 }).notNull().default('development'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("api_tokens_user_id_idx").on(table.userId),
+]);
+
+// Resized copies of an uploaded photo, written when it is stored. Recipes and cooking sessions
+// keep referring to photos by URL; this records the variants behind each one for srcset.
+export const photoSizes = { thumbnail: 320, card: 800, full: 1600 } as const; // Longest side, in pixels
+export const photoFormats = ["avif", "webp", "jpeg"] as const;
+
+export const photos = pgTable("photos", {
+  url: text("url").primaryKey(), // The full-size JPEG, as stored in recipes.photo and cooking_sessions.photos
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  variants: jsonb("variants").$type<PhotoVariant[]>().notNull(),
+  environment: varchar("environment", { length: 20 }).notNull().default('development'),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("photos_user_id_idx").on(table.userId),
+]);
 
 export const usersRelations = relations(users, ({ many }) => ({
   recipes: many(recipes),
+  cookingSessions: many(cookingSessions),
+  apiTokens: many(apiTokens),
+  photos: many(photos),
 }));
 
-export const recipesRelations = relations(recipes, ({ one }) => ({
+export const recipesRelations = relations(recipes, ({ one, many }) => ({
   user: one(users, {
     fields: [recipes.userId],
     references: [users.id],
   }),
+  cookingSessions: many(cookingSessions),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
 }));
 
+export const photosRelations = relations(photos, ({ one }) => ({
+  user: one(users, {
+    fields: [photos.userId],
+    references: [users.id],
+  }),
+}));
+
+export const cookingSessionsRelations = relations(cookingSessions, ({ one }) => ({
+  recipe: one(recipes, {
+    fields: [cookingSessions.recipeId],
+    references: [recipes.id],
+  }),
+  user: one(users, {
+    fields: [cookingSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+// API shape of a cooking_sessions row, as returned in recipe.cookingLog (newest first)
 export interface CookingLogEntry {
+  id: string; // Server-generated; entries are addressed by id, never by position
   timestamp: string; // ISO timestamp for precise sorting
   notes: string;
   rating: number;
+  photos?: string[]; // Photos of this attempt, in upload order
 }
 
+export type NewCookingLogEntry = Omit<CookingLogEntry, "id">;
+
+export interface PhotoVariant {
+  size: PhotoSize;
+  format: PhotoFormat;
+  width: number;
+  height: number;
+  url: string;
+}
+
+// A search snippet is plain text split into runs, so clients can highlight matches without rendering HTML
+export interface SearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface RecipeSearchResult {
+  recipe: Recipe;
+  rank: number;
+  snippet: SearchSnippetSegment[]; // Best-matching passages from ingredients, instructions and cooking notes
+}
+
+// POST /api/login answers with this instead of the user when a second factor is needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+// Enrollment details shown once in settings; qrCode is a PNG data URL of otpauthUrl
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// A signed-in browser or device, as listed in settings. `id` is a hash of the session id,
+// so the list never shows anything that could be replayed as a cookie.
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null; // Null for sessions started before sign-ins were recorded
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+export const ingredientSchema = z.object({
+  quantity: z.number().positive().nullable().default(null),
+  quantityMax: z.number().positive().nullable().default(null), // Upper bound for ranges like "2-3 cloves"
+  unit: z.string().trim().min(1).max(30).nullable().default(null),
+  item: z.string().trim().min(1, "Ingredient item is required").max(200),
+  note: z.string().trim().max(200).nullable().default(null), // Preparation, e.g. "finely chopped"
+  group: z.string().trim().max(100).nullable().default(null), // Heading, e.g. "For the sauce"
+}).refine(data => data.quantityMax === null || (data.quantity !== null && data.quantityMax > data.quantity), {
+  message: "quantityMax must be greater than quantity",
+  path: ["quantityMax"],
+});
+
+export type Ingredient = z.infer<typeof ingredientSchema>;
+
 export const heroIngredientOptions = [
   "Chicken", "Beef", "Pork", "Fish", "Seafood", 
   "Pasta", "Vegetable", "Pastry", "Dessert"
 ] as const;
 
+// "original" shows recipes as written; the others convert units and oven temperatures
+export const measurementSystemOptions = ["original", "metric", "imperial"] as const;
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   bio: true,
@@ -63,25 +246,125 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
   passwordResetToken: true,
   passwordResetExpires: true,
+  emailVerifiedAt: true,
+  emailVerificationToken: true,
+  emailVerificationExpires: true,
+  totpSecret: true,
+  totpPendingSecret: true,
+  totpEnabledAt: true,
+  totpLastUsedStep: true,
+  totpRecoveryCodes: true,
 }).extend({
   username: z.string().min(3).max(50).regex(/^[a-zA-Z0-9_-]+$/, "Username can only contain letters, numbers, underscores, and hyphens"),
-  email: z.string().email(),
+  email: z.string().trim().toLowerCase().email(),
   password: z.string().min(8, "Password must be at least 8 characters"),
   displayName: z.string().optional(),
 });
 
-export const insertRecipeSchema = createInsertSchema(recipes).omit({
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required").max(200),
+});
+
+// A code from the authenticator app, or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(20),
+});
+
+// Turning two-factor sign-in off or replacing recovery codes needs the current password
+export const confirmPasswordSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(100),
+  scope: z.enum(apiTokenScopes),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90), // null: never expires
+});
+
+// The token comes from the emailed link; the same password rules as registration apply
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required").max(200),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+const recipeFieldsSchema = createInsertSchema(recipes).omit({
   id: true,
   userId: true,
   createdAt: true,
   rating: true,
+  cookingLog: true, // Written through the cooking log endpoints only
 }).extend({
   cookTime: z.number().min(1).max(1440),
   servings: z.number().min(1).max(50),
   heroIngredient: z.enum(heroIngredientOptions),
+  // Either the free-text list (parsed server-side) or the structured list may be supplied
+  ingredients: z.string().optional(),
+  ingredientList: z.array(ingredientSchema).min(1).max(200).optional(),
+});
+
+export const insertRecipeSchema = recipeFieldsSchema.refine(
+  data => data.ingredients !== undefined || data.ingredientList !== undefined,
+  { message: "Ingredients are required", path: ["ingredients"] },
+);
+
+export const updateRecipeSchema = recipeFieldsSchema.partial();
+
+// Corrections to a logged session; the entry's id is never changed
+export const updateCookingLogSchema = z.object({
+  timestamp: z.string().datetime({ offset: true }).optional(),
+  notes: z.string().max(2000).optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+}).refine(
+  data => data.timestamp !== undefined || data.notes !== undefined || data.rating !== undefined,
+  { message: "Provide a timestamp, notes or rating to update" },
+);
+
+// "recent" orders by latest cooking session, falling back to when the recipe was added
+export const recipeSortOptions = ["recent", "newest", "rating", "quickest", "name"] as const;
+
+// Query string for recipe listings; numbers arrive as strings and are coerced
+export const recipeListQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  heroIngredient: z.enum(heroIngredientOptions).optional(),
+  minRating: z.coerce.number().int().min(1).max(5).optional(),
+  maxCookTime: z.coerce.number().int().min(1).max(1440).optional(),
+  sort: z.enum(recipeSortOptions).default("recent"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().max(500).optional(),
+});
+
+// Full-text search. q uses web search syntax: "quoted phrases", OR, and -excluded words
+export const recipeSearchQuerySchema = recipeListQuerySchema.pick({
+  heroIngredient: true,
+  minRating: true,
+  maxCookTime: true,
+}).extend({
+  q: z.string().trim().min(1, "Search terms are required").max(200),
+  username: z.string().max(50).optional(), // Search this user's collection instead of public recipes
+  limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
-export type Recipe = typeof recipes.$inferSelect;
+export type UpdateRecipe = z.infer<typeof updateRecipeSchema>;
+export type UpdateCookingLogEntry = z.infer<typeof updateCookingLogSchema>;
+export type Recipe = typeof recipes.$inferSelect & {
+  photoVariants?: Record<string, PhotoVariant[]>; // Resized copies of the cover and session photos, by URL
+};
+export type CookingSession = typeof cookingSessions.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type ApiTokenInfo = Omit<ApiToken, "tokenHash" | "userId" | "environment">; // As listed in settings
+export type Photo = typeof photos.$inferSelect;
+export type NewPhoto = Pick<Photo, "url" | "width" | "height" | "variants">;
+export type PhotoSize = keyof typeof photoSizes;
+export type PhotoFormat = typeof photoFormats[number];
+export type RecipeSort = typeof recipeSortOptions[number];
+export type RecipeListQuery = z.infer<typeof recipeListQuerySchema>;
+export type RecipeSearchQuery = z.infer<typeof recipeSearchQuerySchema>;
@@ -0,0 +1,185 @@
+import type { Ingredient, Recipe } from "./schema";
+import { formatIngredients, parseIngredients } from "./ingredients";
+import { roundQuantity } from "./scaling";
+
+export type MeasurementSystem = "metric" | "imperial";
+
+// Millilitres per unit (US customary measures)
+const VOLUME_ML: Record<string, number> = {
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  "fl oz": 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+  ml: 1,
+  l: 1000,
+};
+
+// Grams per unit
+const WEIGHT_G: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const METRIC_UNITS = new Set(["ml", "l", "mg", "g", "kg"]);
+const IMPERIAL_UNITS = new Set(["fl oz", "cup", "pint", "quart", "gallon", "oz", "lb"]);
+
+// Grams per US cup for ingredients that are weighed in metric recipes but
+// measured by volume in American ones
+const DENSITY_G_PER_CUP: Array<[string, number]> = [
+  ["almond flour", 96],
+  ["bread flour", 127],
+  ["whole wheat flour", 120],
+  ["flour", 120],
+  ["brown sugar", 213],
+  ["powdered sugar", 120],
+  ["icing sugar", 120],
+  ["caster sugar", 200],
+  ["sugar", 200],
+  ["butter", 227],
+  ["cocoa", 85],
+  ["cornstarch", 128],
+  ["cornflour", 128],
+  ["oats", 90],
+  ["rice", 185],
+  ["honey", 340],
+  ["salt", 292],
+];
+
+// Ingredients named after one of the above without being it
+const NOT_DENSITY_KEYWORDS = ["sugar snap", "rice vinegar", "rice wine", "rice paper", "rice noodles", "butter beans", "butter lettuce"];
+
+// Keywords match whole words, longest first, so "brown sugar" wins over "sugar" and
+// "buttermilk" is not butter
+const densityPatterns = [...DENSITY_G_PER_CUP]
+  .sort(([a], [b]) => b.length - a.length)
+  .map(([keyword, gramsPerCup]) => ({ pattern: new RegExp(`\\b${keyword}\\b`), gramsPerCup }));
+const notDensityPatterns = NOT_DENSITY_KEYWORDS.map(keyword => new RegExp(`\\b${keyword}\\b`));
+
+function densityFor(item: string): number | null {
+  const name = item.toLowerCase();
+  if (notDensityPatterns.some(pattern => pattern.test(name))) return null;
+  const match = densityPatterns.find(({ pattern }) => pattern.test(name));
+  return match ? match.gramsPerCup : null;
+}
+
+export function measurementSystemOf(unit: string | null): MeasurementSystem | null {
+  if (unit === null) return null;
+  if (METRIC_UNITS.has(unit)) return "metric";
+  if (IMPERIAL_UNITS.has(unit)) return "imperial";
+  return null; // Spoons, pinches and countable units are shared by both systems
+}
+
+function toImperialVolume(ml: number): { quantity: number; unit: string } {
+  if (ml < VOLUME_ML.tbsp) return { quantity: ml / VOLUME_ML.tsp, unit: "tsp" };
+  if (ml < VOLUME_ML.cup / 4) return { quantity: ml / VOLUME_ML.tbsp, unit: "tbsp" };
+  return { quantity: ml / VOLUME_ML.cup, unit: "cup" };
+}
+
+function toImperialWeight(grams: number): { quantity: number; unit: string } {
+  if (grams < WEIGHT_G.lb) return { quantity: grams / WEIGHT_G.oz, unit: "oz" };
+  return { quantity: grams / WEIGHT_G.lb, unit: "lb" };
+}
+
+function toMetricVolume(ml: number): { quantity: number; unit: string } {
+  return ml >= 1000 ? { quantity: ml / 1000, unit: "l" } : { quantity: ml, unit: "ml" };
+}
+
+function toMetricWeight(grams: number): { quantity: number; unit: string } {
+  return grams >= 1000 ? { quantity: grams / 1000, unit: "kg" } : { quantity: grams, unit: "g" };
+}
+
+/**
+ * Convert an ingredient into the target measurement system. Dry goods with a
+ * known density (flour, sugar, butter...) switch between grams and cups;
+ * everything else converts weight to weight and volume to volume.
+ * Teaspoons, tablespoons and countable units are left as written.
+ */
+export function convertIngredient(ingredient: Ingredient, system: MeasurementSystem): Ingredient {
+  const { quantity, unit } = ingredient;
+  if (quantity === null || unit === null) return ingredient;
+
+  const current = measurementSystemOf(unit);
+  if (current === null || current === system) return ingredient;
+
+  const density = densityFor(ingredient.item);
+  let convert: (value: number) => { quantity: number; unit: string };
+
+  if (unit in VOLUME_ML) {
+    const ml = (value: number) => value * VOLUME_ML[unit];
+    if (system === "metric" && density !== null) {
+      convert = value => toMetricWeight(ml(value) / VOLUME_ML.cup * density);
+    } else {
+      convert = value => system === "metric" ? toMetricVolume(ml(value)) : toImperialVolume(ml(value));
+    }
+  } else {
+    const grams = (value: number) => value * WEIGHT_G[unit];
+    if (system === "imperial" && density !== null) {
+      convert = value => toImperialVolume(grams(value) / density * VOLUME_ML.cup);
+    } else {
+      convert = value => system === "metric" ? toMetricWeight(grams(value)) : toImperialWeight(grams(value));
+    }
+  }
+
+  const converted = convert(quantity);
+  const convertedMax = ingredient.quantityMax !== null ? convert(ingredient.quantityMax) : null;
+  const roundedQuantity = roundQuantity(converted.quantity, converted.unit);
+  // Keep a range only when both ends landed on the same unit
+  const roundedMax = convertedMax && convertedMax.unit === converted.unit
+    ? roundQuantity(convertedMax.quantity, converted.unit)
+    : null;
+
+  return {
+    ...ingredient,
+    quantity: roundedQuantity,
+    quantityMax: roundedMax !== null && roundedMax > roundedQuantity ? roundedMax : null,
+    unit: converted.unit,
+  };
+}
+
+export function convertIngredients(ingredients: Ingredient[], system: MeasurementSystem): Ingredient[] {
+  return ingredients.map(ingredient => convertIngredient(ingredient, system));
+}
+
+// Oven dials go up in 10°C or 25°F steps; smaller temperatures round to 5
+function roundTemperature(value: number, scale: "C" | "F"): number {
+  const step = scale === "C" ? (value >= 100 ? 10 : 5) : (value >= 200 ? 25 : 5);
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Rewrite temperatures such as "350°F", "180 °C" or "200 degrees C" found in
+ * free text (usually the instructions) into the target system.
+ */
+export function convertTemperatures(text: string, system: MeasurementSystem): string {
+  return text.replace(
+    /(?<!\d)(\d{2,3})\s*(?:°|º|degrees?\s*)\s*([CF])\b|(?<!\d)(\d{2,3})([CF])\b/g,
+    (match, spacedValue: string, spacedScale: string, compactValue: string, compactScale: string) => {
+      const value = parseInt(spacedValue ?? compactValue, 10);
+      const scale = (spacedScale ?? compactScale) as "C" | "F";
+      if (system === "metric" && scale === "F") {
+        return `${roundTemperature((value - 32) * 5 / 9, "C")}°C`;
+      }
+      if (system === "imperial" && scale === "C") {
+        return `${roundTemperature(value * 9 / 5 + 32, "F")}°F`;
+      }
+      return match;
+    },
+  );
+}
+
+// Render a recipe's ingredients and instructions in the viewer's measurement system
+export function convertRecipe<T extends Recipe>(recipe: T, system: MeasurementSystem): T {
+  const ingredientList = convertIngredients(recipe.ingredientList ?? parseIngredients(recipe.ingredients), system);
+  return {
+    ...recipe,
+    ingredientList,
+    ingredients: formatIngredients(ingredientList),
+    instructions: convertTemperatures(recipe.instructions, system),
+  };
+}